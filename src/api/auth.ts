@@ -1,7 +1,8 @@
-import { createClient } from '@phala/cloud';
 import { API_ENDPOINTS } from '../utils/constants';
 import { GetUserInfoResponse, getUserInfoResponseSchema } from './types';
 import { logger } from '../utils/logger';
+import { createApiClient } from './client';
+import { withErrorContext } from './errors';
 
 // Helper function to safely stringify objects that might contain cyclic references
 function safeStringify(obj: any): string {
@@ -22,7 +23,7 @@ function safeStringify(obj: any): string {
 export async function getUserInfo(apiKey?: string): Promise<GetUserInfoResponse> {
   try {
     logger.debug(`Fetching user info from ${API_ENDPOINTS.USER_INFO}`);
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient({ apiKey });
     const response = await apiClient.get<any>(API_ENDPOINTS.USER_INFO);
     logger.debug(`Received response: ${safeStringify(response)}`);
     
@@ -36,6 +37,6 @@ export async function getUserInfo(apiKey?: string): Promise<GetUserInfoResponse>
     }
   } catch (error) {
     logger.error(`Failed to get user info: ${error instanceof Error ? error.message : String(error)}`);
-    throw new Error(`Failed to get user info: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to get user info');
   }
 }
\ No newline at end of file
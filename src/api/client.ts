@@ -0,0 +1,102 @@
+import { createClient } from '@phala/cloud';
+import { getApiKey } from '@/src/utils/credentials';
+import { logger } from '@/src/utils/logger';
+import { RateLimitError, isRetryableError, toApiError, type ApiError } from './errors';
+
+export const DEFAULT_API_TIMEOUT_MS = 30_000;
+export const DEFAULT_API_RETRIES = 3;
+export const DEFAULT_API_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+
+/**
+ * Options for the API client. Timeout and retries default to
+ * PHALA_CLOUD_API_TIMEOUT (ms) and PHALA_CLOUD_API_RETRIES when set.
+ */
+export interface ApiClientOptions {
+  apiKey?: string | null;
+  timeout?: number;
+  retries?: number;
+  retryDelay?: number;
+}
+
+/**
+ * Per-request options forwarded to the HTTP client (query, responseType, timeout, ...)
+ */
+export type ApiRequestOptions = Record<string, unknown>;
+
+/**
+ * HTTP client for the Phala Cloud API. Failures are thrown as ApiError subclasses.
+ */
+export interface ApiClient {
+  get<T = unknown>(url: string, options?: ApiRequestOptions): Promise<T>;
+  post<T = unknown>(url: string, body?: unknown, options?: ApiRequestOptions): Promise<T>;
+  put<T = unknown>(url: string, body?: unknown, options?: ApiRequestOptions): Promise<T>;
+  patch<T = unknown>(url: string, body?: unknown, options?: ApiRequestOptions): Promise<T>;
+  delete<T = unknown>(url: string, options?: ApiRequestOptions): Promise<T>;
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) {
+    return fallback;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Computes the delay before the next attempt: the server's Retry-After when
+ * rate limited, exponential backoff otherwise
+ * @param attempt Zero-based number of the failed attempt
+ * @param baseDelay Delay before the first retry in ms
+ * @param error Error of the failed attempt
+ * @returns Delay in ms
+ */
+export function getRetryDelay(attempt: number, baseDelay: number, error: ApiError): number {
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  }
+  return Math.min(baseDelay * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Creates an API client authenticated with the stored API key
+ * @param options Client options
+ * @returns API client with timeouts, retries and typed errors
+ */
+export function createApiClient(options: ApiClientOptions = {}): ApiClient {
+  const client = createClient({ apiKey: options.apiKey ?? getApiKey() });
+  const timeout = options.timeout ?? readNumberEnv('PHALA_CLOUD_API_TIMEOUT', DEFAULT_API_TIMEOUT_MS);
+  const retries = options.retries ?? readNumberEnv('PHALA_CLOUD_API_RETRIES', DEFAULT_API_RETRIES);
+  const retryDelay = options.retryDelay ?? DEFAULT_API_RETRY_DELAY_MS;
+
+  async function request<T>(
+    method: string,
+    url: string,
+    send: (requestOptions: ApiRequestOptions) => Promise<T>,
+    requestOptions: ApiRequestOptions = {}
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        // Retries are handled here, so disable the ones built into the HTTP client
+        return await send({ timeout, ...requestOptions, retry: 0 });
+      } catch (error) {
+        const apiError = toApiError(error);
+        if (attempt >= retries || !isRetryableError(apiError, method)) {
+          throw apiError;
+        }
+        const delay = getRetryDelay(attempt, retryDelay, apiError);
+        logger.debug(`${method} ${url} failed: ${apiError.message}. Retrying in ${delay}ms (${attempt + 1}/${retries})`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  return {
+    get: (url, requestOptions) => request('GET', url, (opts) => client.get(url, opts), requestOptions),
+    post: (url, body, requestOptions) => request('POST', url, (opts) => client.post(url, body, opts), requestOptions),
+    put: (url, body, requestOptions) => request('PUT', url, (opts) => client.put(url, body, opts), requestOptions),
+    patch: (url, body, requestOptions) => request('PATCH', url, (opts) => client.patch(url, body, opts), requestOptions),
+    delete: (url, requestOptions) => request('DELETE', url, (opts) => client.delete(url, opts), requestOptions),
+  };
+}
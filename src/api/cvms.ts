@@ -1,4 +1,3 @@
-import { createClient } from '@phala/cloud';
 import { API_ENDPOINTS } from '@/src/utils/constants';
 import { logger } from '@/src/utils/logger';
 import {
@@ -25,7 +24,9 @@ import type {
 } from './types';
 import inquirer from 'inquirer';
 import { z } from 'zod';
-import { getApiKey } from '@/src/utils/credentials';
+import { createApiClient, type ApiClientOptions } from './client';
+import type { CvmBootState } from '@/src/utils/wait';
+import { withErrorContext } from './errors';
 
 /**
  * Get all CVMs for the current user
@@ -33,12 +34,11 @@ import { getApiKey } from '@/src/utils/credentials';
  */
 export async function getCvms(): Promise<CvmInstance[]> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.get<CvmInstance[]>(API_ENDPOINTS.CVMS(0));
     return z.array(cvmInstanceSchema).parse(response);
   } catch (error) {
-    throw new Error(`Failed to get CVMs: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to get CVMs');
   }
 }
 
@@ -82,12 +82,11 @@ export async function checkCvmExists(appId: string): Promise<string> {
  */
 export async function getCvmByAppId(appId: string): Promise<GetCvmByAppIdResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.get<GetCvmByAppIdResponse>(API_ENDPOINTS.CVM_BY_APP_ID(appId));
     return getCvmByAppIdResponseSchema.parse(response);
   } catch (error) {
-    throw new Error(`Failed to get CVM by App ID: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to get CVM by App ID');
   }
 }
 
@@ -97,25 +96,52 @@ export async function getCvmByAppId(appId: string): Promise<GetCvmByAppIdRespons
  * @returns Public key
  */
 export async function getPubkeyFromCvm(vmConfig: VMConfig): Promise<GetPubkeyFromCvmResponse> {
-  const apiKey = getApiKey();
-  const apiClient = createClient({ apiKey: apiKey });
+  const apiClient = createApiClient();
   const response = await apiClient.post<GetPubkeyFromCvmResponse>(API_ENDPOINTS.CVM_PUBKEY, vmConfig);
   return getPubkeyFromCvmResponseSchema.parse(response);
 }
 
+// Boot state in the CVM details, boot progress and error only once the node reports them
+const cvmBootStateSchema = getCvmByAppIdResponseSchema.pick({ status: true, in_progress: true }).extend({
+  boot_progress: z.string().nullable().optional(),
+  boot_error: z.string().nullable().optional(),
+});
+
+/**
+ * Get the boot state of a CVM from its details
+ * @param appId App ID
+ * @param clientOptions Options for the API client, e.g. an explicit API key
+ * @returns Boot state
+ */
+export async function getCvmBootState(appId: string, clientOptions: ApiClientOptions = {}): Promise<CvmBootState> {
+  try {
+    const apiClient = createApiClient(clientOptions);
+    const response = await apiClient.get<GetCvmByAppIdResponse>(API_ENDPOINTS.CVM_BY_APP_ID(appId));
+    const cvm = cvmBootStateSchema.parse(response);
+    return {
+      status: cvm.status,
+      inProgress: cvm.in_progress,
+      bootProgress: cvm.boot_progress ?? null,
+      bootError: cvm.boot_error ?? null,
+    };
+  } catch (error) {
+    throw withErrorContext(error, 'Failed to get CVM boot state');
+  }
+}
+
 /**
  * Get network information for a CVM
  * @param appId App ID
+ * @param clientOptions Options for the API client, e.g. an explicit API key
  * @returns Network information
  */
-export async function getCvmNetwork(appId: string): Promise<GetCvmNetworkResponse> {
+export async function getCvmNetwork(appId: string, clientOptions: ApiClientOptions = {}): Promise<GetCvmNetworkResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient(clientOptions);
     const response = await apiClient.get<GetCvmNetworkResponse>(API_ENDPOINTS.CVM_NETWORK(appId));
     return getCvmNetworkResponseSchema.parse(response);
   } catch (error) {
-    throw new Error(`Failed to get network information for CVM: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to get network information for CVM');
   }
 }
 
@@ -126,8 +152,7 @@ export async function getCvmNetwork(appId: string): Promise<GetCvmNetworkRespons
  */
 export async function createCvm(vmConfig: VMConfig): Promise<PostCvmResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.post<PostCvmResponse>(API_ENDPOINTS.CVM_FROM_CONFIGURATION, vmConfig);
     return postCvmResponseSchema.parse(response);
   } catch (error) {
@@ -136,7 +161,7 @@ export async function createCvm(vmConfig: VMConfig): Promise<PostCvmResponse> {
       logger.error('API response:', JSON.stringify(error.format(), null, 2));
       throw new Error(`Response validation failed: ${JSON.stringify(error.errors)}`);
     }
-    throw new Error(`Failed to create CVM: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to create CVM');
   }
 }
 
@@ -147,12 +172,11 @@ export async function createCvm(vmConfig: VMConfig): Promise<PostCvmResponse> {
  */
 export async function startCvm(appId: string): Promise<PostCvmResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.post<PostCvmResponse>(API_ENDPOINTS.CVM_START(appId));
     return postCvmResponseSchema.parse(response);
   } catch (error) {
-    throw new Error(`Failed to start CVM: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to start CVM');
   }
 }
 
@@ -163,12 +187,11 @@ export async function startCvm(appId: string): Promise<PostCvmResponse> {
  */
 export async function stopCvm(appId: string): Promise<PostCvmResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.post<PostCvmResponse>(API_ENDPOINTS.CVM_STOP(appId));
     return postCvmResponseSchema.parse(response);
   } catch (error) {
-    throw new Error(`Failed to stop CVM: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to stop CVM');
   }
 }
 
@@ -179,12 +202,11 @@ export async function stopCvm(appId: string): Promise<PostCvmResponse> {
  */
 export async function restartCvm(appId: string): Promise<PostCvmResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.post<PostCvmResponse>(API_ENDPOINTS.CVM_RESTART(appId));
     return postCvmResponseSchema.parse(response);
   } catch (error) {
-    throw new Error(`Failed to restart CVM: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to restart CVM');
   }
 }
 
@@ -195,8 +217,7 @@ export async function restartCvm(appId: string): Promise<PostCvmResponse> {
  * @returns Upgrade response
  */
 export async function upgradeCvm(appId: string, vmConfig: VMConfig): Promise<UpgradeCvmResponse> {
-  const apiKey = getApiKey();
-  const apiClient = createClient({ apiKey: apiKey });
+  const apiClient = createApiClient();
   const response = await apiClient.put<UpgradeCvmResponse>(API_ENDPOINTS.CVM_UPGRADE(appId), vmConfig);
   return upgradeCvmResponseSchema.parse(response);
 }
@@ -208,12 +229,11 @@ export async function upgradeCvm(appId: string, vmConfig: VMConfig): Promise<Upg
  */
 export async function deleteCvm(appId: string): Promise<boolean> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     await apiClient.delete(API_ENDPOINTS.CVM_BY_APP_ID(appId));
     return true;
   } catch (error) {
-    throw new Error(`Failed to delete CVM: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to delete CVM');
   }
 }
 
@@ -224,12 +244,11 @@ export async function deleteCvm(appId: string): Promise<boolean> {
  */
 export async function updateCvm(updatePayload: UpdateCvmPayload): Promise<unknown> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.put(API_ENDPOINTS.CVM_BY_APP_ID(updatePayload.app_id), updatePayload);
     return response;
   } catch (error) {
-    throw new Error(`Failed to update CVM: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to update CVM');
   }
 }
 
@@ -279,8 +298,7 @@ export async function selectCvm(): Promise<string | undefined> {
  */
 export async function getCvmAttestation(appId: string): Promise<CvmAttestationResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.get<CvmAttestationResponse>(API_ENDPOINTS.CVM_ATTESTATION(appId));
     
     // Attempt to validate and return the response
@@ -302,7 +320,86 @@ export async function getCvmAttestation(appId: string): Promise<CvmAttestationRe
       return normalizedResponse;
     }
   } catch (error) {
-    throw new Error(`Failed to get attestation information: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to get attestation information');
+  }
+}
+
+/**
+ * Log query options
+ */
+export interface CvmLogsOptions {
+  service?: string;
+  since?: string;
+  tail?: number;
+  timestamps?: boolean;
+}
+
+/**
+ * Build the query parameters for the CVM logs endpoint
+ * @param options Log query options
+ * @returns Query parameters with undefined values removed
+ */
+function buildLogsQuery(options: CvmLogsOptions): Record<string, string | number | boolean> {
+  const query: Record<string, string | number | boolean> = {};
+  if (options.service) query.service = options.service;
+  if (options.since) query.since = options.since;
+  if (options.tail !== undefined) query.tail = options.tail;
+  if (options.timestamps) query.timestamps = true;
+  return query;
+}
+
+/**
+ * Get container logs for a CVM
+ * @param appId App ID
+ * @param options Log query options
+ * @returns Log output as plain text
+ */
+export async function getCvmLogs(appId: string, options: CvmLogsOptions = {}): Promise<string> {
+  try {
+    const apiClient = createApiClient();
+    const response = await apiClient.get<string>(API_ENDPOINTS.CVM_LOGS(appId), {
+      query: buildLogsQuery(options),
+      responseType: 'text',
+    });
+    return typeof response === 'string' ? response : String(response ?? '');
+  } catch (error) {
+    throw withErrorContext(error, 'Failed to get CVM logs');
+  }
+}
+
+/**
+ * Stream container logs for a CVM until the server closes the connection
+ * @param appId App ID
+ * @param options Log query options
+ * @param onLine Callback invoked for every complete log line
+ */
+export async function streamCvmLogs(
+  appId: string,
+  options: CvmLogsOptions,
+  onLine: (line: string) => void
+): Promise<void> {
+  const apiClient = createApiClient();
+  const stream = await apiClient.get<ReadableStream<Uint8Array>>(API_ENDPOINTS.CVM_LOGS(appId), {
+    query: { ...buildLogsQuery(options), follow: true },
+    responseType: 'stream',
+  });
+
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      onLine(line.replace(/\r$/, ''));
+    }
+  }
+  buffered += decoder.decode();
+  if (buffered) {
+    onLine(buffered);
   }
 }
 
@@ -336,16 +433,13 @@ export interface ResizeCvmPayload {
  */
 export async function getCvmComposeConfig(cvmId: string): Promise<CvmComposeConfig> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.get<CvmComposeConfig>(
       API_ENDPOINTS.CVM_COMPOSE(cvmId)
     );
     return cvmComposeConfigSchema.parse(response);
   } catch (error) {
-    throw new Error(
-      `Failed to get CVM compose config: ${error instanceof Error ? error.message : String(error)}`
-    );
+    throw withErrorContext(error, 'Failed to get CVM compose config');
   }
 }
 
@@ -360,17 +454,14 @@ export async function replicateCvm(
   }
 ): Promise<ReplicateCvmResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     const response = await apiClient.post<ReplicateCvmResponse>(
       API_ENDPOINTS.REPLICATE_CVM(appId),
       payload
     );
     return replicateCvmResponseSchema.parse(response);
   } catch (error) {
-    throw new Error(
-      `Failed to replicate CVM: ${error instanceof Error ? error.message : String(error)}`
-    );
+    throw withErrorContext(error, 'Failed to replicate CVM');
   }
 }
 
@@ -382,8 +473,7 @@ export async function resizeCvm(
   allowRestart?: number
 ): Promise<boolean> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     // Only include defined parameters in the payload
     const resizePayload: Record<string, unknown> = {};
     
@@ -400,6 +490,6 @@ export async function resizeCvm(
     await apiClient.patch(API_ENDPOINTS.CVM_RESIZE(appId), resizePayload);
     return true;
   } catch (error) {
-    throw new Error(`Failed to resize CVM: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to resize CVM');
   }
 } 
\ No newline at end of file
@@ -0,0 +1,239 @@
+import { logger } from '@/src/utils/logger';
+
+// Exit codes for API failures, so scripts can react to the kind of error.
+// 1 stays the generic failure code, 2 is used by commander for usage errors
+// and 3 for attestation policy violations.
+export const API_ERROR_EXIT_CODES = {
+  auth: 4,
+  notFound: 5,
+  validation: 6,
+  rateLimit: 7,
+} as const;
+
+/**
+ * Details carried by an API error
+ */
+export interface ApiErrorDetails {
+  status?: number;
+  requestId?: string;
+  body?: unknown;
+  cause?: unknown;
+}
+
+/**
+ * Base class for errors returned by the Phala Cloud API.
+ * A missing status means the request did not get a response (network error or timeout).
+ */
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly requestId?: string;
+  readonly body?: unknown;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.requestId = details.requestId;
+    this.body = details.body;
+  }
+}
+
+/**
+ * The API key is missing, invalid or lacks permission (401/403)
+ */
+export class AuthError extends ApiError {}
+
+/**
+ * The requested resource does not exist (404)
+ */
+export class NotFoundError extends ApiError {}
+
+/**
+ * The request was rejected by server-side validation (400/422)
+ */
+export class ValidationError extends ApiError {}
+
+/**
+ * Too many requests (429). retryAfter is in seconds when the server sent a Retry-After header.
+ */
+export class RateLimitError extends ApiError {
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: ApiErrorDetails & { retryAfter?: number } = {}) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * Extracts a human readable message from an API error body
+ * (FastAPI style `detail`, plain `message`/`error` fields or a text body)
+ */
+function extractDetail(body: unknown): string | undefined {
+  if (typeof body === 'string') {
+    return body.trim().slice(0, 500) || undefined;
+  }
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+  const { detail, message, error } = body as Record<string, unknown>;
+  if (typeof detail === 'string') {
+    return detail;
+  }
+  if (Array.isArray(detail)) {
+    return detail
+      .map((item) => {
+        if (item && typeof item === 'object' && 'msg' in item) {
+          const loc = Array.isArray(item.loc) ? item.loc.join('.') : '';
+          return loc ? `${loc}: ${item.msg}` : String(item.msg);
+        }
+        return JSON.stringify(item);
+      })
+      .join('; ');
+  }
+  if (typeof message === 'string') {
+    return message;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  return undefined;
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into seconds
+ */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Converts an error thrown by the HTTP client (ofetch FetchError or a network error)
+ * into the matching ApiError subclass
+ * @param error Error thrown by the HTTP client
+ * @returns Typed API error
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (!error || typeof error !== 'object') {
+    return new ApiError(String(error));
+  }
+
+  const fetchError = error as {
+    message?: string;
+    status?: number;
+    statusCode?: number;
+    statusText?: string;
+    data?: unknown;
+    response?: { status?: number; headers?: { get(name: string): string | null } };
+  };
+  const status = fetchError.status ?? fetchError.statusCode ?? fetchError.response?.status;
+  const headers = fetchError.response?.headers;
+  const body = fetchError.data;
+  const bodyRequestId = body && typeof body === 'object' ? (body as Record<string, unknown>).request_id : undefined;
+  const requestId = headers?.get('x-request-id') || (typeof bodyRequestId === 'string' ? bodyRequestId : undefined);
+
+  const detail = extractDetail(body);
+  const fallback = fetchError.message || fetchError.statusText || 'Unknown error';
+  const message = status && detail ? `${detail} (HTTP ${status})` : fallback;
+  const details: ApiErrorDetails = { status, requestId, body, cause: error };
+
+  switch (status) {
+    case 401:
+    case 403:
+      return new AuthError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 400:
+    case 422:
+      return new ValidationError(message, details);
+    case 429:
+      return new RateLimitError(message, { ...details, retryAfter: parseRetryAfter(headers?.get('retry-after')) });
+    default:
+      return new ApiError(message, details);
+  }
+}
+
+/**
+ * Decides whether a failed request may be retried. Rate limited requests are always
+ * retried since the server rejected them before processing. Network errors, timeouts
+ * and 5xx responses are only retried for idempotent GET requests.
+ * @param error Typed API error
+ * @param method HTTP method of the request
+ * @returns True if the request should be retried
+ */
+export function isRetryableError(error: ApiError, method: string): boolean {
+  if (error instanceof RateLimitError) {
+    return true;
+  }
+  if (method.toUpperCase() !== 'GET') {
+    return false;
+  }
+  return error.status === undefined || error.status >= 500;
+}
+
+/**
+ * Prefixes the message of an error with the failed action, keeping typed API errors intact
+ * @param error Caught error
+ * @param action Description of the failed action, e.g. "Failed to get CVMs"
+ * @returns Error to rethrow
+ */
+export function withErrorContext(error: unknown, action: string): Error {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof ApiError) {
+    error.message = `${action}: ${message}`;
+    return error;
+  }
+  return new Error(`${action}: ${message}`);
+}
+
+/**
+ * Maps an error to the process exit code of the CLI
+ * @param error Caught error
+ * @returns Exit code
+ */
+export function getErrorExitCode(error: unknown): number {
+  if (error instanceof AuthError) return API_ERROR_EXIT_CODES.auth;
+  if (error instanceof NotFoundError) return API_ERROR_EXIT_CODES.notFound;
+  if (error instanceof ValidationError) return API_ERROR_EXIT_CODES.validation;
+  if (error instanceof RateLimitError) return API_ERROR_EXIT_CODES.rateLimit;
+  return 1;
+}
+
+/**
+ * Logs the HTTP details of an API error and a hint for common failures
+ * @param error Caught error
+ * @param verbose Also log the response body or the full error
+ */
+export function logApiErrorDetails(error: unknown, verbose = false): void {
+  if (!(error instanceof ApiError)) {
+    if (verbose) {
+      logger.error('Full Error:', error);
+    }
+    return;
+  }
+  if (error.status) {
+    logger.error(`Status: ${error.status}`);
+  }
+  if (error.requestId) {
+    logger.error(`Request ID: ${error.requestId}`);
+  }
+  if (verbose && error.body !== undefined) {
+    logger.error('Response Body:', JSON.stringify(error.body, null, 2));
+  }
+  if (error instanceof AuthError) {
+    logger.info('Please set a valid API key with "phala auth login"');
+  } else if (error instanceof RateLimitError) {
+    logger.info('Rate limit exceeded, please try again later');
+  }
+}
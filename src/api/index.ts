@@ -1,4 +1,6 @@
 export * from "./auth"
+export * from "./client"
 export * from "./cvms"
+export * from "./errors"
 export * from "./teepods"
 export * from "./types"
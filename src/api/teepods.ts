@@ -1,8 +1,8 @@
-import { createClient } from '@phala/cloud';
 import { API_ENDPOINTS } from '../utils/constants';
 import { TEEPod, Image, teepodSchema, imageSchema, TeepodResponse, teepodResponseSchema } from './types';
 import { z } from 'zod';
-import { getApiKey } from '@/src/utils/credentials';
+import { createApiClient } from './client';
+import { withErrorContext } from './errors';
 
 /**
  * Get all TEEPods with their images
@@ -10,17 +10,16 @@ import { getApiKey } from '@/src/utils/credentials';
  */
 export async function getTeepods(v03x_only: boolean = false): Promise<TeepodResponse> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     let url = 'teepods/available'
     if (v03x_only) {
       url += '?v03x_only=1'
     }
-    const response = await (await apiClient).get<TeepodResponse>(url);
+    const response = await apiClient.get<TeepodResponse>(url);
     const parsedResponse = teepodResponseSchema.parse(response);
     return parsedResponse;
   } catch (error) {
-    throw new Error(`Failed to get TEEPods: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to get TEEPods');
   }
 }
 
@@ -34,8 +33,7 @@ export async function getTeepods(v03x_only: boolean = false): Promise<TeepodResp
  */
 export async function getTeepodImages(teepodId: string): Promise<Image[]> {
   try {
-    const apiKey = getApiKey();
-    const apiClient = createClient({ apiKey: apiKey });
+    const apiClient = createApiClient();
     // First try to get TEEPod with embedded images
     const teepodsResponse = await getTeepods();
     const teepod = teepodsResponse.nodes.find(pod => pod.teepod_id === Number(teepodId));
@@ -46,9 +44,9 @@ export async function getTeepodImages(teepodId: string): Promise<Image[]> {
     }
     
     // Fallback to the original implementation
-    const response = await (await apiClient).get<Image[]>(API_ENDPOINTS.TEEPOD_IMAGES(teepodId));
+    const response = await apiClient.get<Image[]>(API_ENDPOINTS.TEEPOD_IMAGES(teepodId));
     return z.array(imageSchema).parse(response);
   } catch (error) {
-    throw new Error(`Failed to get TEEPod images: ${error instanceof Error ? error.message : String(error)}`);
+    throw withErrorContext(error, 'Failed to get TEEPod images');
   }
 }
\ No newline at end of file
@@ -143,6 +143,7 @@ export const getUserInfoResponseSchema = z.object({
   credits: zodDecimal.create({ coerce: true }),
   granted_credits: zodDecimal.create({ coerce: true }),
   avatar: z.string(),
+  team_name: z.string().optional(),
 }).passthrough();
 
 // Get CVMs By User ID Response Schema
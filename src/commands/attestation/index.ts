@@ -0,0 +1,7 @@
+import { Command } from 'commander';
+import { verifyBundleCommand } from './verify-bundle';
+
+export const attestationCommands = new Command()
+  .name('attestation')
+  .description('Work with exported attestation evidence')
+  .addCommand(verifyBundleCommand);
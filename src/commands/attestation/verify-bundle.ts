@@ -0,0 +1,55 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { logger } from '@/src/utils/logger';
+import { verifyAttestationBundle } from '@/src/utils/attestation-bundle';
+
+export const verifyBundleCommand = new Command()
+  .name('verify-bundle')
+  .description('Verify an exported attestation evidence bundle offline')
+  .argument('<path>', 'Path to the bundle directory or .tar.gz file')
+  .option('-j, --json', 'Output in JSON format')
+  .action(async (bundlePath: string, options: { json?: boolean }) => {
+    try {
+      const result = await verifyAttestationBundle(bundlePath);
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        if (result.manifest) {
+          logger.keyValueTable({
+            'App ID': result.manifest.app_id,
+            'Created At': result.manifest.created_at,
+            'Files': `${Object.keys(result.manifest.files || {}).length} files`,
+          }, {
+            borderStyle: 'rounded'
+          });
+          logger.break();
+        }
+        logger.table(
+          result.checks.map((check) => ({
+            Check: check.name,
+            Result: check.passed ? chalk.green('PASS') : chalk.red('FAIL'),
+            Details: check.message || (check.passed ? check.actual : `expected ${check.expected}, got ${check.actual}`) || '',
+          })),
+          [
+            { key: 'Check', header: 'Check', minWidth: 8 },
+            { key: 'Result', header: 'Result', minWidth: 6 },
+            { key: 'Details', header: 'Details', minWidth: 25 },
+          ]
+        );
+        logger.break();
+        if (result.passed) {
+          logger.success('Evidence bundle verified');
+        } else {
+          logger.error('Evidence bundle verification failed');
+        }
+      }
+
+      if (!result.passed) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Failed to verify bundle: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
@@ -2,10 +2,18 @@ import { Command } from 'commander';
 import { loginCommand } from './login';
 import { logoutCommand } from './logout';
 import { statusCommand } from './status';
+import { useCommand } from './use';
+import { listCommand } from './list';
+import { lockCommand } from './lock';
+import { unlockCommand } from './unlock';
 
 export const authCommands = new Command()
   .name('auth')
   .description('Authenticate with Phala Cloud')
   .addCommand(loginCommand)
   .addCommand(logoutCommand)
-  .addCommand(statusCommand);
+  .addCommand(statusCommand)
+  .addCommand(useCommand)
+  .addCommand(listCommand)
+  .addCommand(lockCommand)
+  .addCommand(unlockCommand);
@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+import { logger } from '@/src/utils/logger';
+import { listProfiles } from '@/src/utils/profiles';
+
+export const listCommand = new Command()
+  .name('list')
+  .alias('ls')
+  .description('List the configured profiles')
+  .option('-j, --json', 'Output in JSON format')
+  .action(async (options: { json?: boolean }) => {
+    try {
+      const profiles = listProfiles();
+
+      if (options.json) {
+        console.log(JSON.stringify(profiles, null, 2));
+        return;
+      }
+
+      logger.table(
+        profiles.map((profile) => ({
+          active: profile.active ? '*' : '',
+          name: profile.name,
+          apiKey: profile.hasApiKey ? 'saved' : 'not set',
+          apiPrefix: profile.apiPrefix || 'default',
+          defaultNodeId: profile.defaultNodeId ?? '',
+          defaultKmsId: profile.defaultKmsId || '',
+        })),
+        [
+          { key: 'active', header: '' },
+          { key: 'name', header: 'Profile' },
+          { key: 'apiKey', header: 'API Key' },
+          { key: 'apiPrefix', header: 'API Prefix' },
+          { key: 'defaultNodeId', header: 'Default Node' },
+          { key: 'defaultKmsId', header: 'Default KMS' },
+        ]
+      );
+    } catch (error) {
+      logger.error(`Failed to list profiles: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
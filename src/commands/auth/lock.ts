@@ -0,0 +1,19 @@
+import { Command } from 'commander';
+import { PASSPHRASE_ENV, lockCredentials } from '@/src/utils/credentials';
+import { logger } from '@/src/utils/logger';
+import { promptForPassphrase } from '@/src/utils/prompts';
+
+export const lockCommand = new Command()
+  .name('lock')
+  .description('Protect the stored API key with a passphrase')
+  .action(async () => {
+    try {
+      const passphrase = process.env[PASSPHRASE_ENV] || await promptForPassphrase('Choose a passphrase:', true);
+      await lockCredentials(passphrase);
+      logger.success('API key is now protected by your passphrase');
+      logger.info(`You will be asked for it when a command needs the API key, or set ${PASSPHRASE_ENV} for non-interactive use`);
+    } catch (error) {
+      logger.error(`Failed to lock credentials: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
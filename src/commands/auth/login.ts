@@ -1,16 +1,40 @@
 import { Command } from 'commander';
-import { removeApiKey, saveApiKey } from '@/src/utils/credentials';
+import { needsCredentialPassphrase, removeApiKey, saveApiKey, setCredentialPassphrase } from '@/src/utils/credentials';
 import { logger } from '@/src/utils/logger';
+import { promptForPassphrase } from '@/src/utils/prompts';
 import prompts from 'prompts';
 import { getUserInfo } from '@/src/api/auth';
-import { CLOUD_URL } from '@/src/utils/constants';
+import { getCloudUrl } from '@/src/utils/config';
+import { DEFAULT_PROFILE, getActiveProfile, saveProfileSettings } from '@/src/utils/profiles';
+
+interface LoginOptions {
+  apiPrefix?: string;
+  nodeId?: string;
+  kmsId?: string;
+}
 
 export const loginCommand = new Command()
   .name('login')
   .description('Set the API key for authentication')
   .argument('[api-key]', 'Phala Cloud API key to set')
-  .action(async (apiKey?: string): Promise<void> => {
+  .option('--api-prefix <url>', 'API prefix stored with the profile, e.g. for a staging environment')
+  .option('--node-id <nodeId>', 'Default node ID stored with the profile')
+  .option('--kms-id <kmsId>', 'Default KMS ID stored with the profile')
+  .action(async (apiKey: string | undefined, options: LoginOptions): Promise<void> => {
     try {
+      const profile = getActiveProfile();
+      if (options.nodeId !== undefined && !Number.isInteger(Number(options.nodeId))) {
+        throw new Error(`Invalid node ID: ${options.nodeId}`);
+      }
+      // Validate the key against the API of the profile being logged in
+      if (options.apiPrefix) {
+        process.env.PHALA_CLOUD_API_PREFIX = options.apiPrefix;
+      }
+      // A locked store stays locked, so the new key needs its passphrase
+      if (process.stdin.isTTY && needsCredentialPassphrase()) {
+        setCredentialPassphrase(await promptForPassphrase('Enter the passphrase of your credential store:'));
+      }
+
       let checkUserInfo;
       // If no API key is provided, prompt for it
       if (!apiKey) {
@@ -47,9 +71,18 @@ export const loginCommand = new Command()
         }
       }
       
+      saveProfileSettings(profile, {
+        apiPrefix: options.apiPrefix,
+        defaultNodeId: options.nodeId !== undefined ? Number(options.nodeId) : undefined,
+        defaultKmsId: options.kmsId,
+      });
+
       logger.success(`Welcome ${checkUserInfo.username}! API key validated and saved successfully`);
+      if (profile !== DEFAULT_PROFILE) {
+        logger.info(`Saved to profile "${profile}" (workspace: ${checkUserInfo.team_name})`);
+      }
       logger.break();
-      logger.info(`Open in Web UI at ${CLOUD_URL}/dashboard/`);
+      logger.info(`Open in Web UI at ${getCloudUrl()}/dashboard/`);
     } catch (error) {
       logger.error(`Failed to set API key: ${error instanceof Error ? error.message : String(error)}`);
       process.exit(1);
@@ -3,6 +3,7 @@ import { Command } from 'commander';
 import { getApiKey } from '@/src/utils/credentials';
 import { logger } from '@/src/utils/logger';
 import { safeGetCurrentUser } from '@phala/cloud';
+import { getActiveProfile } from '@/src/utils/profiles';
 
 export const statusCommand = new Command()
   .name('status')
@@ -39,10 +40,12 @@ export const statusCommand = new Command()
         
         const userInfo = result.data as any;
         const apiUrl = process.env.PHALA_CLOUD_API_PREFIX || 'https://cloud-api.phala.network/api/v1';
+        const profile = getActiveProfile();
         
         if (options.json) {
           console.log(JSON.stringify({
             apiUrl,
+            profile,
             username: userInfo.username,
             team_name: userInfo.team_name
           }, null, 2));
@@ -50,6 +53,7 @@ export const statusCommand = new Command()
         }
         
         // Display the status in the requested format without colors
+        console.log(`Profile: ${profile}`);
         console.log(`Integrated API: ${apiUrl}`);
         console.log(`Logged in as: ${userInfo.username}`);
         console.log(`Current Workspace: ${userInfo.team_name}`);
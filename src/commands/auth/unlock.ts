@@ -0,0 +1,18 @@
+import { Command } from 'commander';
+import { PASSPHRASE_ENV, unlockCredentials } from '@/src/utils/credentials';
+import { logger } from '@/src/utils/logger';
+import { promptForPassphrase } from '@/src/utils/prompts';
+
+export const unlockCommand = new Command()
+  .name('unlock')
+  .description('Remove the passphrase protection of the stored API key')
+  .action(async () => {
+    try {
+      const passphrase = process.env[PASSPHRASE_ENV] || await promptForPassphrase('Enter your passphrase:');
+      await unlockCredentials(passphrase);
+      logger.success('Passphrase removed, the API key is encrypted with the machine key again');
+    } catch (error) {
+      logger.error(`Failed to unlock credentials: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
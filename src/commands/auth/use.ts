@@ -0,0 +1,20 @@
+import { Command } from 'commander';
+import { logger } from '@/src/utils/logger';
+import { setActiveProfile } from '@/src/utils/profiles';
+
+export const useCommand = new Command()
+  .name('use')
+  .description('Switch the active profile')
+  .argument('<profile>', 'Name of the profile to use')
+  .action(async (profile: string) => {
+    try {
+      setActiveProfile(profile);
+      logger.success(`Now using profile "${profile}"`);
+      if (process.env.PHALA_PROFILE && process.env.PHALA_PROFILE !== profile) {
+        logger.warn(`PHALA_PROFILE is set to "${process.env.PHALA_PROFILE}" and takes precedence in this shell`);
+      }
+    } catch (error) {
+      logger.error(`Failed to switch profile: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
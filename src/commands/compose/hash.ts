@@ -0,0 +1,115 @@
+import { Command } from 'commander';
+import fs from 'fs-extra';
+import { getCvmAttestation } from '@/src/api/cvms';
+import { getComposeHashFromEventLog } from '@/src/utils/attestation';
+import { COMPOSE_FILES, resolveComposePath } from '@/src/utils/compose-lint';
+import { buildAppCompose, composeHashesEqual, computeAppComposeHash, getDefaultCvmName } from '@/src/utils/compose-hash';
+import { logger } from '@/src/utils/logger';
+import { loadPreLaunchScript } from '@/src/utils/pre-launch-script';
+import { parseEnv } from '@/src/utils/secrets';
+
+interface HashOptions {
+  name?: string;
+  envFile?: string;
+  allowedEnvs?: string;
+  preLaunchScript?: string;
+  kms: boolean;
+  gateway: boolean;
+  publicLogs: boolean;
+  publicSysinfo: boolean;
+  localKeyProvider?: boolean;
+  instanceId: boolean;
+  secureTime?: boolean;
+  appCompose?: string;
+  cvmId?: string;
+  json?: boolean;
+}
+
+/**
+ * Builds the app compose to hash from the options, or reads it from --app-compose
+ * @param composePath Docker Compose file given as argument
+ * @param options Command options
+ * @returns The app compose
+ */
+function resolveAppCompose(composePath: string | undefined, options: HashOptions): object {
+  if (options.appCompose) {
+    return fs.readJsonSync(options.appCompose);
+  }
+  const dockerComposePath = resolveComposePath(composePath);
+  if (options.envFile && options.allowedEnvs) {
+    throw new Error('Use either --env-file or --allowed-envs');
+  }
+  const allowedEnvs = options.envFile
+    ? parseEnv([], options.envFile).map((env) => env.key)
+    : (options.allowedEnvs?.split(',').map((key) => key.trim()).filter(Boolean) ?? []);
+
+  return buildAppCompose({
+    name: options.name ?? getDefaultCvmName(),
+    dockerComposeFile: fs.readFileSync(dockerComposePath, 'utf8'),
+    allowedEnvs,
+    preLaunchScript: options.preLaunchScript ? loadPreLaunchScript(options.preLaunchScript) : undefined,
+    kmsEnabled: options.kms,
+    gatewayEnabled: options.gateway,
+    publicLogs: options.publicLogs,
+    publicSysinfo: options.publicSysinfo,
+    localKeyProviderEnabled: options.localKeyProvider ?? false,
+    noInstanceId: !options.instanceId,
+    secureTime: options.secureTime ?? false,
+  });
+}
+
+export const hashCommand = new Command()
+  .name('hash')
+  .description('Compute the compose hash of a deployment locally, as measured by dstack and allowed by DstackApp contracts')
+  .argument('[compose]', `Path to the Docker Compose file (default: ${COMPOSE_FILES.join(' or ')} in current directory)`)
+  .option('-n, --name <name>', 'Name of the CVM, as given to phala deploy (default: name of the current directory)')
+  .option('-e, --env-file <envFile>', 'Environment file whose keys are the allowed env keys')
+  .option('--allowed-envs <keys>', 'Comma-separated allowed env keys, instead of --env-file')
+  .option('--pre-launch-script <preLaunchScript>', 'Path to the pre-launch script of the deployment')
+  .option('--no-kms', 'The CVM does not use a KMS')
+  .option('--no-gateway', 'The CVM is not reachable through the gateway')
+  .option('--no-public-logs', 'The logs of the CVM are not public')
+  .option('--no-public-sysinfo', 'The system information of the CVM is not public')
+  .option('--local-key-provider', 'The CVM uses the local key provider')
+  .option('--no-instance-id', 'The CVM has no instance ID')
+  .option('--secure-time', 'The CVM waits for a secure time source at boot')
+  .option('--app-compose <path>', 'Hash this app compose JSON file instead of building one from the options')
+  .option('--cvm-id <cvmId>', 'App ID of a CVM whose attested compose-hash event must match the computed hash')
+  .option('-j, --json', 'Output in JSON format, with the app compose')
+  .action(async (composePath: string | undefined, options: HashOptions) => {
+    try {
+      const appCompose = resolveAppCompose(composePath, options);
+      const composeHash = computeAppComposeHash(appCompose);
+
+      let attested: string | undefined;
+      if (options.cvmId) {
+        const attestation = await getCvmAttestation(options.cvmId);
+        attested = attestation.tcb_info ? getComposeHashFromEventLog(attestation.tcb_info.event_log) : undefined;
+        if (!attested) {
+          throw new Error(`The attestation of CVM ${options.cvmId} has no compose-hash event, is the CVM running?`);
+        }
+      }
+      const matches = attested ? composeHashesEqual(attested, composeHash) : undefined;
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          compose_hash: composeHash,
+          ...(attested ? { attested_compose_hash: attested, matches } : {}),
+          app_compose: appCompose,
+        }, null, 2));
+      } else {
+        console.log(composeHash);
+        if (attested && matches) {
+          logger.success(`Matches the compose hash attested by CVM ${options.cvmId}`);
+        } else if (attested) {
+          logger.error(`CVM ${options.cvmId} attests compose hash ${attested}`);
+        }
+      }
+      if (matches === false) {
+        process.exit(1);
+      }
+    } catch (error) {
+      logger.error(`Failed to compute compose hash: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,9 @@
+import { Command } from 'commander';
+import { hashCommand } from './hash';
+import { lintCommand } from './lint';
+
+export const composeCommands = new Command()
+  .name('compose')
+  .description('Work with Docker Compose files locally, before deploying them')
+  .addCommand(hashCommand)
+  .addCommand(lintCommand);
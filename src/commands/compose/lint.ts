@@ -0,0 +1,37 @@
+import { Command } from 'commander';
+import fs from 'fs-extra';
+import { COMPOSE_FILES, formatLintIssue, lintCompose, resolveComposePath } from '@/src/utils/compose-lint';
+import { logger } from '@/src/utils/logger';
+import { parseEnv } from '@/src/utils/secrets';
+
+export const lintCommand = new Command()
+  .name('lint')
+  .description('Check a Docker Compose file for pitfalls of running it in a CVM')
+  .argument('[compose]', `Path to the Docker Compose file (default: ${COMPOSE_FILES.join(' or ')} in current directory)`)
+  .option('-e, --env-file <envFile>', 'Environment file of the deployment, to check the variables of the compose file against')
+  .option('--image <image>', 'dstack OS image of the CVM, e.g. dstack-0.3.6, to check the guest agent socket against')
+  .option('-j, --json', 'Output in JSON format')
+  .action(async (composePath: string | undefined, options: { envFile?: string; image?: string; json?: boolean }) => {
+    try {
+      const dockerComposePath = resolveComposePath(composePath);
+      const issues = lintCompose(fs.readFileSync(dockerComposePath, 'utf8'), {
+        envKeys: options.envFile ? parseEnv([], options.envFile).map((env) => env.key) : undefined,
+        dstackImage: options.image,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(issues, null, 2));
+        return;
+      }
+      if (issues.length === 0) {
+        logger.success(`No issues found in ${dockerComposePath}`);
+        return;
+      }
+      for (const issue of issues) {
+        logger.warn(`${formatLintIssue(issue)} [${issue.rule}]`);
+      }
+    } catch (error) {
+      logger.error(`Failed to lint compose file: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,36 @@
+import { Command } from 'commander';
+import { execa } from 'execa';
+import fs from 'fs-extra';
+import { ensureConfigFile, validateConfig } from '@/src/utils/config';
+import { logger } from '@/src/utils/logger';
+
+export const editCommand = new Command()
+  .name('edit')
+  .description('Open the configuration file in $VISUAL or $EDITOR')
+  .action(async () => {
+    try {
+      const configFile = ensureConfigFile();
+      // Run through the shell so editors with arguments work, e.g. EDITOR="code --wait"
+      const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+      await execa(`${editor} ${JSON.stringify(configFile)}`, { stdio: 'inherit', shell: true });
+
+      let data: unknown;
+      try {
+        data = fs.readJsonSync(configFile);
+      } catch (error) {
+        throw new Error(`${configFile} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const errors = validateConfig(data);
+      if (errors.length > 0) {
+        logger.error('The configuration has errors, invalid values are ignored until fixed:');
+        for (const message of errors) {
+          logger.error(`  ${message}`);
+        }
+        process.exit(1);
+      }
+      logger.success('Configuration is valid');
+    } catch (error) {
+      logger.error(`Failed to edit configuration: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
@@ -11,8 +11,8 @@ export const getCommand = new Command()
       const value = getConfigValue(key);
       
       if (value === undefined) {
-        logger.error(`Configuration key '${key}' not found`);
-        process.exit(1);
+        logger.info(`${key} is not set`);
+        return;
       }
       
       logger.info(`${key}: ${JSON.stringify(value)}`);
@@ -20,4 +20,4 @@ export const getCommand = new Command()
       logger.error(`Failed to get configuration value: ${error instanceof Error ? error.message : String(error)}`);
       process.exit(1);
     }
-  }); 
\ No newline at end of file
+  }); 
@@ -2,10 +2,18 @@ import { Command } from 'commander';
 import { getCommand } from './get';
 import { setCommand } from './set';
 import { listCommand } from './list';
+import { unsetCommand } from './unset';
+import { resetCommand } from './reset';
+import { pathCommand } from './path';
+import { editCommand } from './edit';
 
 export const configCommands = new Command()
   .name('config')
   .description('Manage your local configuration')
   .addCommand(getCommand)
   .addCommand(setCommand)
-  .addCommand(listCommand);
+  .addCommand(listCommand)
+  .addCommand(unsetCommand)
+  .addCommand(resetCommand)
+  .addCommand(pathCommand)
+  .addCommand(editCommand);
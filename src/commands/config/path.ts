@@ -0,0 +1,9 @@
+import { Command } from 'commander';
+import { getConfigFilePath } from '@/src/utils/config';
+
+export const pathCommand = new Command()
+  .name('path')
+  .description('Print the path of the configuration file')
+  .action(() => {
+    console.log(getConfigFilePath());
+  });
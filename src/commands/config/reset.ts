@@ -0,0 +1,34 @@
+import { Command } from 'commander';
+import inquirer from 'inquirer';
+import { resetConfig } from '@/src/utils/config';
+import { logger } from '@/src/utils/logger';
+
+export const resetCommand = new Command()
+  .name('reset')
+  .description('Remove all configuration values, restoring the defaults')
+  .option('-f, --force', 'Skip confirmation prompt', false)
+  .action(async (options) => {
+    try {
+      if (!options.force) {
+        const { confirm } = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: 'Reset all configuration values to their defaults?',
+            default: false,
+          },
+        ]);
+
+        if (!confirm) {
+          logger.info('Reset cancelled');
+          return;
+        }
+      }
+
+      resetConfig();
+      logger.success('Configuration reset to defaults');
+    } catch (error) {
+      logger.error(`Failed to reset configuration: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
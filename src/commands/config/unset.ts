@@ -0,0 +1,20 @@
+import { Command } from 'commander';
+import { unsetConfigValue } from '@/src/utils/config';
+import { logger } from '@/src/utils/logger';
+
+export const unsetCommand = new Command()
+  .name('unset')
+  .description('Remove a configuration value, restoring its default')
+  .argument('<key>', 'Configuration key')
+  .action((key) => {
+    try {
+      if (unsetConfigValue(key)) {
+        logger.success(`Configuration value for '${key}' removed`);
+      } else {
+        logger.info(`${key} is not set, nothing to remove`);
+      }
+    } catch (error) {
+      logger.error(`Failed to unset configuration value: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
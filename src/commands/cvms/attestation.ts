@@ -1,16 +1,177 @@
 import { Command } from 'commander';
-import { checkCvmExists, getCvmAttestation, selectCvm } from '@/src/api/cvms';
+import { checkCvmExists, getCvmAttestation, getCvmByAppId, getCvmNetwork, selectCvm } from '@/src/api/cvms';
+import { getTeepods } from '@/src/api/teepods';
 import { logger } from '@/src/utils/logger';
 import chalk from 'chalk';
 import type { CvmAttestationResponse } from '@/src/api/types';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
+import { verifyAttestation, type AttestationVerificationResult } from '@/src/utils/attestation';
+import { writeAttestationBundle } from '@/src/utils/attestation-bundle';
+import {
+  hostnamesFromPublicUrls,
+  validateCertificateChain,
+  type CertificateChainValidationResult,
+  type CertificateCheckStatus,
+} from '@/src/utils/certificates';
+import {
+  POLICY_VIOLATION_EXIT_CODE,
+  collectNodeImageHashes,
+  evaluateAttestationPolicy,
+  loadAttestationPolicy,
+  type AttestationPolicy,
+  type PolicyReport,
+} from '@/src/utils/attestation-policy';
+
+/**
+ * Prints the result of an offline attestation verification
+ * @param result Verification result
+ */
+function printVerificationResult(result: AttestationVerificationResult): void {
+  logger.break();
+  logger.success('Attestation Verification:');
+  logger.table(
+    result.checks.map((check) => ({
+      Check: check.name,
+      Result: check.passed ? chalk.green('PASS') : chalk.red('FAIL'),
+      Details: check.message || (check.passed ? check.actual : `expected ${check.expected}, got ${check.actual}`) || '',
+    })),
+    [
+      { key: 'Check', header: 'Check', minWidth: 8 },
+      { key: 'Result', header: 'Result', minWidth: 6 },
+      { key: 'Details', header: 'Details', minWidth: 25 },
+    ]
+  );
+  logger.break();
+  if (result.passed) {
+    logger.success('Attestation verified: event log replay matches the reported measurements');
+  } else {
+    logger.error('Attestation verification failed');
+  }
+}
+
+const formatStatus = (status: CertificateCheckStatus): string =>
+  status === 'pass' ? chalk.green('PASS') : status === 'fail' ? chalk.red('FAIL') : chalk.gray('SKIP');
+
+/**
+ * Prints the per-certificate result of the chain validation
+ * @param result Chain validation result
+ */
+function printCertificateChainResult(result: CertificateChainValidationResult): void {
+  logger.break();
+  logger.success('Certificate Chain Validation:');
+  logger.table(
+    result.certificates.map((cert) => ({
+      Position: String(cert.position_in_chain),
+      Subject: cert.subject,
+      Linkage: formatStatus(cert.linkage),
+      Signature: formatStatus(cert.signature),
+      Validity: formatStatus(cert.validity),
+      SAN: formatStatus(cert.san),
+      Errors: cert.errors.join('; ') || 'None',
+    })),
+    [
+      { key: 'Position', header: 'Pos', minWidth: 3 },
+      { key: 'Subject', header: 'Subject', minWidth: 10 },
+      { key: 'Linkage', header: 'Linkage', minWidth: 7 },
+      { key: 'Signature', header: 'Signature', minWidth: 9 },
+      { key: 'Validity', header: 'Validity', minWidth: 8 },
+      { key: 'SAN', header: 'SAN', minWidth: 4 },
+      { key: 'Errors', header: 'Errors', minWidth: 20 },
+    ]
+  );
+  if (!result.passed) {
+    logger.error('Certificate chain validation failed');
+  }
+}
+
+/**
+ * Validates the app certificate chain, matching SANs against the CVM's public URLs
+ * @param appId App ID of the CVM
+ * @param attestation Attestation response
+ * @returns Chain validation result
+ */
+async function checkCertificateChain(
+  appId: string,
+  attestation: CvmAttestationResponse
+): Promise<CertificateChainValidationResult> {
+  let hostnames: string[] = [];
+  try {
+    const network = await getCvmNetwork(appId);
+    hostnames = hostnamesFromPublicUrls(network.public_urls);
+  } catch (error) {
+    logger.warn(`Skipping SAN check, could not fetch public URLs: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return validateCertificateChain(attestation.app_certificates || [], { hostnames });
+}
+
+/**
+ * Prints the result of evaluating an attestation policy
+ * @param report Policy report
+ */
+function printPolicyReport(report: PolicyReport): void {
+  logger.break();
+  logger.success('Attestation Policy Report:');
+  logger.table(
+    report.rules.map((rule) => ({
+      Rule: rule.rule,
+      Result: rule.passed ? chalk.green('PASS') : chalk.red('FAIL'),
+      Expected: rule.expected || '',
+      Actual: rule.actual || rule.message || '',
+    })),
+    [
+      { key: 'Rule', header: 'Rule', minWidth: 8 },
+      { key: 'Result', header: 'Result', minWidth: 6 },
+      { key: 'Expected', header: 'Expected', minWidth: 20 },
+      { key: 'Actual', header: 'Actual', minWidth: 20 },
+    ]
+  );
+  logger.break();
+  if (report.passed) {
+    logger.success(`All ${report.rules.length} policy rules passed`);
+  } else {
+    logger.error(`${report.rules.filter((rule) => !rule.passed).length} of ${report.rules.length} policy rules failed`);
+  }
+}
+
+/**
+ * Evaluates a policy, fetching the node images when the policy checks the OS image hash
+ * @param policy Attestation policy
+ * @param appId App ID of the CVM
+ * @param attestation Attestation response
+ * @returns Policy report
+ */
+async function checkPolicy(
+  policy: AttestationPolicy,
+  appId: string,
+  attestation: CvmAttestationResponse
+): Promise<PolicyReport> {
+  let osImageHash: string | null | undefined;
+  let nodeImageHashes: string[] = [];
+
+  if (policy.os_image_hash) {
+    const [cvm, teepods] = await Promise.all([getCvmByAppId(appId), getTeepods()]);
+    nodeImageHashes = collectNodeImageHashes(teepods);
+    const node = teepods.nodes.find((pod) => pod.teepod_id === cvm.teepod_id);
+    const image = (node?.images || []).find((item) => item.name === cvm.base_image)
+      || teepods.nodes.flatMap((pod) => pod.images || []).find((item) => item.name === cvm.base_image);
+    osImageHash = image?.os_image_hash;
+  }
+
+  return evaluateAttestationPolicy(policy, { attestation, osImageHash, nodeImageHashes });
+}
 
 export const attestationCommand = new Command()
   .name('attestation')
   .description('Get attestation information for a CVM')
   .argument('[app-id]', 'CVM app ID (will prompt for selection if not provided)')
   .option('-j, --json', 'Output in JSON format')
-  .action(async (appId?: string, options?: { json?: boolean }) => {
+  .option('--verify', 'Verify the attestation by replaying the event log, checking the compose hash and validating the certificate chain')
+  .option('--policy <file>', `Check the attestation against a policy file (YAML or JSON), exits with code ${POLICY_VIOLATION_EXIT_CODE} on violation`)
+  .option('--export <path>', 'Export an evidence bundle for offline verification (directory, or .tar.gz file)')
+  .action(async (appId?: string, options?: { json?: boolean; verify?: boolean; policy?: string; export?: string }) => {
     try {
+      // Load the policy first so an invalid file fails before any network call
+      const policy = options?.policy ? loadAttestationPolicy(options.policy) : undefined;
       let resolvedAppId: string;
       
       if (!appId) {
@@ -35,8 +196,36 @@ export const attestationCommand = new Command()
           return;
         }
 
+        if (options?.export) {
+          const manifest = await writeAttestationBundle(attestationData, options.export, resolvedAppId);
+          if (!options.json) {
+            logger.success(`Exported ${Object.keys(manifest.files).length} files to ${options.export}`);
+            logger.info(`Verify it offline with: phala attestation verify-bundle ${options.export}`);
+            logger.break();
+          }
+        }
+
+        const verification = options?.verify ? verifyAttestation(attestationData) : undefined;
+        const certificateChain = options?.verify ? await checkCertificateChain(resolvedAppId, attestationData) : undefined;
+        const policyReport = policy ? await checkPolicy(policy, resolvedAppId, attestationData) : undefined;
+
+        // Verification failures take precedence over policy violations
+        const exitOnFailure = () => {
+          if ((verification && !verification.passed) || (certificateChain && !certificateChain.passed)) {
+            process.exit(1);
+          }
+          if (policyReport && !policyReport.passed) {
+            process.exit(POLICY_VIOLATION_EXIT_CODE);
+          }
+        };
+
         // If JSON output is requested, just print the raw response
         if (options?.json) {
+          if (verification || policyReport) {
+            console.log(JSON.stringify({ verification, certificates: certificateChain, policy: policyReport }, null, 2));
+            exitOnFailure();
+            return;
+          }
           logger.info(JSON.stringify(attestationData, null, 2));
           return;
         }
@@ -128,15 +317,30 @@ export const attestationCommand = new Command()
             if (attestationData.tcb_info.event_log.length > maxEntriesToShow) {
               logger.info('To see all full attestation data, use --json');
             }
-            logger.break();
-            logger.success('To reproduce RTMR3, use the tool at https://rtmr3-calculator.vercel.app/');
+            if (!verification) {
+              logger.break();
+              logger.success('To reproduce RTMR0-3 locally, run this command with --verify');
+            }
           }
         }
+
+        if (verification) {
+          printVerificationResult(verification);
+        }
+        if (certificateChain) {
+          printCertificateChainResult(certificateChain);
+        }
+        if (policyReport) {
+          printPolicyReport(policyReport);
+        }
+        exitOnFailure();
       } catch (error) {
         spinner.stop(false);
         throw error;
       }
     } catch (error) {
       logger.error(`Failed to get attestation information: ${error instanceof Error ? error.message : String(error)}`);
+      logApiErrorDetails(error);
+      process.exit(getErrorExitCode(error));
     }
   });
@@ -1,34 +1,45 @@
 import { Command } from 'commander';
-import { FetchError } from 'ofetch'
 import { createCvm, getPubkeyFromCvm } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
 import { getTeepods } from '@/src/api/teepods';
 import { logger } from '@/src/utils/logger';
+import { DEFAULT_WAIT_TIMEOUT, parseWaitTimeout } from '@/src/utils/wait';
+import { waitForCvm } from '@/src/utils/cvms';
 import type { TEEPod, Image } from '@/src/api/types';
-import { DEFAULT_VCPU, DEFAULT_MEMORY, DEFAULT_DISK_SIZE, CLOUD_URL, DEFAULT_IMAGE } from '@/src/utils/constants';
+import { DEFAULT_VCPU, DEFAULT_MEMORY, DEFAULT_DISK_SIZE, DEFAULT_IMAGE } from '@/src/utils/constants';
+import { getCloudUrl, loadConfig } from '@/src/utils/config';
 import { encryptEnvVars, type EnvVar } from '@phala/cloud';
 
 import fs from 'node:fs';
 import path from 'node:path';
 import inquirer from 'inquirer';
 import { parseEnv } from '@/src/utils/secrets';
+import { formatLintIssue, lintCompose } from '@/src/utils/compose-lint';
 import { detectFileInCurrentDir, promptForFile } from '@/src/utils/prompts';
 import { deleteSimulatorEndpointEnv } from '@/src/utils/simulator';
+import { loadProfileSettings } from '@/src/utils/profiles';
 
 export const createCommand = new Command()
   .name('create')
   .description('Create a new CVM')
   .option('-n, --name <name>', 'Name of the CVM')
   .option('-c, --compose <compose>', 'Path to Docker Compose file')
-  .option('--vcpu <vcpu>', `Number of vCPUs, default is ${DEFAULT_VCPU}`)
-  .option('--memory <memory>', `Memory in MB, default is ${DEFAULT_MEMORY}`)
-  .option('--disk-size <diskSize>', `Disk size in GB, default is ${DEFAULT_DISK_SIZE}`)
+  .option('--vcpu <vcpu>', `Number of vCPUs, default is the defaultVcpu config value (${DEFAULT_VCPU})`)
+  .option('--memory <memory>', `Memory in MB, default is the defaultMemory config value (${DEFAULT_MEMORY})`)
+  .option('--disk-size <diskSize>', `Disk size in GB, default is the defaultDiskSize config value (${DEFAULT_DISK_SIZE})`)
   .option('--teepod-id <teepodId>', 'TEEPod ID to use. If not provided, it will be selected from the list of available TEEPods.')
-  .option('--image <image>', 'Version of dstack image to use. If not provided, it will be selected from the list of available images for the selected TEEPod.')
+  .option('--image <image>', `Version of dstack image to use, default is the defaultImage config value (${DEFAULT_IMAGE})`)
   .option('-e, --env-file <envFile>', 'Path to environment file')
   .option('--skip-env', 'Skip environment variable prompt', false)
   .option('--debug', 'Enable debug mode', false)
+  .option('--wait', 'Wait until the CVM is running', false)
+  .option('--wait-timeout <seconds>', `Maximum time to wait in seconds (default: ${DEFAULT_WAIT_TIMEOUT})`)
+  .option('--health-path <path>', 'With --wait, also wait until this HTTP path answers on a public URL of the CVM')
   .action(async (options) => {
     try {
+      if (options.wait) {
+        parseWaitTimeout(options.waitTimeout);
+      }
       // Prompt for required options if not provided
       if (!options.name) {
         const { name } = await inquirer.prompt([
@@ -121,9 +132,10 @@ export const createCommand = new Command()
         }
       }
 
-      const vcpu = Number(options.vcpu) || DEFAULT_VCPU;
-      const memory = Number(options.memory) || DEFAULT_MEMORY;
-      const diskSize = Number(options.diskSize) || DEFAULT_DISK_SIZE;
+      const config = loadConfig();
+      const vcpu = Number(options.vcpu) || config.defaultVcpu;
+      const memory = Number(options.memory) || config.defaultMemory;
+      const diskSize = Number(options.diskSize) || config.defaultDiskSize;
 
       if (Number.isNaN(vcpu) || vcpu <= 0) {
         logger.error(`Invalid number of vCPUs: ${vcpu}`);
@@ -149,6 +161,8 @@ export const createCommand = new Command()
       }
 
       let selectedTeepod: TEEPod;
+      // Fall back to the default node of the active profile, then of the configuration
+      options.teepodId ??= loadProfileSettings().defaultNodeId ?? config.defaultTeepodId;
       // Fetch available TEEPods
       if (!options.teepodId) {
         selectedTeepod = teepods.nodes[0];
@@ -166,9 +180,10 @@ export const createCommand = new Command()
 
       let selectedImage: Image;
       if (!options.image) {
-        selectedImage = selectedTeepod.images?.find(image => image.name === DEFAULT_IMAGE);
+        const defaultImage = config.defaultImage || DEFAULT_IMAGE;
+        selectedImage = selectedTeepod.images?.find(image => image.name === defaultImage);
         if (!selectedImage) {
-          logger.error(`Failed to find default image ${DEFAULT_IMAGE}`);
+          logger.error(`Failed to find default image ${defaultImage}`);
           process.exit(1);
         }
       } else {
@@ -179,6 +194,10 @@ export const createCommand = new Command()
         }
       }
 
+      for (const issue of lintCompose(composeString, { envKeys: options.envFile ? envs.map((env) => env.key) : undefined, dstackImage: selectedImage.name })) {
+        logger.warn(formatLintIssue(issue));
+      }
+
       // Prepare VM configuration
       const vmConfig = {
         teepod_id: selectedTeepod.teepod_id,
@@ -248,7 +267,7 @@ export const createCommand = new Command()
         'Name': response.name,
         'Status': response.status,
         'App ID': `app_${response.app_id}`,
-        'App URL': response.app_url ? response.app_url : `${CLOUD_URL}/dashboard/cvms/app_${response.app_id}`,
+        'App URL': response.app_url ? response.app_url : `${getCloudUrl()}/dashboard/cvms/app_${response.app_id}`,
       };
       logger.keyValueTable(tableData, {
         borderStyle: 'rounded'
@@ -256,15 +275,15 @@ export const createCommand = new Command()
 
       logger.info('');
       logger.success(`Your CVM is being created. You can check its status with:\nphala cvms get app_${response.app_id}`);
-    } catch (error) {
-      console.log('')
-      if (error instanceof FetchError) {
-        console.error('Status:', error.status);
-        console.error('Status Text:', error.statusText);
-        console.error(error.data)
-      } else {
-        console.error(error)
+
+      if (options.wait) {
+        logger.break();
+        const { health } = await waitForCvm(response.app_id, options);
+        logger.success(`CVM app_${response.app_id} is running${health ? ` and ${health.url} answered ${health.status}` : ''}`);
       }
-      process.exit(1);
+    } catch (error) {
+      logger.error(`Failed to create CVM: ${error instanceof Error ? error.message : String(error)}`);
+      logApiErrorDetails(error, options.debug);
+      process.exit(getErrorExitCode(error));
     }
   }); 
\ No newline at end of file
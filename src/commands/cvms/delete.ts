@@ -1,5 +1,6 @@
 import { Command } from 'commander';
 import { checkCvmExists, deleteCvm, selectCvm } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
 import { logger } from '@/src/utils/logger';
 import inquirer from 'inquirer';
 import { resolveCvmAppId } from '@/src/utils/cvms';
@@ -45,6 +46,7 @@ export const deleteCommand = new Command()
 		logger.error(
 			`Failed to delete CVM: ${error instanceof Error ? error.message : String(error)}`
 		);
-		process.exit(1);
+		logApiErrorDetails(error);
+		process.exit(getErrorExitCode(error));
 	}
   }); 
\ No newline at end of file
@@ -1,7 +1,8 @@
 import { Command } from 'commander';
 import { checkCvmExists, getCvmByAppId, getCvms, selectCvm } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
 import { logger } from '@/src/utils/logger';
-import { CLOUD_URL } from '@/src/utils/constants';
+import { getCloudUrl } from '@/src/utils/config';
 import chalk from 'chalk';
 import { resolveCvmAppId } from '@/src/utils/cvms';
 
@@ -40,10 +41,11 @@ export const getCommand = new Command()
         'Memory': `${cvm.memory} MB`,
         'Disk Size': `${cvm.disk_size} GB`,
         'Dstack Image': cvm.base_image,
-        'App URL': `${CLOUD_URL}/dashboard/cvms/app_${cvm.app_id}`
+        'App URL': `${getCloudUrl()}/dashboard/cvms/app_${cvm.app_id}`
       });
     } catch (error) {
       logger.error(`Failed to get CVM details: ${error instanceof Error ? error.message : String(error)}`);
-      process.exit(1);
+      logApiErrorDetails(error);
+      process.exit(getErrorExitCode(error));
     }
   }); 
\ No newline at end of file
@@ -11,6 +11,7 @@ import { upgradeCommand } from './upgrade';
 import { resizeCommand } from './resize';
 import { listNodesCommand } from './list-node';
 import { replicateCommand } from './replicate';
+import { logsCommand } from './logs';
 
 export const cvmsCommand = new Command()
   .name('cvms')
@@ -20,6 +21,7 @@ export const cvmsCommand = new Command()
   .addCommand(deleteCommand)
   .addCommand(getCommand)
   .addCommand(listCommand)
+  .addCommand(logsCommand)
   .addCommand(startCommand)
   .addCommand(stopCommand)
   .addCommand(resizeCommand)
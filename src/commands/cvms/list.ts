@@ -1,7 +1,8 @@
 import { Command } from 'commander';
 import { getCvms } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
 import { logger } from '@/src/utils/logger';
-import { CLOUD_URL } from '@/src/utils/constants';
+import { getCloudUrl } from '@/src/utils/config';
 import chalk from 'chalk';
 
 export const listCommand = new Command()
@@ -40,15 +41,16 @@ export const listCommand = new Command()
                   ? chalk.red(cvm.status)
                   : chalk.yellow(cvm.status),
             "Node Info URL": cvm.hosted.app_url,
-            "App URL": `${CLOUD_URL}/dashboard/cvms/${cvm.hosted.id.replace(/-/g, '')}`,
+            "App URL": `${getCloudUrl()}/dashboard/cvms/${cvm.hosted.id.replace(/-/g, '')}`,
         });
         logger.break();
       }
       logger.success(`Found ${cvms.length} CVMs`);
       logger.break();
-      logger.info(`Go to ${CLOUD_URL}/dashboard/ to view your CVMs`);
+      logger.info(`Go to ${getCloudUrl()}/dashboard/ to view your CVMs`);
     } catch (error) {
       logger.error(`Failed to list CVMs: ${error instanceof Error ? error.message : String(error)}`);
-      process.exit(1);
+      logApiErrorDetails(error);
+      process.exit(getErrorExitCode(error));
     }
   }); 
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { Command } from 'commander';
+import { getCvmLogs, streamCvmLogs } from '@/src/api/cvms';
+import { AuthError, NotFoundError, getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
+import { logger } from '@/src/utils/logger';
+import { resolveCvmAppId } from '@/src/utils/cvms';
+
+// Reconnect backoff for follow mode
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Docker-style RFC3339 timestamp prefix, e.g. 2025-01-01T00:00:00.000000000Z
+const TIMESTAMP_PREFIX = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2}))\s(.*)$/;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Splits a log line into its timestamp and message parts
+ * @param line Raw log line
+ * @returns Timestamp (if present) and the remaining message
+ */
+function splitTimestamp(line: string): { timestamp?: string; message: string } {
+  const match = line.match(TIMESTAMP_PREFIX);
+  if (!match) {
+    return { message: line };
+  }
+  return { timestamp: match[1], message: match[2] };
+}
+
+export const logsCommand = new Command()
+  .name('logs')
+  .description('Fetch container logs of a CVM')
+  .argument('[app-id]', 'App ID of the CVM (if not provided, a selection prompt will appear)')
+  .option('-s, --service <service>', 'Only show logs of the given compose service')
+  .option('--since <since>', 'Show logs since a timestamp (e.g. 2025-01-01T00:00:00Z) or relative duration (e.g. 10m, 1h)')
+  .option('-n, --tail <lines>', 'Number of lines to show from the end of the logs')
+  .option('-t, --timestamps', 'Show timestamps', false)
+  .option('-f, --follow', 'Follow log output, reconnecting if the connection drops', false)
+  .action(async (appId, options) => {
+    try {
+      let tail: number | undefined;
+      if (options.tail !== undefined) {
+        tail = Number(options.tail);
+        if (!Number.isInteger(tail) || tail < 0) {
+          logger.error(`Invalid number of lines: ${options.tail}`);
+          process.exit(1);
+        }
+      }
+
+      const resolvedAppId = await resolveCvmAppId(appId);
+      if (!resolvedAppId) {
+        return;
+      }
+
+      if (!options.follow) {
+        const logs = await getCvmLogs(resolvedAppId, {
+          service: options.service,
+          since: options.since,
+          tail,
+          timestamps: options.timestamps,
+        });
+        if (logs) {
+          process.stdout.write(logs.endsWith('\n') ? logs : `${logs}\n`);
+        }
+        return;
+      }
+
+      // In follow mode timestamps are always requested so that a dropped
+      // connection can be resumed from the last line we printed.
+      let since: string | undefined = options.since;
+      let lastTimestamp: string | undefined;
+      let linesAtLastTimestamp = new Set<string>();
+      let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+      let firstConnection = true;
+      // Without --since, a reconnect before any line was printed must not fetch the whole log again
+      const startedAt = new Date().toISOString();
+
+      const printLine = (line: string) => {
+        const { timestamp, message } = splitTimestamp(line);
+        if (timestamp && lastTimestamp) {
+          // Skip lines that were already printed before reconnecting
+          if (timestamp < lastTimestamp) return;
+          if (timestamp === lastTimestamp && linesAtLastTimestamp.has(line)) return;
+        }
+        if (timestamp) {
+          if (timestamp !== lastTimestamp) {
+            lastTimestamp = timestamp;
+            linesAtLastTimestamp = new Set();
+          }
+          linesAtLastTimestamp.add(line);
+        }
+        reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+        console.log(options.timestamps || !timestamp ? line : message);
+      };
+
+      while (true) {
+        try {
+          await streamCvmLogs(resolvedAppId, {
+            service: options.service,
+            since,
+            tail: firstConnection ? tail : undefined,
+            timestamps: true,
+          }, printLine);
+          logger.debug('Log stream closed by server');
+        } catch (error) {
+          // Reconnecting cannot fix a bad API key or a deleted CVM
+          if (error instanceof AuthError || error instanceof NotFoundError) {
+            throw error;
+          }
+          logger.warn(`Log stream interrupted: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        firstConnection = false;
+        since = lastTimestamp ?? since ?? startedAt;
+        logger.debug(`Reconnecting in ${reconnectDelay / 1000}s...`);
+        await sleep(reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      }
+    } catch (error) {
+      logger.error(`Failed to get CVM logs: ${error instanceof Error ? error.message : String(error)}`);
+      logApiErrorDetails(error);
+      process.exit(getErrorExitCode(error));
+    }
+  });
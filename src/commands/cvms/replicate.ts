@@ -1,8 +1,10 @@
 import { Command } from 'commander';
 import { replicateCvm, getCvmComposeConfig } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
+import { getCloudUrl } from '@/src/utils/config';
 import { logger } from '@/src/utils/logger';
+import { readEnvFile } from '@/src/utils/secrets';
 import { encryptEnvVars } from '@phala/cloud';
-import fs from 'node:fs';
 import path from 'node:path';
 
 export const replicateCommand = new Command()
@@ -18,23 +20,7 @@ export const replicateCommand = new Command()
 
             // Handle environment variables if provided
             if (options.envFile) {
-                const envPath = path.resolve(process.cwd(), options.envFile);
-                if (!fs.existsSync(envPath)) {
-                    throw new Error(`Environment file not found: ${envPath}`);
-                }
-
-                // Read and parse the environment file
-                const envContent = fs.readFileSync(envPath, 'utf-8');
-                const envVars = envContent
-                    .split('\n')
-                    .filter(line => line.trim() !== '' && !line.trim().startsWith('#'))
-                    .map(line => {
-                        const [key, ...value] = line.split('=');
-                        return {
-                            key: key.trim(),
-                            value: value.join('=').trim()
-                        };
-                    });
+                const envVars = readEnvFile(path.resolve(process.cwd(), options.envFile));
 
                 // Get CVM compose config which includes the public key
                 const cvmConfig = await getCvmComposeConfig(cvmId);
@@ -75,7 +61,7 @@ export const replicateCommand = new Command()
                 'vCPUs': replica.vcpu,
                 'Memory': `${replica.memory} MB`,
                 'Disk Size': `${replica.disk_size} GB`,
-                'App URL': replica.app_url || `${process.env.CLOUD_URL || 'https://cloud.phala.network'}/dashboard/cvms/${replica.vm_uuid.replace(/-/g, '')}`
+                'App URL': replica.app_url || `${getCloudUrl()}/dashboard/cvms/${replica.vm_uuid.replace(/-/g, '')}`
             };
 
             logger.keyValueTable(tableData, {
@@ -84,6 +70,7 @@ export const replicateCommand = new Command()
             logger.success(`Your CVM replica is being created. You can check its status with:\nphala cvms get ${replica.app_id}`);
         } catch (error) {
             logger.error('Failed to create CVM replica:', error instanceof Error ? error.message : error);
-            process.exit(1);
+            logApiErrorDetails(error);
+            process.exit(getErrorExitCode(error));
         }
     });
@@ -1,10 +1,12 @@
 import { Command } from 'commander';
 import { checkCvmExists, getCvmByAppId, resizeCvm, selectCvm } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
 import { logger } from '@/src/utils/logger';
+import { DEFAULT_WAIT_TIMEOUT, parseWaitTimeout } from '@/src/utils/wait';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
-import { resolveCvmAppId } from '@/src/utils/cvms';
-import { CLOUD_URL } from '@/src/utils/constants';
+import { resolveCvmAppId, waitForCvm } from '@/src/utils/cvms';
+import { getCloudUrl } from '@/src/utils/config';
 
 export const resizeCommand = new Command()
   .name('resize')
@@ -15,8 +17,14 @@ export const resizeCommand = new Command()
   .option('-d, --disk-size <diskSize>', 'Disk size in GB')
   .option('-r, --allow-restart <allowRestart>', 'Allow restart of the CVM if needed for resizing')
   .option('-y, --yes', 'Automatically confirm the resize operation')
+  .option('--wait', 'Wait until the CVM is running', false)
+  .option('--wait-timeout <seconds>', `Maximum time to wait in seconds (default: ${DEFAULT_WAIT_TIMEOUT})`)
+  .option('--health-path <path>', 'With --wait, also wait until this HTTP path answers on a public URL of the CVM')
   .action(async (appId, options) => {
     try {
+      if (options.wait) {
+        parseWaitTimeout(options.waitTimeout);
+      }
       const resolvedAppId = await resolveCvmAppId(appId);
 
       const cvm = await getCvmByAppId(resolvedAppId);
@@ -138,12 +146,19 @@ export const resizeCommand = new Command()
       spinner.stop(true);
       logger.break();
       logger.success(
-        `Your CVM is being resized. You can check the dashboard for more details:\n${CLOUD_URL}/dashboard/cvms/app_${resolvedAppId}`
+        `Your CVM is being resized. You can check the dashboard for more details:\n${getCloudUrl()}/dashboard/cvms/app_${resolvedAppId}`
       );
+
+      if (options.wait) {
+        logger.break();
+        const { health } = await waitForCvm(resolvedAppId, options);
+        logger.success(`CVM app_${resolvedAppId} is running${health ? ` and ${health.url} answered ${health.status}` : ''}`);
+      }
     } catch (error) {
       logger.error(
         `Failed to resize CVM: ${error instanceof Error ? error.message : String(error)}`
       );
-      process.exit(1);
+      logApiErrorDetails(error);
+      process.exit(getErrorExitCode(error));
     }
   }); 
\ No newline at end of file
@@ -1,15 +1,23 @@
 import { Command } from 'commander';
 import { checkCvmExists, restartCvm, selectCvm } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
 import { logger } from '@/src/utils/logger';
-import { resolveCvmAppId } from '@/src/utils/cvms';
-import { CLOUD_URL } from '@/src/utils/constants';
+import { DEFAULT_WAIT_TIMEOUT, parseWaitTimeout } from '@/src/utils/wait';
+import { resolveCvmAppId, waitForCvm } from '@/src/utils/cvms';
+import { getCloudUrl } from '@/src/utils/config';
 
 export const restartCommand = new Command()
   .name('restart')
   .description('Restart a CVM')
   .argument('[app-id]', 'App ID of the CVM (if not provided, a selection prompt will appear)')
-  .action(async (appId) => {
+  .option('--wait', 'Wait until the CVM is running', false)
+  .option('--wait-timeout <seconds>', `Maximum time to wait in seconds (default: ${DEFAULT_WAIT_TIMEOUT})`)
+  .option('--health-path <path>', 'With --wait, also wait until this HTTP path answers on a public URL of the CVM')
+  .action(async (appId, options) => {
     try {
+      if (options.wait) {
+        parseWaitTimeout(options.waitTimeout);
+      }
       const resolvedAppId = await resolveCvmAppId(appId);
 
       const spinner = logger.startSpinner(
@@ -28,7 +36,7 @@ export const restartCommand = new Command()
         'App ID': `app_${response.app_id}`,
         'App URL': response.app_url
           ? response.app_url
-          : `${CLOUD_URL}/dashboard/cvms/app_${response.app_id}`,
+          : `${getCloudUrl()}/dashboard/cvms/app_${response.app_id}`,
       };
       logger.keyValueTable(tableData, {
         borderStyle: "rounded",
@@ -36,9 +44,16 @@ export const restartCommand = new Command()
 
       logger.break();
       logger.success(
-        `Your CVM is being restarted. You can check the dashboard for more details:\n${CLOUD_URL}/dashboard/cvms/app_${response.app_id}`);
+        `Your CVM is being restarted. You can check the dashboard for more details:\n${getCloudUrl()}/dashboard/cvms/app_${response.app_id}`);
+
+      if (options.wait) {
+        logger.break();
+        const { health } = await waitForCvm(response.app_id, options);
+        logger.success(`CVM app_${response.app_id} is running${health ? ` and ${health.url} answered ${health.status}` : ''}`);
+      }
     } catch (error) {
       logger.error(`Failed to restart CVM: ${error instanceof Error ? error.message : String(error)}`);
-      process.exit(1);
+      logApiErrorDetails(error);
+      process.exit(getErrorExitCode(error));
     }
   }); 
\ No newline at end of file
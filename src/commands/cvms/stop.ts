@@ -1,8 +1,9 @@
 import { Command } from 'commander';
 import { stopCvm, selectCvm, checkCvmExists } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
 import { logger } from '@/src/utils/logger';
 import { resolveCvmAppId } from '@/src/utils/cvms';
-import { CLOUD_URL } from '@/src/utils/constants';
+import { getCloudUrl } from '@/src/utils/config';
 
 export const stopCommand = new Command()
   .name('stop')
@@ -33,10 +34,11 @@ export const stopCommand = new Command()
 
       logger.break();
       logger.success(
-        `Your CVM is being stopped. You can check the dashboard for more details:\n${CLOUD_URL}/dashboard/cvms/app_${response.app_id}`);
+        `Your CVM is being stopped. You can check the dashboard for more details:\n${getCloudUrl()}/dashboard/cvms/app_${response.app_id}`);
       
     } catch (error) {
       logger.error(`Failed to stop CVM: ${error instanceof Error ? error.message : String(error)}`);
-      process.exit(1);
+      logApiErrorDetails(error);
+      process.exit(getErrorExitCode(error));
     }
   }); 
\ No newline at end of file
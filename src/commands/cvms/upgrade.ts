@@ -1,14 +1,16 @@
 import { Command } from 'commander';
-import { FetchError } from 'ofetch';
 import { upgradeCvm, getCvmByAppId } from '@/src/api/cvms';
+import { getErrorExitCode, logApiErrorDetails } from '@/src/api/errors';
 import { logger } from '@/src/utils/logger';
+import { DEFAULT_WAIT_TIMEOUT, parseWaitTimeout } from '@/src/utils/wait';
 import fs from 'node:fs';
 import { detectFileInCurrentDir, promptForFile } from '@/src/utils/prompts';
 import { parseEnv } from '@/src/utils/secrets';
+import { formatLintIssue, lintCompose } from '@/src/utils/compose-lint';
 import { encryptEnvVars, type EnvVar } from '@phala/cloud';
 import { deleteSimulatorEndpointEnv } from '@/src/utils/simulator';
-import { resolveCvmAppId } from '@/src/utils/cvms';
-import { CLOUD_URL } from '@/src/utils/constants';
+import { resolveCvmAppId, waitForCvm } from '@/src/utils/cvms';
+import { getCloudUrl } from '@/src/utils/config';
 
 export const upgradeCommand = new Command()
   .name('upgrade')
@@ -17,8 +19,14 @@ export const upgradeCommand = new Command()
   .option('-c, --compose <compose>', 'Path to new Docker Compose file')
   .option('-e, --env-file <envFile>', 'Path to environment file')
   .option('--debug', 'Enable debug mode', false)
+  .option('--wait', 'Wait until the CVM is running', false)
+  .option('--wait-timeout <seconds>', `Maximum time to wait in seconds (default: ${DEFAULT_WAIT_TIMEOUT})`)
+  .option('--health-path <path>', 'With --wait, also wait until this HTTP path answers on a public URL of the CVM')
   .action(async (appId, options) => {
     try {
+      if (options.wait) {
+        parseWaitTimeout(options.waitTimeout);
+      }
       const resolvedAppId = await resolveCvmAppId(appId);
 
       // Get current CVM configuration
@@ -85,6 +93,10 @@ export const upgradeCommand = new Command()
         
       }
 
+      for (const issue of lintCompose(composeString, { envKeys: options.envFile ? env_keys : undefined, dstackImage: currentCvm.base_image })) {
+        logger.warn(formatLintIssue(issue));
+      }
+
       const vm_config = {
         compose_manifest: {
           docker_compose_file: composeString,
@@ -117,32 +129,17 @@ export const upgradeCommand = new Command()
 
       logger.break();
       logger.success(
-        `Your CVM is being upgraded. You can check the dashboard for more details:\n${CLOUD_URL}/dashboard/cvms/app_${resolvedAppId}`
+        `Your CVM is being upgraded. You can check the dashboard for more details:\n${getCloudUrl()}/dashboard/cvms/app_${resolvedAppId}`
       );
-    } catch (error) {
-      logger.error(`Failed to upgrade CVM: ${error instanceof Error ? error.message : String(error)}`);
 
-      // Multiple ways to check if it's a FetchError:
-      // 1. instanceof check (standard but may fail due to module loading)
-      // 2. Check constructor.name (works across module boundaries)
-      // 3. Check for FetchError-specific properties (status, statusText, data, request)
-      const isFetchError = error instanceof FetchError ||
-        (error as any)?.constructor?.name === 'FetchError' ||
-        (error && typeof error === 'object' && 'status' in error && 'statusText' in error && 'data' in error);
-
-      if (isFetchError) {
-        const fetchError = error as FetchError;
-        logger.error('=== HTTP Error Details ===');
-        logger.error('Status:', fetchError.status);
-        logger.error('Status Text:', fetchError.statusText);
-        logger.error('URL:', fetchError.request);
-        logger.error('Response Body:', JSON.stringify(fetchError.data, null, 2));
-        if (options.debug) {
-          logger.error('Full Error Object:', error);
-        }
-      } else if (options.debug) {
-        logger.error('Full Error:', error);
+      if (options.wait) {
+        logger.break();
+        const { health } = await waitForCvm(resolvedAppId, options);
+        logger.success(`CVM app_${resolvedAppId} is running${health ? ` and ${health.url} answered ${health.status}` : ''}`);
       }
-      process.exit(1);
+    } catch (error) {
+      logger.error(`Failed to upgrade CVM: ${error instanceof Error ? error.message : String(error)}`);
+      logApiErrorDetails(error, options.debug);
+      process.exit(getErrorExitCode(error));
     }
   }); 
\ No newline at end of file
@@ -0,0 +1,52 @@
+import { Command } from 'commander';
+import { getCvmUuid } from '@/src/utils/config';
+import { listDeployments } from '@/src/utils/deploy-history';
+import { logger } from '@/src/utils/logger';
+
+export const historyCommand = new Command()
+  .name('history')
+  .description('List the deployments recorded in .phala/history, newest first')
+  .option('--env <environment>', 'Only list the deployments of the CVM of this environment')
+  .option('--uuid <uuid>', 'Only list the deployments of this CVM')
+  .option('-j, --json', 'Output in JSON format')
+  .action(async (_options, command: Command) => {
+    // --env, --uuid and --json are also options of deploy, which parses them first
+    const options: { env?: string; uuid?: string; json?: boolean } = command.optsWithGlobals();
+    try {
+      const cvmUuid = options.uuid || getCvmUuid(options.env);
+      if (options.env && !cvmUuid) {
+        throw new Error(`Environment ${options.env} has no CVM yet`);
+      }
+      const entries = listDeployments(cvmUuid).reverse();
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        logger.info('No deployments recorded yet. Deployments made with "phala deploy" are recorded in .phala/history.');
+        return;
+      }
+
+      logger.table(entries.map((entry) => ({
+        id: `#${entry.id}`,
+        deployedAt: entry.deployed_at,
+        environment: entry.environment || '(default)',
+        cvmUuid: entry.cvm_uuid,
+        composeHash: entry.compose_hash.replace(/^0x/, '').slice(0, 12),
+        gitCommit: entry.git_commit ? `${entry.git_commit.slice(0, 8)}${entry.git_dirty ? ' (dirty)' : ''}` : '-',
+        note: entry.rollback_of ? `rollback to #${entry.rollback_of}` : '',
+      })), [
+        { key: 'id', header: 'ID' },
+        { key: 'deployedAt', header: 'Deployed At' },
+        { key: 'environment', header: 'Environment' },
+        { key: 'cvmUuid', header: 'CVM UUID' },
+        { key: 'composeHash', header: 'Compose Hash' },
+        { key: 'gitCommit', header: 'Git Commit' },
+        { key: 'note', header: 'Note' },
+      ]);
+    } catch (error) {
+      logger.error(`Failed to list deployments: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
@@ -1,14 +1,14 @@
-import { DEFAULT_VCPU, DEFAULT_MEMORY, DEFAULT_DISK_SIZE, CLOUD_URL } from "@/src/utils/constants";
+import { DEFAULT_VCPU, DEFAULT_MEMORY, DEFAULT_DISK_SIZE } from "@/src/utils/constants";
 import { detectFileInCurrentDir, promptForFile } from "@/src/utils/prompts";
-import { Command, Option } from "commander";
+import { Command } from "commander";
+import chalk from "chalk";
 import dedent from "dedent";
 import fs from 'fs-extra';
 import inquirer from 'inquirer';
-import path from 'path';
+import { z } from 'zod';
 import {
   createClient,
   encryptEnvVars,
-  parseEnvVars,
   ProvisionCvmComposeFileUpdateRequest,
   safeAddComposeHash,
   safeCommitCvmComposeFileUpdate,
@@ -25,8 +25,36 @@ import {
   type Client
 } from "@phala/cloud";
 import { parseDiskSizeInput, parseMemoryInput } from "@/src/utils/units";
-import { getCvmUuid, saveCvmUuid } from "@/src/utils/config";
+import { getCloudUrl, getCvmUuid, getDeployEnvironment, loadConfig, saveCvmUuid, type DeployEnvironment } from "@/src/utils/config";
 import { getApiKey } from '@/src/utils/credentials';
+import { loadProfileSettings } from '@/src/utils/profiles';
+import { applyManifest, mergeDeployOptions, MANIFEST_FILES, type ManifestDeployOptions } from '@/src/utils/manifest';
+import { waitForCvm } from '@/src/utils/cvms';
+import { historyCommand } from './history';
+import { encodeAddComposeHash, getDstackAppStatus, getNativeCurrencySymbol, normalizeAddress, normalizeBytes32 } from '@/src/utils/chain';
+import { DEPLOY_APP_AUTH_GAS, formatEther, preflightChain, resolveRpcEndpoints } from '@/src/utils/rpc';
+import { clearDeployState, describeDeployStep, getDeployStatePath, loadDeployState, saveDeployState, type DeployState } from '@/src/utils/deploy-state';
+import { listDeployments, readDeploymentCompose, recordDeployment, resolveRollbackTarget, type DeployHistoryEntry, type DeploymentRecord } from '@/src/utils/deploy-history';
+import { DEFAULT_WAIT_TIMEOUT, parseWaitTimeout } from '@/src/utils/wait';
+import { createPrivateKeySigner, KEYSTORE_PASSWORD_ENV, resolveSigner, type TransactionSigner } from '@/src/utils/signer';
+import { colorizeDiff, diffAllowedEnvs, diffComposeFile, diffPreLaunchScript, diffResources } from '@/src/utils/deploy-plan';
+import { loadPreLaunchScript } from '@/src/utils/pre-launch-script';
+import { formatLintIssue, lintCompose, type ComposeLintOptions } from '@/src/utils/compose-lint';
+import { readEnvFile } from '@/src/utils/secrets';
+import { checkComposeEnv, formatComposeEnvReport, hasComposeEnvIssues } from '@/src/utils/compose-env';
+import { buildAppCompose, composeHashesEqual, computeAppComposeHash, getDefaultCvmName, type AppCompose } from '@/src/utils/compose-hash';
+import type { KmsListItem, TEEPod } from '@/src/api/types';
+import { formatZodIssues } from '@/src/utils/types';
+import {
+  buildComposeHashApproval,
+  clearPendingApproval,
+  formatComposeHashApproval,
+  getPendingApprovalPath,
+  loadPendingApproval,
+  parseApprovalFormat,
+  savePendingApproval,
+  type PendingApproval,
+} from '@/src/utils/compose-approval';
 
 interface Options {
   name?: string;
@@ -36,20 +64,80 @@ interface Options {
   diskSize?: string;
   image?: string;
   nodeId?: string;
+  region?: string;
   envFile?: string | boolean;
+  expandEnv?: boolean;
   interactive?: boolean;
   kmsId?: string;
   uuid?: string;
   customAppId?: string;
   preLaunchScript?: string;
   privateKey?: string;
+  keyFile?: string;
+  keystore?: string;
+  signerUrl?: string;
+  signerAddress?: string;
+  allowPrivateKeyArg?: boolean;
+  signer?: TransactionSigner;
   rpcUrl?: string;
   json?: boolean;
   debug?: boolean;
   apiKey?: string;
+  manifest?: string;
+  env?: string;
+  dryRun?: boolean;
+  strict?: boolean;
+  wait?: boolean;
+  waitTimeout?: string;
+  healthPath?: string;
+  rollbackOf?: number;
+  resume?: boolean;
+  prepareApproval?: boolean;
+  approvalFormat?: string;
+  approvalFile?: string;
+  commitAfterApproval?: boolean;
   [key: string]: unknown;
 }
 
+// Provision request of a new CVM, a type so it is saved as is in the deploy state
+type NewCvmAppCompose = {
+  name?: string;
+  compose_file: {
+    docker_compose_file: string;
+    allowed_envs: string[];
+    pre_launch_script?: string;
+  };
+  vcpu: number;
+  memory: number;
+  disk_size: number;
+  node_id: number | null;
+  image: string;
+  kms_id?: string;
+};
+
+// Fields of the CVM info read by compose updates
+const updatedCvmSchema = z.object({
+  name: z.string(),
+  app_id: z.string(),
+  vcpu: z.number().nullish(),
+  memory: z.number().nullish(),
+  disk_size: z.number().nullish(),
+  base_image: z.string().nullish(),
+  encrypted_env_pubkey: z.string().nullish(),
+  kms_info: z.object({ chain_id: z.number().nullish(), chain: z.unknown() }).nullish(),
+});
+
+type UpdatedCvm = z.infer<typeof updatedCvmSchema>;
+
+// Reads the fields of the CVM info used by compose updates
+const parseUpdatedCvm = (data: unknown): UpdatedCvm => {
+  const result = updatedCvmSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Unexpected CVM info: ${formatZodIssues(result.error)}`);
+  }
+  return result.data;
+}
+
 async function getApiClient({ apiKey, interactive }: Readonly<Pick<Options, 'apiKey' | 'interactive'>>): Promise<Client> {
   if (!apiKey && !process.env.PHALA_CLOUD_API_KEY) {
     if (interactive) {
@@ -95,7 +183,8 @@ async function readDockerComposeFile({ dockerComposePath, interactive }): Promis
 
         For on-chain KMS, also provide:
           --kms-id <id>       KMS ID
-          --private-key <key> Private key for deployment
+          --private-key <key> Private key for deployment, or
+          --custom-app-id <id> App ID of your own DstackApp contract
 
         Run with --interactive for guided setup
       `));
@@ -111,84 +200,77 @@ async function readDockerComposeFile({ dockerComposePath, interactive }): Promis
   return fs.readFileSync(dockerComposePath, 'utf8');
 }
 
-function readCvmUuid({ uuid }: { uuid?: string } = {}): string | undefined {
+function readCvmUuid({ uuid, env }: { uuid?: string; env?: string } = {}): string | undefined {
   // Return the provided UUID if it exists, otherwise get it from config
-  return uuid || getCvmUuid();
+  return uuid || getCvmUuid(env);
+}
+
+// Maps the overrides of a deployment environment to deploy options
+function environmentToDeployOptions(environment: DeployEnvironment): ManifestDeployOptions {
+  const asString = (value?: string | number) => value === undefined ? undefined : String(value);
+  return {
+    envFile: environment.envFile,
+    vcpu: asString(environment.vcpu),
+    memory: asString(environment.memory),
+    diskSize: asString(environment.diskSize),
+    nodeId: asString(environment.nodeId),
+    image: environment.image,
+    kmsId: environment.kmsId,
+  };
 }
 
-const validatePrivateKey = async (options: Options, chainId: any): Promise<string | undefined> => {
-  // 1. Get private key from options or environment
-  let privateKey = options.privateKey || process.env.PRIVATE_KEY;
+// Warnings about the signer go to stderr, so they do not mix with the JSON output
+const warnSigner = (message: string) => console.error(`Warning: ${message}`);
+
+const validateSigner = async (options: Options, chainId: number): Promise<Pick<Options, 'signer' | 'customAppId'>> => {
+  // 1. Get the signer from the key source options or the PRIVATE_KEY env
+  let customAppId = options.customAppId;
+  let signer = customAppId ? undefined : await resolveSigner(options, warnSigner);
 
   // 2. Handle KMS related validations
-  // TODO: rpc_url needs handling
-  if (options.kmsId && chainId) {
-    // TODO: remove customAppId for now
-    // If using on-chain KMS, either privateKey or customAppId must be provided
-    // if (!options.privateKey && !options.customAppId) {
-    //   if (options.interactive) {
-    //     const { authMethod } = await inquirer.prompt([{
-    //       type: 'list',
-    //       name: 'authMethod',
-    //       message: 'Choose authentication method for on-chain KMS:',
-    //       choices: [
-    //         { name: 'Deploy with the standard DstackApp contract, you should provide --private-key', value: 'privateKey' },
-    //         { name: 'Deploy with your own DstackApp contract, you should provide --custom-app-id', value: 'customAppId' }
-    //       ]
-    //     }]);
-
-    //     if (authMethod === 'privateKey') {
-    //       const { privateKey } = await inquirer.prompt([{
-    //         type: 'password',
-    //         name: 'privateKey',
-    //         message: 'Enter your private key:',
-    //         validate: (input: string) => input.trim() ? true : 'Private key is required'
-    //       }]);
-    //       options.privateKey = privateKey;
-    //     } else {
-    //       const { customAppId } = await inquirer.prompt([{
-    //         type: 'input',
-    //         name: 'customAppId',
-    //         message: 'Enter your custom App ID:',
-    //         validate: (input: string) => input.trim() ? true : 'Custom App ID is required'
-    //       }]);
-    //       options.customAppId = customAppId;
-    //     }
-    //   } else {
-    //     throw new Error(
-    //       'When using on-chain KMS, either --private-key (or PRIVATE_KEY env) or --custom-app-id must be provided'
-    //     );
-    //   }
-    // }
-    if (!options.privateKey) {
-      if (options.interactive) {
+  // If using on-chain KMS, either a signer or customAppId must be provided
+  if (options.kmsId && chainId && !signer && !customAppId) {
+    if (options.interactive) {
+      const { authMethod } = await inquirer.prompt([{
+        type: 'list',
+        name: 'authMethod',
+        message: 'Choose authentication method for on-chain KMS:',
+        choices: [
+          { name: 'Deploy with the standard DstackApp contract, signed with your private key', value: 'privateKey' },
+          { name: 'Deploy with your own DstackApp contract, you should provide --custom-app-id', value: 'customAppId' }
+        ]
+      }]);
+
+      if (authMethod === 'privateKey') {
         const result = await inquirer.prompt([{
           type: 'password',
           name: 'privateKey',
           message: 'Enter your private key:',
           validate: (input: string) => input.trim() ? true : 'Private key is required'
         }]);
-        privateKey = result.privateKey;
+        signer = createPrivateKeySigner(result.privateKey, 'prompt');
       } else {
-        throw new Error(
-          // 'When using on-chain KMS, either --private-key (or PRIVATE_KEY env) or --custom-app-id must be provided'
-          'When using on-chain KMS, either --private-key (or PRIVATE_KEY env) must be provided'
-        );
+        const result = await inquirer.prompt([{
+          type: 'input',
+          name: 'customAppId',
+          message: 'Enter your custom App ID:',
+          validate: (input: string) => input.trim() ? true : 'Custom App ID is required'
+        }]);
+        customAppId = result.customAppId;
       }
+    } else {
+      throw new Error(
+        'When using on-chain KMS, either a signing key (--keystore, --key-file, --signer-url, PRIVATE_KEY env or --private-key) or --custom-app-id must be provided'
+      );
     }
   }
-  return privateKey;
+  return { signer, customAppId };
 }
 
 const validateName = async (options: Options): Promise<string | undefined> => {
   let name = options.name;
   if (!options.name) {
-    let folderName = path.basename(process.cwd()).toLowerCase().replace(/[^a-z0-9_-]/g, '-');
-    // Ensure folder name is at least 3 characters by appending 'cvm' if needed
-    if (folderName.length < 3) {
-      folderName = folderName + '-cvm';
-    }
-    const validFolderName = folderName.slice(0, 20); // Ensure max length of 20
+    const validFolderName = getDefaultCvmName();
 
     if (!options.interactive) {
       name = validFolderName;
@@ -225,42 +307,42 @@ const validateEnvFile = async (options: Options) => {
   }
 
   if (envFilePath && envFilePath !== true) {
-    try {
-      // Read and parse environment variables
-      const envContent = fs.readFileSync(envFilePath, { encoding: 'utf8' });
-      envs = parseEnvVars(envContent);
-    } catch (error) {
-      throw new Error(`Error reading environment file ${envFilePath}:`, error);
-    }
+    // Warnings go to stderr, so the JSON output stays parseable
+    envs = readEnvFile(envFilePath, {
+      expand: options.expandEnv,
+      onWarning: (message) => console.error(`Warning: ${message}`),
+    });
   }
   return envs;
 }
 
 const validateCpuMemoryDiskSize = async (options: Options) => {
-  let vcpu = DEFAULT_VCPU;
+  // Unset values fall back to the defaults of the configuration
+  const config = loadConfig();
+  let vcpu = config.defaultVcpu;
   if (options.vcpu) {
     try {
       vcpu = Number(options.vcpu);
     } catch (error) {
-      throw new Error(`Invalid vCPU format '${options.vcpu}'. Using default: ${DEFAULT_VCPU}`);
+      throw new Error(`Invalid vCPU format '${options.vcpu}'. Using default: ${config.defaultVcpu}`);
     }
   }
 
-  let memoryMB = DEFAULT_MEMORY;
+  let memoryMB = config.defaultMemory;
   if (options.memory) {
     try {
       memoryMB = parseMemoryInput(options.memory);
     } catch (error) {
-      throw new Error(`Invalid memory format '${options.memory}'. Using default: ${DEFAULT_MEMORY}MB`);
+      throw new Error(`Invalid memory format '${options.memory}'. Using default: ${config.defaultMemory}MB`);
     }
   }
 
-  let diskSizeGB = DEFAULT_DISK_SIZE;
+  let diskSizeGB = config.defaultDiskSize;
   if (options.diskSize) {
     try {
       diskSizeGB = parseDiskSizeInput(options.diskSize);
     } catch (error) {
-      throw new Error(`Invalid disk size format '${options.diskSize}'. Using default: ${DEFAULT_DISK_SIZE}GB`);
+      throw new Error(`Invalid disk size format '${options.diskSize}'. Using default: ${config.defaultDiskSize}GB`);
     }
   }
 
@@ -283,7 +365,8 @@ const validateNodeandKmsandImage = async (options: Options, client: Client) => {
   const nodes = nodes_result.data as any;
   let target = null;
   let kms = null;
-  let privateKey = options.privateKey;
+  let signer: TransactionSigner | undefined;
+  let customAppId = options.customAppId;
   // If specified node, find it
   if (options.nodeId) {
     target = nodes.nodes.find((node) => node.teepod_id === Number(options.nodeId));
@@ -291,13 +374,20 @@ const validateNodeandKmsandImage = async (options: Options, client: Client) => {
       throw new Error(`Node ${options.nodeId} not found, available nodes: ${nodes.nodes.map(t => t.teepod_id).join(', ')}`);
     }
   } else {
+    // Only consider nodes in the preferred region, if any
+    const candidates = options.region
+      ? nodes.nodes.filter((node) => node.region_identifier?.startsWith(options.region))
+      : nodes.nodes;
+    if (options.region && candidates.length === 0) {
+      throw new Error(`No node available in region ${options.region}, available regions: ${[...new Set(nodes.nodes.map(t => t.region_identifier))].join(', ')}`);
+    }
     // If interactive, let user select a node
     if (options.interactive) {
       const { node } = await inquirer.prompt([{
         type: 'list',
         name: 'node',
         message: 'Select a Node to use:',
-        choices: nodes.nodes.map(t => ({
+        choices: candidates.map(t => ({
           name: `${t.name} (Region: ${t.region_identifier})`,
           value: t
         }))
@@ -305,7 +395,7 @@ const validateNodeandKmsandImage = async (options: Options, client: Client) => {
       target = node;
     } else {
       // If no specified node, use the first one.
-      target = nodes.nodes[0];
+      target = candidates[0];
     }
   }
   if (!target) {
@@ -347,19 +437,28 @@ const validateNodeandKmsandImage = async (options: Options, client: Client) => {
     }
     if (!kms) {
       throw new Error(`KMS ${options.kmsId} not found, available kms: ${kms_list.items.map(t => t.slug).join(', ')}`);
-    } else {
-      privateKey = await validatePrivateKey({ ...options, kmsId: kms.id }, kms.chain_id);
+    } else if (!options.dryRun) {
+      // A dry run never signs, so it does not need a signer
+      ({ signer, customAppId } = await validateSigner({ ...options, kmsId: kms.id }, kms.chain_id));
     }
   }
 
-  // Default image is the first one
-  let image = target.images[0];
+  let image = null;
   if (options.image) {
     image = target.images.find((image) => image.name === options.image);
     if (!image) {
       throw new Error(`Image ${options.image} not found in the node ${target.name}, available images: ${target.images.map(t => t.name).join(', ')}.`);
     }
   } else {
+    // Default image is the configured one if the node offers it, otherwise the first one
+    const defaultImage = loadConfig().defaultImage;
+    image = defaultImage && target.images.find((image) => image.name === defaultImage);
+    if (!image) {
+      if (defaultImage) {
+        console.error(`Warning: configured default image ${defaultImage} is not available on node ${target.name}, using ${target.images[0]?.name}`);
+      }
+      image = target.images[0];
+    }
     if (options.interactive) {
       const { imageChoice } = await inquirer.prompt([
         {
@@ -383,22 +482,166 @@ const validateNodeandKmsandImage = async (options: Options, client: Client) => {
     target,
     kms,
     image,
-    privateKey
+    signer,
+    customAppId
+  }
+}
+
+// Prints a failed deployment, as JSON unless --no-json is given
+const printDeployError = (options: Options, error: Error) => {
+  if (options.json !== false) {
+    console.error(JSON.stringify({
+      success: false,
+      error: error.message,
+      stack: options.debug && error instanceof Error ? error.stack : undefined
+    }, null, 2));
+  } else {
+    console.error(dedent`${error.message}`);
+  }
+}
+
+// Records a deployment in .phala/history, a failure there must not fail the deployment itself
+const recordHistory = (record: DeploymentRecord) => {
+  try {
+    recordDeployment(record);
+  } catch (error) {
+    console.error(`Warning: failed to record the deployment in the history: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Waits for the deployed CVM to become ready, progress goes to stderr to keep the JSON output parseable
+const waitForDeployedCvm = async (options: Options, appId: string) => {
+  const resolvedAppId = String(appId).replace(/^app_/, '');
+  const { health } = await waitForCvm(resolvedAppId, {
+    ...options,
+    onProgress: (message) => console.error(message),
+  });
+  console.error(`CVM app_${resolvedAppId} is running${health ? ` and ${health.url} answered ${health.status}` : ''}`);
+}
+
+// Looks up the chain of an on-chain KMS, needed to deploy the DstackApp contract
+const getKmsChain = async (client: Client, kmsSlug: string) => {
+  const kms_result = await safeGetKmsList(client);
+  if (!kms_result.success) {
+    throw new Error(`Failed to get the KMS list: ${kms_result.error.message}`);
+  }
+  // Only the slug and chain of the items of the KMS list are used
+  const { items = [] } = kms_result.data as { items?: Array<{ slug?: string; chain?: unknown }> };
+  const kms = items.find((item) => item.slug === kmsSlug);
+  if (!kms?.chain) {
+    throw new Error(`KMS ${kmsSlug} not found or not on-chain`);
   }
+  return kms.chain;
 }
 
+// Prints what a new deployment would provision, without provisioning it
+const printNewCvmPlan = (options: Options, app_compose: NewCvmAppCompose, target: TEEPod, kms: KmsListItem | undefined) => {
+  if (options.json !== false) {
+    console.log(JSON.stringify({
+      dry_run: true,
+      action: 'create',
+      name: app_compose.name,
+      node: { id: target.teepod_id, name: target.name, region: target.region_identifier },
+      image: app_compose.image,
+      kms: kms ? { slug: kms.slug, chain_id: kms.chain_id ?? null } : null,
+      resources: { vcpu: app_compose.vcpu, memory: app_compose.memory, disk_size: app_compose.disk_size },
+      allowed_envs: app_compose.compose_file.allowed_envs,
+      pre_launch_script: app_compose.compose_file.pre_launch_script ?? null,
+    }, null, 2));
+    return;
+  }
+  console.log(dedent`
+    Dry run: a new CVM would be created
+
+    Name:      ${app_compose.name}
+    Node:      ${target.name} (ID: ${target.teepod_id}, Region: ${target.region_identifier})
+    Image:     ${app_compose.image}
+    KMS:       ${kms ? `${kms.slug}${kms.chain_id ? ` (Chain ID: ${kms.chain_id})` : ''}` : 'centralized'}
+    vCPUs:     ${app_compose.vcpu}
+    Memory:    ${app_compose.memory} MB
+    Disk Size: ${app_compose.disk_size} GB
+    Env Keys:  ${app_compose.compose_file.allowed_envs.join(', ') || '(none)'}
+    Pre-launch Script: ${app_compose.compose_file.pre_launch_script ? `${options.preLaunchScript} (${Buffer.byteLength(app_compose.compose_file.pre_launch_script)} bytes)` : '(none)'}
+  `);
+  console.log('\nNothing was deployed.');
+}
+
+// Prints what a compose update would change, without committing it
+const printUpdatePlan = (options: Options, cvm: UpdatedCvm, current: Partial<AppCompose>, next: Partial<AppCompose>, compose_hash: string) => {
+  const compose_diff = diffComposeFile(current.docker_compose_file ?? '', next.docker_compose_file ?? '');
+  const pre_launch_script_diff = diffPreLaunchScript(current.pre_launch_script ?? '', next.pre_launch_script ?? '');
+  const allowed_envs = diffAllowedEnvs(current.allowed_envs, next.allowed_envs);
+  // Compose updates keep the resources of the CVM, requested ones are reported so they are not silently dropped
+  const resources = diffResources(
+    { vcpu: cvm.vcpu, memory: cvm.memory, disk_size: cvm.disk_size, image: cvm.base_image },
+    {
+      vcpu: options.vcpu ? Number(options.vcpu) : undefined,
+      memory: options.memory ? parseMemoryInput(options.memory) : undefined,
+      disk_size: options.diskSize ? parseDiskSizeInput(options.diskSize) : undefined,
+      image: options.image,
+    }
+  );
+
+  if (options.json !== false) {
+    console.log(JSON.stringify({
+      dry_run: true,
+      action: 'update',
+      vm_uuid: options.uuid,
+      name: cvm.name,
+      compose_hash,
+      compose_diff,
+      pre_launch_script_diff,
+      allowed_envs,
+      resources,
+    }, null, 2));
+    return;
+  }
+  console.log(`Dry run: CVM ${cvm.name} (${options.uuid}) would be updated\n`);
+  console.log(compose_diff ? colorizeDiff(compose_diff) : 'Docker compose file: no changes');
+  console.log(pre_launch_script_diff ? `\n${colorizeDiff(pre_launch_script_diff)}` : '\nPre-launch script: no changes');
+  if (allowed_envs.added.length || allowed_envs.removed.length) {
+    console.log('\nAllowed environment variables:');
+    for (const key of allowed_envs.added) console.log(chalk.green(`  + ${key}`));
+    for (const key of allowed_envs.removed) console.log(chalk.red(`  - ${key}`));
+  } else {
+    console.log('\nAllowed environment variables: no changes');
+  }
+  if (resources.length) {
+    console.log('\nResource changes (not applied by a compose update, use phala cvms resize or phala cvms upgrade):');
+    for (const change of resources) {
+      console.log(`  ${change.resource}: ${change.current ?? '-'} -> ${change.requested}`);
+    }
+  }
+  console.log(`\nNew compose hash: ${compose_hash}`);
+  console.log('\nNothing was committed.');
+}
 
 const deployNewCvm = async (validatedOptions: Options, docker_compose_yml: string, envs: EnvVar[], client: Client) => {
+  // A deployed contract must be reused, deploying it again would pay gas twice
+  const pending = loadDeployState(validatedOptions.env);
+  if (pending?.contract && !pending.custom_app_id && !validatedOptions.dryRun) {
+    throw new Error(dedent`
+      An unfinished deployment of CVM ${pending.app_compose.name} exists: ${describeDeployStep(pending)}.
+      Run phala deploy --resume${validatedOptions.env ? ` --env ${validatedOptions.env}` : ''} to finish it, or remove ${getDeployStatePath(validatedOptions.env)} to start over.
+    `);
+  }
+
   // await validateKMSId(validatedOptions);
+  const pre_launch_script = validatedOptions.preLaunchScript ? loadPreLaunchScript(validatedOptions.preLaunchScript) : undefined;
   const name = await validateName(validatedOptions);
   const { vcpu, memoryMB, diskSizeGB } = await validateCpuMemoryDiskSize(validatedOptions);
-  const { target, kms, image, privateKey } = await validateNodeandKmsandImage(validatedOptions, client);
+  const { target, kms, image, signer, customAppId } = await validateNodeandKmsandImage(validatedOptions, client);
 
-  const app_compose = {
+  warnComposeIssues(docker_compose_yml, { dstackImage: image.name });
+  checkComposeEnvKeys(validatedOptions, docker_compose_yml, (envs ?? []).map((env) => env.key));
+
+  const app_compose: NewCvmAppCompose = {
     name: name,
     compose_file: {
       docker_compose_file: docker_compose_yml,
-      allowed_envs: envs.map((env) => env.key),
+      allowed_envs: (envs ?? []).map((env) => env.key),
+      // Part of the app compose, so the compose hash and the attestation cover it
+      ...(pre_launch_script ? { pre_launch_script } : {}),
     },
     vcpu: vcpu,
     memory: memoryMB,
@@ -408,6 +651,14 @@ const deployNewCvm = async (validatedOptions: Options, docker_compose_yml: strin
     kms_id: kms?.slug,
   };
 
+  if (validatedOptions.dryRun) {
+    printNewCvmPlan(validatedOptions, app_compose, target, kms);
+    return;
+  }
+  if (pending) {
+    console.error(`Warning: discarding the unfinished deployment of CVM ${pending.app_compose.name} (${describeDeployStep(pending)})`);
+  }
+
   console.log(`Deploying CVM ${name}...`);
 
   // Deploy the app with Centralized KMS
@@ -416,11 +667,60 @@ const deployNewCvm = async (validatedOptions: Options, docker_compose_yml: strin
     throw new Error('Failed to provision CVM:', provision_result.error);
   }
   const app = provision_result.data as any;
+  // The server fills in the flags of the app compose, so a difference is only reported: it breaks hashes registered in advance
+  const local_compose_hash = computeAppComposeHash(buildAppCompose({
+    name: app_compose.name ?? getDefaultCvmName(),
+    dockerComposeFile: docker_compose_yml,
+    allowedEnvs: app_compose.compose_file.allowed_envs,
+    preLaunchScript: pre_launch_script,
+  }));
+  if (!composeHashesEqual(local_compose_hash, app.compose_hash)) {
+    console.error(`Warning: Phala Cloud computed compose hash ${app.compose_hash}, phala compose hash computes ${local_compose_hash} for this deployment`);
+  }
+  const state = saveDeployState({
+    environment: validatedOptions.env,
+    started_at: new Date().toISOString(),
+    app_compose,
+    node: { id: target.teepod_id, name: target.name, device_id: target.device_id },
+    kms: kms ? { slug: kms.slug, chain_id: kms.chain_id, kms_contract_address: kms.kms_contract_address } : null,
+    provision: app,
+    custom_app_id: customAppId ? normalizeAddress(customAppId) : undefined,
+  });
+
+  await commitNewCvm({ ...validatedOptions, signer }, state, envs, client, kms?.chain);
+}
+
+// Resumes a deployment from the last step saved in the deploy state file
+const resumeNewCvm = async (validatedOptions: Options, envs: EnvVar[] | undefined, client: Client) => {
+  const state = loadDeployState(validatedOptions.env);
+  if (!state) {
+    throw new Error(`No unfinished deployment to resume${validatedOptions.env ? ` for environment ${validatedOptions.env}` : ''}`);
+  }
+  // The compose hash covers the allowed env keys, so they cannot change anymore
+  const allowed_envs = state.app_compose.compose_file.allowed_envs;
+  const env_keys = (envs ?? []).map((env) => env.key);
+  if (allowed_envs.length !== env_keys.length || allowed_envs.some((key) => !env_keys.includes(key))) {
+    throw new Error(`The environment file must provide the keys of the provisioned deployment: ${allowed_envs.join(', ') || '(none)'}`);
+  }
+
+  console.log(`Resuming deployment of CVM ${state.app_compose.name}: ${describeDeployStep(state)}...`);
+  let signer: TransactionSigner | undefined;
+  if (state.kms?.chain_id && !state.contract && !state.custom_app_id) {
+    ({ signer } = await validateSigner({ ...validatedOptions, kmsId: state.kms.slug }, state.kms.chain_id));
+  }
+  await commitNewCvm({ ...validatedOptions, signer }, state, envs, client);
+}
+
+// Deploys the DstackApp contract if needed and commits the provisioned CVM, saving progress after each step
+const commitNewCvm = async (validatedOptions: Options, provisioned: DeployState, envs: EnvVar[] | undefined, client: Client, chain?: unknown) => {
+  let state = provisioned;
+  const app = state.provision;
+  const kms = state.kms;
   let commit_result;
 
   // For centralized KMS, we can get the AppID & AppEnvEncryptPubkey from provision response.
   if ((app.app_env_encrypt_pubkey && app.app_id) || !kms?.chain_id) {
-    const encrypted_env_vars = await encryptEnvVars(envs, app.app_env_encrypt_pubkey);
+    const encrypted_env_vars = await encryptEnvVars(envs ?? [], app.app_env_encrypt_pubkey);
     commit_result = await safeCommitCvmProvision(client, {
       app_id: app.app_id,
       encrypted_env: encrypted_env_vars,
@@ -430,43 +730,84 @@ const deployNewCvm = async (validatedOptions: Options, docker_compose_yml: strin
   } else {
     // For decentralized KMS, we need to deploy the app with on-chain KMS.
     const kms_slug = kms.slug;
-    const kms_contract_address = kms.kms_contract_address;
-    const chain = kms.chain;
-    const compose_hash = app.compose_hash;
-    const device_id = target.device_id;
-    const rpc_url = validatedOptions.rpcUrl;
-
-    const deploy_result = await safeDeployAppAuth({
-      chain: chain,
-      rpcUrl: rpc_url,
-      kmsContractAddress: kms_contract_address,
-      privateKey: privateKey as `0x${string}`,
-      deviceId: device_id,
-      composeHash: compose_hash,
-    });
-    if (!deploy_result.success) {
-      // @ts-ignore
-      const message = deploy_result?.error?.message;
-      throw new Error(`Deployment contract failed: ${message}`)
+    const chain_id = Number(kms.chain_id);
+    if (!state.contract && state.custom_app_id) {
+      // Use the existing DstackApp contract, its owner must have allowed the compose hash
+      const { rpcUrl: rpc_url } = await preflightChain({
+        chainId: chain_id,
+        endpoints: resolveRpcEndpoints(chain_id, { rpcUrl: validatedOptions.rpcUrl, chain: chain ?? await getKmsChain(client, kms_slug) }),
+      });
+      const dstack_app = await getDstackAppStatus(rpc_url, state.custom_app_id, app.compose_hash);
+      if (!dstack_app.composeHashAllowed) {
+        throw new Error(dedent`
+          Compose hash 0x${app.compose_hash.replace(/^0x/, '')} is not allowed by the DstackApp contract ${dstack_app.address}.
+          Its owner ${dstack_app.owner} has to call addComposeHash with it, then run phala deploy --resume${validatedOptions.env ? ` --env ${validatedOptions.env}` : ''}.
+        `);
+      }
+      state = saveDeployState({
+        ...state,
+        contract: {
+          app_id: dstack_app.address,
+          app_auth_address: dstack_app.address,
+          deployer: dstack_app.owner,
+        },
+      });
+    } else if (!state.contract) {
+      const signer = validatedOptions.signer;
+      if (!signer) {
+        throw new Error('A signing key is required to deploy the DstackApp contract');
+      }
+      const kms_chain = chain ?? await getKmsChain(client, kms_slug);
+      // Nothing is sent unless the RPC is on the right chain and the deployer can pay for the gas
+      const symbol = getNativeCurrencySymbol(kms_chain);
+      const preflight = await preflightChain({
+        chainId: chain_id,
+        endpoints: resolveRpcEndpoints(chain_id, { rpcUrl: validatedOptions.rpcUrl, chain: kms_chain }),
+        account: signer.address,
+        gas: DEPLOY_APP_AUTH_GAS,
+        symbol,
+      });
+      console.log(`Deploying DstackApp contract from ${signer.address} (${signer.source}, balance ${formatEther(preflight.balance ?? 0n, symbol)}) through ${preflight.rpcUrl}...`);
+      const deploy_result = await safeDeployAppAuth({
+        chain: kms_chain,
+        rpcUrl: preflight.rpcUrl,
+        kmsContractAddress: kms.kms_contract_address,
+        ...signer.getSigningArgs(kms_chain),
+        deviceId: state.node.device_id,
+        composeHash: app.compose_hash,
+      });
+      if (!deploy_result.success) {
+        // @ts-ignore
+        const message = deploy_result?.error?.message;
+        throw new Error(`Deployment contract failed: ${message}`)
+      }
+      const deployed_contract = deploy_result.data as any;
+      state = saveDeployState({
+        ...state,
+        contract: {
+          app_id: deployed_contract.appId,
+          app_auth_address: deployed_contract.appAuthAddress,
+          deployer: deployed_contract.deployer,
+        },
+      });
     }
-    const deployed_contract = deploy_result.data as any;
-    const app_id = deployed_contract.appId;
+    const contract = state.contract;
     const resp = await safeGetAppEnvEncryptPubKey(client, {
-      app_id: app_id,
+      app_id: contract.app_id,
       kms: kms_slug,
     });
     if (!resp.success) {
       throw new Error(`Failed to get app env encrypt pubkey: ${resp.error.message}`)
     }
     const pubkey_signature = resp.data as any;
-    const encrypted_env_vars = await encryptEnvVars(envs, pubkey_signature.public_key);
+    const encrypted_env_vars = await encryptEnvVars(envs ?? [], pubkey_signature.public_key);
     commit_result = await safeCommitCvmProvision(client, {
-      app_id: app_id,
+      app_id: contract.app_id,
       encrypted_env: encrypted_env_vars,
       compose_hash: app.compose_hash,
       kms_id: kms_slug,
-      contract_address: deployed_contract.appAuthAddress,
-      deployer_address: deployed_contract.deployer,
+      contract_address: contract.app_auth_address,
+      deployer_address: contract.deployer,
     });
   }
 
@@ -478,14 +819,23 @@ const deployNewCvm = async (validatedOptions: Options, docker_compose_yml: strin
     }
   }
   const cvm = commit_result.data as any;
-  saveCvmUuid(cvm.vm_uuid);
+  clearDeployState(validatedOptions.env);
+  saveCvmUuid(cvm.vm_uuid, validatedOptions.env);
+  recordHistory({
+    cvmUuid: cvm.vm_uuid,
+    environment: validatedOptions.env,
+    composeHash: app.compose_hash,
+    composeFile: state.app_compose.compose_file.docker_compose_file,
+    allowedEnvs: state.app_compose.compose_file.allowed_envs,
+    preLaunchScript: state.app_compose.compose_file.pre_launch_script,
+  });
   if (validatedOptions?.json !== false) {
     console.log(JSON.stringify({
       success: true,
       vm_uuid: cvm.vm_uuid,
       name: cvm.name,
       app_id: cvm.app_id,
-      dashboard_url: `${CLOUD_URL}/dashboard/cvms/${cvm.vm_uuid}`,
+      dashboard_url: `${getCloudUrl()}/dashboard/cvms/${cvm.vm_uuid}`,
     }, null, 2));
   } else {
     const successMessage = dedent`
@@ -494,14 +844,70 @@ const deployNewCvm = async (validatedOptions: Options, docker_compose_yml: strin
       CVM ID:    ${cvm.vm_uuid}
       Name:      ${cvm.name}
       App ID:    ${cvm.app_id}
-      Dashboard URL:  ${CLOUD_URL}/dashboard/cvms/${cvm.vm_uuid}
+      Dashboard URL:  ${getCloudUrl()}/dashboard/cvms/${cvm.vm_uuid}
     `;
     console.log(successMessage);
   }
+  if (validatedOptions.wait) {
+    await waitForDeployedCvm(validatedOptions, cvm.app_id);
+  }
+}
+
+
+// Warns about pitfalls of running the compose file in a CVM, without stopping the deployment
+const warnComposeIssues = (docker_compose_yml: string, options: ComposeLintOptions) => {
+  for (const issue of lintCompose(docker_compose_yml, options)) {
+    console.error(`Warning: ${formatLintIssue(issue)}`);
+  }
 }
 
+// Compares the variables of the compose file with the env keys of the CVM, which only fails the deployment with --strict
+const checkComposeEnvKeys = (validatedOptions: Options, docker_compose_yml: string, env_keys: string[], current_allowed_envs?: string[]) => {
+  const report = checkComposeEnv(docker_compose_yml, env_keys, current_allowed_envs);
+  const lines = formatComposeEnvReport(report);
+  if (validatedOptions.strict && hasComposeEnvIssues(report)) {
+    throw new Error(`The compose file does not match the env keys (--strict):\n  ${lines.join('\n  ')}`);
+  }
+  for (const line of lines) {
+    console.error(`Warning: ${line}`);
+  }
+}
 
-const updateCvm = async (validatedOptions: Options, docker_compose_yml: string, envs: EnvVar[] | undefined, client: Client) => {
+// Checks that the compose hash computed by the server is the hash of the app compose sent, before anything is approved or committed
+const checkProvisionedComposeHash = (app_compose: object, compose_hash: string) => {
+  const local_compose_hash = computeAppComposeHash(app_compose);
+  if (!composeHashesEqual(local_compose_hash, compose_hash)) {
+    throw new Error(`Phala Cloud computed compose hash ${compose_hash} for the update, but its app compose hashes to ${local_compose_hash}. Nothing was changed.`);
+  }
+}
+
+// Provisions a compose update, which computes its compose hash without changing the CVM
+const provisionCvmUpdate = async (uuid: string, app_compose: unknown, client: Client) => {
+  const provision_result = await safeProvisionCvmComposeFileUpdate(client, {
+    uuid,
+    app_compose: app_compose as ProvisionCvmComposeFileUpdateRequest["app_compose"],
+  });
+  if (!provision_result.success) {
+    if ("isRequestError" in provision_result.error) {
+      console.error('HTTP Error:', provision_result.error.status, provision_result.error.statusText);
+      console.error('Error message:', provision_result.error.message);
+      console.error('Response body:', JSON.stringify(provision_result.error.data, null, 2));
+    }
+    throw new Error(`Failed to provision cvm compose file: ${provision_result.error.message}`);
+  }
+  return provision_result.data as any;
+}
+
+// Checks that a rollback hashes to the compose hash of the deployment it restores, so it deploys exactly what was deployed then
+const checkRollbackComposeHash = (target: DeployHistoryEntry, compose_hash: string) => {
+  if (!composeHashesEqual(compose_hash, target.compose_hash)) {
+    throw new Error(`The rollback has compose hash ${compose_hash} instead of ${target.compose_hash} of deployment #${target.id}, the app compose of the CVM changed since (e.g. its name or features). Nothing was changed.`);
+  }
+}
+
+// Updates the compose file of a CVM, or restores a deployment of its history when target is given
+const updateCvm = async (validatedOptions: Options, docker_compose_yml: string, envs: EnvVar[] | undefined, client: Client, target?: DeployHistoryEntry) => {
+  const pre_launch_script = validatedOptions.preLaunchScript ? loadPreLaunchScript(validatedOptions.preLaunchScript) : undefined;
   const [cvm_result, app_compose_result] = await Promise.all([
     safeGetCvmInfo(client, {
       uuid: validatedOptions.uuid,
@@ -516,43 +922,82 @@ const updateCvm = async (validatedOptions: Options, docker_compose_yml: string,
   if (!app_compose_result.success) {
     throw new Error(`Failed to get cvm compose file: ${app_compose_result.error.message}`);
   }
-  const cvm = cvm_result.data as any;
+  const cvm = parseUpdatedCvm(cvm_result.data);
   const app_compose = app_compose_result.data as any;
+  const current_compose = { ...app_compose };
 
   // patched the compose_file
   app_compose.docker_compose_file = docker_compose_yml;
-  if (envs) {
-    app_compose.allowed_envs = envs.map((env) => env.key);
+  if (target) {
+    // A rollback restores the allowed env keys and the pre-launch script of the deployment too. Without a
+    // script, the undefined key is left out of the JSON, so it hashes as a deployment that had none
+    app_compose.allowed_envs = target.allowed_envs;
+    app_compose.pre_launch_script = target.pre_launch_script;
+  } else {
+    if (envs) {
+      app_compose.allowed_envs = envs.map((env) => env.key);
+    }
+    // Without --pre-launch-script, the current script is kept
+    if (pre_launch_script) {
+      app_compose.pre_launch_script = pre_launch_script;
+    }
   }
 
-  console.log(`Preparing update for CVM ${validatedOptions.uuid}...`);
-  const provision_result = await safeProvisionCvmComposeFileUpdate(client, {
-    uuid: validatedOptions.uuid,
-    app_compose: app_compose as ProvisionCvmComposeFileUpdateRequest["app_compose"],
-  });
-  if (!provision_result.success) {
-    if ("isRequestError" in provision_result.error) {
-      console.error('HTTP Error:', provision_result.error.status, provision_result.error.statusText);
-      console.error('Error message:', provision_result.error.message);
-      console.error('Response body:', JSON.stringify(provision_result.error.data, null, 2));
-    }
-    throw new Error(`Failed to provision cvm compose file: ${provision_result.error.message}`);
+  warnComposeIssues(docker_compose_yml, { dstackImage: cvm.base_image });
+  // Without an env file, the encrypted env of the CVM is kept, keys a rollback drops from the allowed ones are reported
+  const current_allowed_envs: string[] = current_compose.allowed_envs ?? [];
+  checkComposeEnvKeys(validatedOptions, docker_compose_yml, app_compose.allowed_envs ?? [], current_allowed_envs);
+
+  const compose_hash = computeAppComposeHash(app_compose);
+  if (target) {
+    checkRollbackComposeHash(target, compose_hash);
+  }
+  // The compose hash is computed locally, provisioning would already send the update to Phala Cloud
+  if (validatedOptions.dryRun) {
+    printUpdatePlan(validatedOptions, cvm, current_compose, app_compose, compose_hash);
+    return;
+  }
+
+  // Progress goes to stderr to keep the JSON output parseable
+  console.error(`Preparing update for CVM ${validatedOptions.uuid}...`);
+  const provision = await provisionCvmUpdate(validatedOptions.uuid, app_compose, client);
+  checkProvisionedComposeHash(app_compose, provision.compose_hash);
+  if (target) {
+    checkRollbackComposeHash(target, provision.compose_hash);
+  }
+
+  if (validatedOptions.prepareApproval && !cvm.kms_info?.chain_id) {
+    throw new Error(`CVM ${validatedOptions.uuid} does not use an on-chain KMS, its updates need no approval`);
   }
-  const provision = provision_result.data as any;
 
   let encrypted_env: string | undefined;
   if (cvm.kms_info?.chain_id) {
     // Update with decentralized KMS.
-    if (!validatedOptions.privateKey) {
-      throw new Error("Private key is required for contract DstackApp");
+    if (validatedOptions.prepareApproval) {
+      prepareComposeHashApproval(validatedOptions, cvm, app_compose, provision.compose_hash);
+      return;
+    }
+    const signer = await resolveSigner(validatedOptions, warnSigner);
+    if (!signer) {
+      throw new Error('A signing key is required to add the compose hash to the DstackApp contract: --keystore, --key-file, --signer-url, PRIVATE_KEY env or --private-key');
     }
 
+    const chain_id = Number(cvm.kms_info.chain_id);
+    const symbol = getNativeCurrencySymbol(cvm.kms_info.chain);
+    const preflight = await preflightChain({
+      chainId: chain_id,
+      endpoints: resolveRpcEndpoints(chain_id, { rpcUrl: validatedOptions.rpcUrl, chain: cvm.kms_info.chain }),
+      account: signer.address,
+      transaction: { to: normalizeAddress(cvm.app_id), data: encodeAddComposeHash(provision.compose_hash) },
+      symbol,
+    });
+    console.log(`Adding compose hash to DstackApp contract ${cvm.app_id} from ${signer.address} (${signer.source}, balance ${formatEther(preflight.balance ?? 0n, symbol)}) through ${preflight.rpcUrl}...`);
     const receipt_result = await safeAddComposeHash({
       chain: cvm.kms_info?.chain,
-      rpcUrl: validatedOptions.rpcUrl,
+      rpcUrl: preflight.rpcUrl,
       appId: cvm.app_id as `0x${string}`,
       composeHash: provision.compose_hash,
-      privateKey: validatedOptions.privateKey as `0x${string}`,
+      ...signer.getSigningArgs(cvm.kms_info?.chain),
     });
     if (!receipt_result.success) {
       // @ts-ignore
@@ -561,16 +1006,36 @@ const updateCvm = async (validatedOptions: Options, docker_compose_yml: string,
     }
   } else {
     if (envs && envs.length > 0) {
-      const encrypted_env_vars = await encryptEnvVars(envs, cvm.encrypted_env_pubkey!);
+      if (!cvm.encrypted_env_pubkey) {
+        throw new Error(`CVM ${validatedOptions.uuid} has no public key to encrypt the environment variables with`);
+      }
+      const encrypted_env_vars = await encryptEnvVars(envs, cvm.encrypted_env_pubkey);
       encrypted_env = encrypted_env_vars;
     }
   }
 
-  const data = {
-    id: validatedOptions.uuid,
+  await commitCvmUpdate(validatedOptions, cvm, {
     compose_hash: provision.compose_hash,
-    encrypted_env: encrypted_env,
+    encrypted_env,
     env_keys: envs?.length ? envs.map((env) => env.key) : undefined,
+  }, {
+    composeFile: docker_compose_yml,
+    allowedEnvs: app_compose.allowed_envs ?? [],
+    preLaunchScript: app_compose.pre_launch_script,
+  }, client);
+}
+
+// Commits a provisioned compose update, records it in the history and reports it
+const commitCvmUpdate = async (
+  validatedOptions: Options,
+  cvm: UpdatedCvm,
+  update: { compose_hash: string; encrypted_env?: string; env_keys?: string[] },
+  deployed: Pick<DeploymentRecord, 'composeFile' | 'allowedEnvs' | 'preLaunchScript'>,
+  client: Client,
+) => {
+  const data = {
+    id: validatedOptions.uuid,
+    ...update,
   }
   // @ts-ignore
   const commitResult = await safeCommitCvmComposeFileUpdate(client, data);
@@ -583,17 +1048,101 @@ const updateCvm = async (validatedOptions: Options, docker_compose_yml: string,
     }
     throw new Error(`Failed to commit CVM compose file update: ${commitResult.error.message}`);
   }
+  recordHistory({
+    cvmUuid: validatedOptions.uuid,
+    environment: validatedOptions.env,
+    composeHash: update.compose_hash,
+    ...deployed,
+    rollbackOf: validatedOptions.rollbackOf,
+  });
   if (validatedOptions?.json !== false) {
     console.log(JSON.stringify({
       success: true,
       vm_uuid: validatedOptions.uuid,
       name: cvm.name,
       app_id: cvm.app_id,
-      dashboard_url: `${CLOUD_URL}/dashboard/cvms/${validatedOptions.uuid}`,
+      dashboard_url: `${getCloudUrl()}/dashboard/cvms/${validatedOptions.uuid}`,
     }, null, 2));
   } else {
     console.log("CVM compose file updated successfully!");
   }
+  if (validatedOptions.wait) {
+    await waitForDeployedCvm(validatedOptions, cvm.app_id);
+  }
+}
+
+// Saves the update for approval and outputs the unsigned addComposeHash transaction for the owner of the DstackApp contract
+const prepareComposeHashApproval = (validatedOptions: Options, cvm: UpdatedCvm, app_compose: PendingApproval['app_compose'], compose_hash: string) => {
+  const pending = savePendingApproval({
+    environment: validatedOptions.env,
+    cvm_uuid: validatedOptions.uuid,
+    app_id: cvm.app_id,
+    chain_id: Number(cvm.kms_info?.chain_id),
+    compose_hash,
+    app_compose,
+    rollback_of: validatedOptions.rollbackOf,
+  });
+  const approval = buildComposeHashApproval(pending);
+  const output = formatComposeHashApproval(approval, parseApprovalFormat(validatedOptions.approvalFormat));
+  if (validatedOptions.approvalFile) {
+    fs.outputFileSync(validatedOptions.approvalFile, output);
+    console.error(`Approval transaction written to ${validatedOptions.approvalFile}`);
+  } else {
+    process.stdout.write(output);
+  }
+  console.error(dedent`
+    Nothing was committed, the update is saved in ${getPendingApprovalPath(validatedOptions.env)}.
+    The owner of DstackApp ${approval.to} on chain ${approval.chain_id} has to call addComposeHash(${approval.compose_hash}).
+    Once the transaction is executed, run phala deploy --commit-after-approval${validatedOptions.env ? ` --env ${validatedOptions.env}` : ''} to commit the update.
+  `);
+}
+
+// Commits an update prepared with --prepare-approval, once its compose hash is allowed on-chain
+const commitApprovedUpdate = async (validatedOptions: Options, envs: EnvVar[] | undefined, client: Client) => {
+  const pending = loadPendingApproval(validatedOptions.env);
+  if (!pending) {
+    throw new Error(`No update waiting for approval${validatedOptions.env ? ` for environment ${validatedOptions.env}` : ''}, prepare one with phala deploy --prepare-approval`);
+  }
+  // The compose hash covers the allowed env keys, so they cannot change anymore
+  const allowed_envs = pending.app_compose.allowed_envs ?? [];
+  const env_keys = (envs ?? []).map((env) => env.key);
+  if (envs && (allowed_envs.length !== env_keys.length || allowed_envs.some((key) => !env_keys.includes(key)))) {
+    throw new Error(`The environment file must provide the keys of the prepared update: ${allowed_envs.join(', ') || '(none)'}`);
+  }
+
+  const cvm_result = await safeGetCvmInfo(client, { uuid: pending.cvm_uuid });
+  if (!cvm_result.success) {
+    throw new Error(`Failed to get cvm info: ${cvm_result.error.message}`);
+  }
+  const cvm = parseUpdatedCvm(cvm_result.data);
+  const { rpcUrl: rpc_url } = await preflightChain({
+    chainId: pending.chain_id,
+    endpoints: resolveRpcEndpoints(pending.chain_id, { rpcUrl: validatedOptions.rpcUrl, chain: cvm.kms_info?.chain }),
+  });
+  const dstack_app = await getDstackAppStatus(rpc_url, pending.app_id, pending.compose_hash);
+  if (!dstack_app.composeHashAllowed) {
+    throw new Error(dedent`
+      Compose hash ${normalizeBytes32(pending.compose_hash)} is not allowed by the DstackApp contract ${dstack_app.address} yet.
+      Its owner ${dstack_app.owner} has to execute the addComposeHash transaction prepared on ${pending.prepared_at} first.
+    `);
+  }
+
+  // Provision again, the provisioned update may have expired while waiting for the approval
+  console.log(`Compose hash approved, committing update of CVM ${pending.cvm_uuid}...`);
+  const provision = await provisionCvmUpdate(pending.cvm_uuid, pending.app_compose, client);
+  checkProvisionedComposeHash(pending.app_compose, provision.compose_hash);
+  if (normalizeBytes32(provision.compose_hash) !== normalizeBytes32(pending.compose_hash)) {
+    throw new Error(`The update now has compose hash ${provision.compose_hash} instead of the approved ${pending.compose_hash}, the CVM changed since it was prepared. Prepare the update again.`);
+  }
+  await commitCvmUpdate({ ...validatedOptions, uuid: pending.cvm_uuid, rollbackOf: pending.rollback_of }, cvm, {
+    compose_hash: provision.compose_hash,
+    env_keys: envs?.length ? env_keys : undefined,
+  }, {
+    composeFile: pending.app_compose.docker_compose_file,
+    allowedEnvs: allowed_envs,
+    preLaunchScript: pending.app_compose.pre_launch_script,
+  }, client);
+  clearPendingApproval(validatedOptions.env);
 }
 
 export const deployCommand = new Command()
@@ -605,21 +1154,84 @@ export const deployCommand = new Command()
   .option('--api-key <apiKey>', 'API key for authentication')
   .option('-n, --name <name>', 'Name of the CVM')
   .option('-c, --compose <compose>', 'Path to Docker Compose file (default: docker-compose.yml in current directory)')
-  .option('--vcpu <vcpu>', `Number of vCPUs, default is ${DEFAULT_VCPU}`)
-  .option('--memory <memory>', `Memory with optional unit (e.g., 2G, 1024MB), default is ${DEFAULT_MEMORY}MB`)
-  .option('--disk-size <diskSize>', `Disk size with optional unit (e.g., 50G, 100GB), default is ${DEFAULT_DISK_SIZE}GB`)
+  .option('--vcpu <vcpu>', `Number of vCPUs, default is the defaultVcpu config value (${DEFAULT_VCPU})`)
+  .option('--memory <memory>', `Memory with optional unit (e.g., 2G, 1024MB), default is the defaultMemory config value (${DEFAULT_MEMORY}MB)`)
+  .option('--disk-size <diskSize>', `Disk size with optional unit (e.g., 50G, 100GB), default is the defaultDiskSize config value (${DEFAULT_DISK_SIZE}GB)`)
   .option('--image <image>', 'Version of dstack image to use')
   .option('--node-id <nodeId>', 'Node ID to use')
+  .option('--region <region>', 'Preferred region of the node, used when no node ID is given')
   .option('-e, --env-file <envFile>', 'Prompt for environment variables and save to file (optional)')
+  .option('--expand-env', 'Expand ${VAR} and $VAR in the env file values, from earlier keys then the shell environment')
   .option('-i, --interactive', 'Enable interactive mode for required parameters', false)
   .option('--kms-id <kmsId>', 'KMS ID to use.')
   .option('--uuid <uuid>', 'UUID of the CVM to upgrade')
-  .addOption(new Option('--custom-app-id <customAppId>', 'Custom App ID to use.').hideHelp())
-  .option('--pre-launch-script <preLaunchScript>', 'Path to pre-launch script')
-  .option('--private-key <privateKey>', 'Private key for signing transactions.')
-  .option('--rpc-url <rpcUrl>', 'RPC URL for the blockchain.')
-  .action(async (composeFile: string | undefined, options: Options) => {
+  .option('--custom-app-id <customAppId>', 'App ID of an existing DstackApp contract to use instead of deploying a new one, for on-chain KMS')
+  .option('--pre-launch-script <preLaunchScript>', 'Path to a sh or bash script run in the CVM before the containers start, included in the compose hash')
+  .option('--private-key <privateKey>', 'Private key for signing transactions, refused without a terminal unless --allow-private-key-arg is given. Prefer --keystore or --key-file')
+  .option('--allow-private-key-arg', 'Allow --private-key in non-interactive sessions, e.g. CI')
+  .option('--keystore <path>', `Encrypted keystore file (Web3 Secret Storage) of the signing key, its password is prompted or read from ${KEYSTORE_PASSWORD_ENV}`)
+  .option('--key-file <path>', 'File containing the hex private key for signing transactions')
+  .option('--signer-url <url>', 'JSON-RPC endpoint of an external signer (e.g. a signing daemon) that signs and sends the transactions')
+  .option('--signer-address <address>', 'Account of the external signer to use, if it has several')
+  .option('--rpc-url <rpcUrl>', 'RPC URL for the blockchain, overrides the endpoints configured with phala kms rpc set.')
+  .option('--env <environment>', 'Deployment environment from .phala/config, e.g. staging or production')
+  .option('--wait', 'Wait until the CVM is running', false)
+  .option('--wait-timeout <seconds>', `Maximum time to wait in seconds (default: ${DEFAULT_WAIT_TIMEOUT})`)
+  .option('--health-path <path>', 'With --wait, also wait until this HTTP path answers on a public URL of the CVM')
+  .option('--resume', 'Resume an unfinished deployment of a new CVM from its last successful step', false)
+  .option('--dry-run', 'Show what would be deployed, and the diff against the running CVM for updates, without deploying', false)
+  .option('--strict', 'Fail when the compose file references variables missing from the env keys, or when env keys are unused or removed', false)
+  .option('--prepare-approval', 'For updates of CVMs with an on-chain KMS, output the unsigned addComposeHash transaction for the owner of the DstackApp contract instead of sending it, and stop', false)
+  .option('--approval-format <format>', 'Format of the prepared approval: json, or safe for a Safe Transaction Builder batch (default: json)')
+  .option('--approval-file <path>', 'Write the prepared approval to this file instead of stdout')
+  .option('--commit-after-approval', 'Commit the update prepared with --prepare-approval once its compose hash is allowed on-chain', false)
+  .option('--manifest <manifest>', `Path to the project manifest (default: ${MANIFEST_FILES.join(' or ')} in current directory)`)
+  .action(async (composeFile: string | undefined, cliOptions: Options) => {
+    // Options given on the command line override the ones of the environment, which override the manifest
+    let options = cliOptions;
     try {
+      if (cliOptions.wait) {
+        parseWaitTimeout(cliOptions.waitTimeout);
+      }
+      if (cliOptions.env) {
+        const environment = getDeployEnvironment(cliOptions.env);
+        if (environment) {
+          options = mergeDeployOptions(options, environmentToDeployOptions(environment));
+        } else {
+          console.error(`Environment ${cliOptions.env} is not configured yet, a new CVM will be recorded for it in .phala/config`);
+        }
+      }
+      const applied = applyManifest(options, cliOptions.manifest);
+      options = applied.options;
+      if (applied.manifestPath && options.json === false) {
+        console.log(`Using manifest ${applied.manifestPath}`);
+      }
+
+      if (options.resume) {
+        if (options.dryRun) {
+          throw new Error('--resume cannot be combined with --dry-run');
+        }
+        // The compose file and resources were saved with the provisioned deployment
+        const client = await getApiClient({ apiKey: options.apiKey, interactive: options.interactive });
+        await resumeNewCvm(options, await validateEnvFile(options), client);
+        return;
+      }
+      if (options.commitAfterApproval) {
+        if (options.dryRun || options.prepareApproval) {
+          throw new Error('--commit-after-approval cannot be combined with --dry-run or --prepare-approval');
+        }
+        // The compose file was saved with the prepared update
+        const client = await getApiClient({ apiKey: options.apiKey, interactive: options.interactive });
+        await commitApprovedUpdate(options, await validateEnvFile(options), client);
+        return;
+      }
+      if (options.prepareApproval) {
+        if (options.dryRun) {
+          throw new Error('--prepare-approval cannot be combined with --dry-run');
+        }
+        parseApprovalFormat(options.approvalFormat);
+      }
+
       // Use positional argument if provided, otherwise use the --compose option
       const dockerComposePath = composeFile || options.compose;
 
@@ -633,10 +1245,13 @@ export const deployCommand = new Command()
         interactive: options.interactive
       });
 
-      const uuid = readCvmUuid({ uuid: options.uuid });
+      const uuid = readCvmUuid({ uuid: options.uuid, env: options.env });
       const envs = await validateEnvFile(options);
 
       const isUpdate = !!uuid;
+      if (options.prepareApproval && !isUpdate) {
+        throw new Error('--prepare-approval only applies to updates, deploy new CVMs owned by a multisig with --custom-app-id');
+      }
       if (isUpdate) {
         // Update the cvm
         await updateCvm({
@@ -644,22 +1259,82 @@ export const deployCommand = new Command()
           uuid,
         }, docker_compose_yml, envs, client);
       } else {
-        // Deploy a new cvm
+        // Deploy a new cvm, using the defaults of the active profile (then the configuration) for unset node and KMS
+        const profileSettings = loadProfileSettings();
         await deployNewCvm({
           ...options,
+          nodeId: options.nodeId ?? (profileSettings.defaultNodeId ?? loadConfig().defaultTeepodId)?.toString(),
+          kmsId: options.kmsId ?? profileSettings.defaultKmsId,
           uuid,
         }, docker_compose_yml, envs, client);
       }
     } catch (error) {
-      if (options.json !== false) {
-        console.error(JSON.stringify({
-          success: false,
-          error: error.message,
-          stack: options.debug && error instanceof Error ? error.stack : undefined
-        }, null, 2));
-      } else {
-        console.error(dedent`${error.message}`);
+      printDeployError(options, error);
+      process.exit(1);
+    }
+  });
+
+const rollbackCommand = new Command()
+  .name('rollback')
+  .description('Roll back the CVM to a previous deployment recorded in .phala/history')
+  .argument('[id]', 'ID of the deployment to roll back to, as listed by phala deploy history (default: the previous deployment)')
+  .option('--env <environment>', 'Deployment environment whose CVM is rolled back')
+  .option('--uuid <uuid>', 'UUID of the CVM to roll back')
+  .option('-e, --env-file <envFile>', 'Environment file to encrypt and send with the rollback, otherwise the current environment variables are kept')
+  .option('--private-key <privateKey>', 'Private key for signing transactions, refused without a terminal unless --allow-private-key-arg is given. Prefer --keystore or --key-file')
+  .option('--allow-private-key-arg', 'Allow --private-key in non-interactive sessions, e.g. CI')
+  .option('--keystore <path>', `Encrypted keystore file (Web3 Secret Storage) of the signing key, its password is prompted or read from ${KEYSTORE_PASSWORD_ENV}`)
+  .option('--key-file <path>', 'File containing the hex private key for signing transactions')
+  .option('--signer-url <url>', 'JSON-RPC endpoint of an external signer (e.g. a signing daemon) that signs and sends the transactions')
+  .option('--signer-address <address>', 'Account of the external signer to use, if it has several')
+  .option('--rpc-url <rpcUrl>', 'RPC URL for the blockchain, overrides the endpoints configured with phala kms rpc set.')
+  .option('--api-key <apiKey>', 'API key for authentication')
+  .option('--dry-run', 'Show the diff against the running CVM without rolling back')
+  .option('--prepare-approval', 'For CVMs with an on-chain KMS, output the unsigned addComposeHash transaction instead of sending it, then commit with phala deploy --commit-after-approval')
+  .option('--approval-format <format>', 'Format of the prepared approval: json, or safe for a Safe Transaction Builder batch (default: json)')
+  .option('--approval-file <path>', 'Write the prepared approval to this file instead of stdout')
+  .option('--wait', 'Wait until the CVM is running')
+  .option('--wait-timeout <seconds>', `Maximum time to wait in seconds (default: ${DEFAULT_WAIT_TIMEOUT})`)
+  .option('--health-path <path>', 'With --wait, also wait until this HTTP path answers on a public URL of the CVM')
+  .action(async (id: string | undefined, _options, command: Command) => {
+    // Most options are also options of deploy, which parses them first
+    const options: Options = command.optsWithGlobals();
+    try {
+      if (options.wait) {
+        parseWaitTimeout(options.waitTimeout);
+      }
+      if (options.prepareApproval) {
+        parseApprovalFormat(options.approvalFormat);
+      }
+      if (id !== undefined && !/^#?\d+$/.test(id)) {
+        throw new Error(`Invalid deployment ID '${id}', expected a number as listed by phala deploy history`);
+      }
+      const uuid = readCvmUuid({ uuid: options.uuid, env: options.env });
+      if (!uuid) {
+        throw new Error(options.env ? `Environment ${options.env} has no CVM yet` : 'No CVM to roll back, deploy one first or pass --uuid');
+      }
+      const target = resolveRollbackTarget(listDeployments(uuid), id === undefined ? undefined : Number(id.replace('#', '')));
+      const docker_compose_yml = readDeploymentCompose(target);
+
+      const envs = await validateEnvFile({ ...options, interactive: false });
+      // The compose hash covers the allowed env keys, so the env file must provide those of the deployment
+      const env_keys = (envs ?? []).map((env) => env.key);
+      if (envs && (target.allowed_envs.length !== env_keys.length || target.allowed_envs.some((key) => !env_keys.includes(key)))) {
+        throw new Error(`The environment file must provide the keys of deployment #${target.id}: ${target.allowed_envs.join(', ') || '(none)'}`);
+      }
+      console.error(`Rolling back CVM ${uuid} to deployment #${target.id} (compose hash ${target.compose_hash}, deployed at ${target.deployed_at})`);
+      if (!envs) {
+        console.error(`Keeping the current environment variables, pass --env-file to restore the ones of deployment #${target.id}: ${target.allowed_envs.join(', ') || '(none)'}`);
       }
+
+      const client = await getApiClient({ apiKey: options.apiKey, interactive: false });
+      await updateCvm({ ...options, uuid, rollbackOf: target.id }, docker_compose_yml, envs, client, target);
+    } catch (error) {
+      printDeployError(options, error);
       process.exit(1);
     }
-  });
\ No newline at end of file
+  });
+
+deployCommand
+  .addCommand(historyCommand)
+  .addCommand(rollbackCommand);
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { Command } from 'commander';
+import { listCommand } from './list';
+
+export const envCommands = new Command()
+  .name('env')
+  .description('Manage the deployment environments of the project')
+  .addCommand(listCommand);
@@ -0,0 +1,74 @@
+import { Command } from 'commander';
+import { createClient, safeGetCvmInfo } from '@phala/cloud';
+import { getCvmUuid, getDeployEnvironments } from '@/src/utils/config';
+import { getApiKey } from '@/src/utils/credentials';
+import { logger } from '@/src/utils/logger';
+
+interface EnvironmentStatus {
+  environment: string;
+  cvmUuid?: string;
+  name?: string;
+  status: string;
+  envFile?: string;
+}
+
+export const listCommand = new Command()
+  .name('list')
+  .alias('ls')
+  .description('List the environments in .phala/config with the status of their CVMs')
+  .option('-j, --json', 'Output in JSON format')
+  .action(async (options: { json?: boolean }) => {
+    try {
+      const environments = getDeployEnvironments();
+      const entries = Object.entries(environments);
+      // The CVM deployed without --env is listed as the default environment
+      const defaultUuid = getCvmUuid();
+      if (defaultUuid) {
+        entries.unshift(['(default)', { cvmUuid: defaultUuid }]);
+      }
+
+      if (entries.length === 0) {
+        logger.info('No environments configured. Deploy with "phala deploy --env <name>" to create one.');
+        return;
+      }
+
+      const apiKey = getApiKey();
+      const client = apiKey ? createClient({ apiKey }) : undefined;
+      const spinner = options.json ? undefined : logger.startSpinner('Fetching CVM status');
+      const rows: EnvironmentStatus[] = await Promise.all(
+        entries.map(async ([environment, config]) => {
+          const row: EnvironmentStatus = { environment, cvmUuid: config.cvmUuid, status: 'not deployed', envFile: config.envFile };
+          if (!config.cvmUuid) {
+            return row;
+          }
+          if (!client) {
+            return { ...row, status: 'unknown (not authenticated)' };
+          }
+          const result = await safeGetCvmInfo(client, { uuid: config.cvmUuid });
+          if (!result.success) {
+            const status = 'isRequestError' in result.error && result.error.status === 404 ? 'not found' : 'unknown';
+            return { ...row, status };
+          }
+          const cvm = result.data as { name?: string; status?: string };
+          return { ...row, name: cvm.name, status: cvm.status || 'unknown' };
+        })
+      );
+      spinner?.stop(true);
+
+      if (options.json) {
+        console.log(JSON.stringify(rows, null, 2));
+        return;
+      }
+
+      logger.table(rows.map((row) => ({ ...row, cvmUuid: row.cvmUuid || '-', name: row.name || '-', envFile: row.envFile || '-' })), [
+        { key: 'environment', header: 'Environment' },
+        { key: 'name', header: 'CVM Name' },
+        { key: 'cvmUuid', header: 'CVM UUID' },
+        { key: 'status', header: 'Status' },
+        { key: 'envFile', header: 'Env File' },
+      ]);
+    } catch (error) {
+      logger.error(`Failed to list environments: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
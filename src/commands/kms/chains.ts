@@ -0,0 +1,90 @@
+import { Command } from 'commander';
+import { getTeepods } from '@/src/api/teepods';
+import { logger } from '@/src/utils/logger';
+import { listConfiguredRpcEndpoints, resolveRpcEndpoints, selectRpcUrl } from '@/src/utils/rpc';
+
+interface ChainInfo {
+  chain_id: number;
+  kms: string[];
+  rpc_urls: string[];
+  rpc_timeout: number;
+  rpc_configured: boolean;
+  rpc_check?: { rpc_url?: string; error?: string };
+}
+
+export const chainsCommand = new Command()
+  .name('chains')
+  .description('List the chains referenced by the KMS list, with their configured RPC endpoints')
+  .option('--check', 'Check that an RPC endpoint of each chain answers with its chain ID')
+  .option('-j, --json', 'Output in JSON format')
+  .action(async (options: { check?: boolean; json?: boolean }) => {
+    try {
+      const { kms_list: kmsList = [] } = await getTeepods();
+      const kmsByChain = new Map<number, string[]>();
+      for (const kms of kmsList) {
+        if (kms.chain_id) {
+          kmsByChain.set(kms.chain_id, [...(kmsByChain.get(kms.chain_id) ?? []), kms.slug]);
+        }
+      }
+      // Chains configured for a KMS that is not listed anymore are shown too
+      for (const chainId of Object.keys(listConfiguredRpcEndpoints())) {
+        if (!kmsByChain.has(Number(chainId))) {
+          kmsByChain.set(Number(chainId), []);
+        }
+      }
+
+      const chains: ChainInfo[] = [];
+      for (const [chainId, kms] of [...kmsByChain].sort(([a], [b]) => a - b)) {
+        const endpoints = resolveRpcEndpoints(chainId);
+        const chain: ChainInfo = {
+          chain_id: chainId,
+          kms,
+          rpc_urls: endpoints.urls,
+          rpc_timeout: endpoints.timeout / 1000,
+          rpc_configured: endpoints.source === 'config',
+        };
+        if (options.check && endpoints.urls.length > 0) {
+          try {
+            chain.rpc_check = { rpc_url: await selectRpcUrl(endpoints, chainId) };
+          } catch (error) {
+            chain.rpc_check = { error: error instanceof Error ? error.message : String(error) };
+          }
+        }
+        chains.push(chain);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(chains, null, 2));
+        return;
+      }
+      if (chains.length === 0) {
+        logger.info('No KMS instance is on-chain.');
+        return;
+      }
+
+      logger.table(chains.map((chain) => ({
+        chainId: chain.chain_id,
+        kms: chain.kms.join(', ') || '(none)',
+        rpc: chain.rpc_configured ? chain.rpc_urls.join(', ') : '(default of the chain)',
+        timeout: `${chain.rpc_timeout}s`,
+        check: chain.rpc_check ? (chain.rpc_check.rpc_url ? `ok (${chain.rpc_check.rpc_url})` : 'failed') : '',
+      })), [
+        { key: 'chainId', header: 'Chain ID' },
+        { key: 'kms', header: 'KMS' },
+        { key: 'rpc', header: 'RPC' },
+        { key: 'timeout', header: 'Timeout' },
+        ...(options.check ? [{ key: 'check' as const, header: 'Check' }] : []),
+      ]);
+      for (const chain of chains) {
+        if (chain.rpc_check?.error) {
+          logger.warn(chain.rpc_check.error);
+        }
+      }
+      if (chains.some((chain) => !chain.rpc_configured)) {
+        logger.info('Configure the RPC endpoints of a chain with "phala kms rpc set <chain-id> <url...>".');
+      }
+    } catch (error) {
+      logger.error(`Failed to list KMS chains: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
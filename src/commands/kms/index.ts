@@ -0,0 +1,9 @@
+import { Command } from 'commander';
+import { chainsCommand } from './chains';
+import { rpcCommand } from './rpc';
+
+export const kmsCommands = new Command()
+  .name('kms')
+  .description('Inspect the chains of on-chain KMS instances and configure their RPC endpoints')
+  .addCommand(chainsCommand)
+  .addCommand(rpcCommand);
@@ -0,0 +1,53 @@
+import { Command } from 'commander';
+import { logger } from '@/src/utils/logger';
+import { setRpcEndpoint, unsetRpcEndpoint } from '@/src/utils/rpc';
+
+const parseChainId = (value: string): number => {
+  if (!/^\d+$/.test(value) || Number(value) <= 0) {
+    throw new Error(`Invalid chain ID '${value}', expected a positive integer`);
+  }
+  return Number(value);
+};
+
+const setCommand = new Command()
+  .name('set')
+  .description('Set the RPC endpoints of a chain, tried in order until one answers with the chain ID')
+  .argument('<chain-id>', 'Chain ID, as listed by phala kms chains')
+  .argument('<urls...>', 'RPC URLs, the first ones are preferred')
+  .option('--timeout <seconds>', 'Timeout of each RPC request in seconds (default: 15)')
+  .action((chainId: string, urls: string[], options: { timeout?: string }) => {
+    try {
+      const timeout = options.timeout === undefined ? undefined : Number(options.timeout);
+      if (timeout !== undefined && !(timeout > 0)) {
+        throw new Error(`Invalid timeout '${options.timeout}', expected a positive number of seconds`);
+      }
+      const endpoint = setRpcEndpoint(parseChainId(chainId), urls, timeout);
+      logger.success(`RPC endpoints of chain ${chainId} set to ${endpoint.urls.join(', ')}`);
+    } catch (error) {
+      logger.error(`Failed to set RPC endpoints: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+const unsetCommand = new Command()
+  .name('unset')
+  .description('Remove the RPC endpoints of a chain, restoring the default of the chain')
+  .argument('<chain-id>', 'Chain ID')
+  .action((chainId: string) => {
+    try {
+      if (unsetRpcEndpoint(parseChainId(chainId))) {
+        logger.success(`RPC endpoints of chain ${chainId} removed`);
+      } else {
+        logger.info(`No RPC endpoints configured for chain ${chainId}, nothing to remove`);
+      }
+    } catch (error) {
+      logger.error(`Failed to unset RPC endpoints: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+export const rpcCommand = new Command()
+  .name('rpc')
+  .description('Configure the RPC endpoints of the chains of on-chain KMS')
+  .addCommand(setCommand)
+  .addCommand(unsetCommand);
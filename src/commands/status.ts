@@ -3,6 +3,7 @@ import { Command } from 'commander';
 import { getApiKey } from '../utils/credentials.js';
 import { logger } from '../utils/logger.js';
 import { safeGetCurrentUser } from '@phala/cloud';
+import { getActiveProfile } from '../utils/profiles.js';
 
 export async function checkStatus(options: { debug?: boolean; json?: boolean; apiKey?: string } = {}) {
   try {
@@ -34,16 +35,19 @@ export async function checkStatus(options: { debug?: boolean; json?: boolean; ap
 
       const userInfo = result.data as any;
       const apiUrl = process.env.PHALA_CLOUD_API_PREFIX || 'https://cloud-api.phala.network/api/v1';
+      const profile = getActiveProfile();
 
       if (options.json) {
         console.log(JSON.stringify({
           apiUrl,
+          profile,
           username: userInfo.username,
           team_name: userInfo.team_name
         }, null, 2));
         return;
       }
       // Display the status in the requested format without colors
+      console.log(`Profile: ${profile}`);
       console.log(`Integrated API: ${apiUrl}`);
       console.log(`Logged in as: ${userInfo.username}`);
       console.log(`Current Workspace: ${userInfo.team_name}`);
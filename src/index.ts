@@ -9,6 +9,18 @@ import { cvmsCommand } from "./commands/cvms";
 import { nodesCommand } from "./commands/nodes";
 import { statusCommand } from "./commands/status";
 import { deployCommand } from "./commands/deploy";
+import { attestationCommands } from "./commands/attestation";
+import { configCommands } from "./commands/config";
+import { envCommands } from "./commands/env";
+import { kmsCommands } from "./commands/kms";
+import { composeCommands } from "./commands/compose";
+import { applyProfileEnvironment, profileExists } from "./utils/profiles";
+import { applyConfigEnvironment } from "./utils/config";
+import {
+	needsCredentialPassphrase,
+	setCredentialPassphrase,
+} from "./utils/credentials";
+import { promptForPassphrase } from "./utils/prompts";
 import { readFileSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
@@ -31,15 +43,57 @@ async function main() {
 				`${logo}\nPhala Cloud CLI - Manage your Phala Cloud Deployments`,
 			)
 			.version(version)
+			.option(
+				"--profile <name>",
+				"Profile to use for this command (defaults to PHALA_PROFILE or the profile selected with 'phala auth use')",
+			)
+			.hook("preAction", async (thisCommand, actionCommand) => {
+				const { profile } = thisCommand.opts();
+				if (profile) {
+					process.env.PHALA_PROFILE = profile;
+				}
+				const active = process.env.PHALA_PROFILE;
+				// Logging in is how a profile gets created
+				const isLogin =
+					actionCommand.name() === "login" &&
+					actionCommand.parent?.name() === "auth";
+				if (active && !isLogin) {
+					if (!profileExists(active)) {
+						logger.error(
+							`Profile "${active}" does not exist. Create it with "phala auth login --profile ${active}"`,
+						);
+						process.exit(1);
+					}
+				}
+				applyProfileEnvironment();
+				applyConfigEnvironment();
+
+				// Ask once for the passphrase of a locked credential store, before any
+				// command reads the API key. Without a terminal, PHALA_CLOUD_PASSPHRASE is required.
+				const group = actionCommand.parent?.name();
+				const usesApiKey =
+					!["docker", "simulator"].includes(group ?? "") &&
+					(group !== "auth" || actionCommand.name() === "status");
+				if (usesApiKey && process.stdin.isTTY && needsCredentialPassphrase()) {
+					setCredentialPassphrase(
+						await promptForPassphrase("Enter the passphrase of your credential store:"),
+					);
+				}
+			})
 			.addCommand(statusCommand)
 			.addCommand(authCommands)
 			.addCommand(cvmsCommand)
 			.addCommand(dockerCommands)
 			.addCommand(simulatorCommands)
 			.addCommand(nodesCommand)
-			.addCommand(deployCommand);
+			.addCommand(deployCommand)
+			.addCommand(attestationCommands)
+			.addCommand(configCommands)
+			.addCommand(envCommands)
+			.addCommand(kmsCommands)
+			.addCommand(composeCommands);
 
-	program.parse(process.argv);
+	await program.parseAsync(process.argv);
 }
 
 main().catch((error) => {
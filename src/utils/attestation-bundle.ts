@@ -0,0 +1,206 @@
+import crypto from 'node:crypto';
+import fs from 'fs-extra';
+import os from 'node:os';
+import path from 'node:path';
+import { execa } from 'execa';
+import type { CvmAttestationResponse } from '@/src/api/types';
+import { cvmAttestationResponseSchema } from '@/src/api/types';
+import { verifyAttestation, type AttestationCheck } from './attestation';
+import { isWithinValidityWindow } from './certificates';
+
+export const BUNDLE_MANIFEST_FILE = 'manifest.json';
+export const BUNDLE_VERSION = 1;
+
+const ATTESTATION_FILE = 'attestation.json';
+const EVENT_LOG_FILE = 'event_log.json';
+const COMPOSE_FILE = 'app-compose.json';
+const QUOTES_DIR = 'quotes';
+
+/**
+ * Manifest describing the content of an evidence bundle
+ */
+export interface BundleManifest {
+  version: number;
+  app_id: string;
+  created_at: string;
+  files: Record<string, string>;
+}
+
+/**
+ * Result of verifying an evidence bundle
+ */
+export interface BundleVerificationResult {
+  passed: boolean;
+  manifest?: BundleManifest;
+  checks: AttestationCheck[];
+}
+
+/**
+ * Returns true if the path points to a gzipped tarball
+ */
+export function isTarballPath(bundlePath: string): boolean {
+  return /\.(tar\.gz|tgz)$/i.test(bundlePath);
+}
+
+function sha256File(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Writes the bundle files into a directory and returns the manifest
+ */
+function writeBundleDirectory(attestation: CvmAttestationResponse, dir: string, appId: string): BundleManifest {
+  fs.ensureDirSync(dir);
+  const files: string[] = [];
+  const write = (name: string, content: string) => {
+    fs.ensureDirSync(path.dirname(path.join(dir, name)));
+    fs.writeFileSync(path.join(dir, name), content);
+    files.push(name);
+  };
+
+  write(ATTESTATION_FILE, JSON.stringify(attestation, null, 2));
+
+  if (attestation.tcb_info) {
+    write(EVENT_LOG_FILE, JSON.stringify(attestation.tcb_info.event_log, null, 2));
+  }
+
+  // Keep the compose file byte-for-byte so its hash can be re-checked
+  if (attestation.compose_file) {
+    write(COMPOSE_FILE, attestation.compose_file);
+  }
+
+  const certificates = [...(attestation.app_certificates || [])]
+    .sort((a, b) => a.position_in_chain - b.position_in_chain);
+  for (const cert of certificates) {
+    if (cert.quote) {
+      write(`${QUOTES_DIR}/cert-${cert.position_in_chain}.hex`, cert.quote);
+    }
+  }
+
+  const manifest: BundleManifest = {
+    version: BUNDLE_VERSION,
+    app_id: appId,
+    created_at: new Date().toISOString(),
+    files: Object.fromEntries(files.map((name) => [name, sha256File(path.join(dir, name))])),
+  };
+  fs.writeFileSync(path.join(dir, BUNDLE_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  return manifest;
+}
+
+/**
+ * Exports an attestation as an evidence bundle for offline verification.
+ * Paths ending in .tar.gz or .tgz produce a gzipped tarball, any other path a directory.
+ * @param attestation Attestation response
+ * @param outputPath Target directory or tarball path
+ * @param appId App ID of the CVM
+ * @returns The bundle manifest
+ */
+export async function writeAttestationBundle(
+  attestation: CvmAttestationResponse,
+  outputPath: string,
+  appId: string
+): Promise<BundleManifest> {
+  if (!isTarballPath(outputPath)) {
+    if (fs.existsSync(outputPath) && fs.readdirSync(outputPath).length > 0) {
+      throw new Error(`Output directory is not empty: ${outputPath}`);
+    }
+    return writeBundleDirectory(attestation, outputPath, appId);
+  }
+
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-attestation-'));
+  try {
+    const manifest = writeBundleDirectory(attestation, tmpDir, appId);
+    fs.ensureDirSync(path.dirname(path.resolve(outputPath)));
+    await execa('tar', ['-czf', path.resolve(outputPath), '-C', tmpDir, '.']);
+    return manifest;
+  } finally {
+    fs.removeSync(tmpDir);
+  }
+}
+
+/**
+ * Checks the validity window of the certificates recorded in the attestation
+ */
+function checkCertificateDates(attestation: CvmAttestationResponse, now: Date): AttestationCheck {
+  const certificates = attestation.app_certificates || [];
+  const invalid = certificates.filter((cert) => !isWithinValidityWindow(cert, now));
+  return {
+    name: 'Certificate Validity',
+    passed: certificates.length > 0 && invalid.length === 0,
+    message: certificates.length === 0
+      ? 'No certificates in bundle'
+      : invalid.length === 0
+        ? `${certificates.length} certificates valid at ${now.toISOString()}`
+        : `Outside validity window: ${invalid.map((cert) => cert.subject.common_name || `#${cert.position_in_chain}`).join(', ')}`,
+  };
+}
+
+/**
+ * Verifies a bundle directory without network access
+ */
+function verifyBundleDirectory(dir: string, now: Date): BundleVerificationResult {
+  const checks: AttestationCheck[] = [];
+  const manifestPath = path.join(dir, BUNDLE_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    checks.push({ name: 'Manifest', passed: false, message: `${BUNDLE_MANIFEST_FILE} not found` });
+    return { passed: false, checks };
+  }
+  const manifest = fs.readJsonSync(manifestPath) as BundleManifest;
+
+  // 1. Checksums of every file listed in the manifest
+  for (const [name, expected] of Object.entries(manifest.files || {})) {
+    const filePath = path.resolve(dir, name);
+    if (!filePath.startsWith(path.resolve(dir) + path.sep)) {
+      checks.push({ name: `Checksum ${name}`, passed: false, message: 'File path escapes the bundle' });
+    } else if (!fs.existsSync(filePath)) {
+      checks.push({ name: `Checksum ${name}`, passed: false, expected, message: 'File missing' });
+    } else {
+      const actual = sha256File(filePath);
+      checks.push({ name: `Checksum ${name}`, passed: actual === expected, expected, actual });
+    }
+  }
+
+  // 2. Certificates and RTMR replay, based on the recorded attestation
+  const attestationPath = path.join(dir, ATTESTATION_FILE);
+  if (!manifest.files?.[ATTESTATION_FILE] || !fs.existsSync(attestationPath)) {
+    checks.push({ name: 'Attestation', passed: false, message: `${ATTESTATION_FILE} not found in bundle` });
+  } else {
+    const parsed = cvmAttestationResponseSchema.safeParse(fs.readJsonSync(attestationPath));
+    if (!parsed.success) {
+      checks.push({ name: 'Attestation', passed: false, message: `Invalid ${ATTESTATION_FILE}: ${parsed.error.message}` });
+    } else {
+      checks.push(checkCertificateDates(parsed.data, now));
+      checks.push(...verifyAttestation(parsed.data).checks);
+    }
+  }
+
+  return {
+    passed: checks.every((check) => check.passed),
+    manifest,
+    checks,
+  };
+}
+
+/**
+ * Verifies an evidence bundle (directory or .tar.gz) without network access:
+ * re-checks the manifest checksums and certificate validity dates, and replays the RTMRs.
+ * @param bundlePath Path to the bundle
+ * @param now Reference time for certificate validity (defaults to the current time)
+ * @returns Verification result with one entry per check
+ */
+export async function verifyAttestationBundle(bundlePath: string, now: Date = new Date()): Promise<BundleVerificationResult> {
+  if (!fs.existsSync(bundlePath)) {
+    throw new Error(`Bundle not found: ${bundlePath}`);
+  }
+  if (fs.statSync(bundlePath).isDirectory()) {
+    return verifyBundleDirectory(bundlePath, now);
+  }
+
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-attestation-'));
+  try {
+    await execa('tar', ['-xzf', path.resolve(bundlePath), '-C', tmpDir]);
+    return verifyBundleDirectory(tmpDir, now);
+  } finally {
+    fs.removeSync(tmpDir);
+  }
+}
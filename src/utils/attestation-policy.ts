@@ -0,0 +1,178 @@
+import fs from 'node:fs';
+import YAML from 'yaml';
+import { z } from 'zod';
+import type { CvmAttestationResponse, TeepodResponse } from '@/src/api/types';
+import { COMPOSE_HASH_EVENT, computeComposeHash, normalizeHex } from './attestation';
+import { formatZodIssues } from './types';
+
+// Exit code used when an attestation violates the policy, so CI can tell it
+// apart from generic failures (exit code 1)
+export const POLICY_VIOLATION_EXIT_CODE = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const hexSchema = z.string().regex(/^(0x)?[0-9a-fA-F]+$/, 'Expected a hex string');
+
+// Attestation Policy Schema
+export const attestationPolicySchema = z.object({
+  mrtd: hexSchema.optional(),
+  rootfs_hash: hexSchema.optional(),
+  os_image_hash: z.object({
+    allowed: z.array(hexSchema).optional(),
+    from_node_images: z.boolean().optional(),
+  }).strict().refine(
+    (rule) => (rule.allowed && rule.allowed.length > 0) || rule.from_node_images,
+    'Either allowed or from_node_images must be set'
+  ).optional(),
+  compose_hash: hexSchema.optional(),
+  certificates: z.object({
+    min_days_until_expiry: z.number().int().nonnegative(),
+  }).strict().optional(),
+}).strict();
+
+export type AttestationPolicy = z.infer<typeof attestationPolicySchema>;
+
+/**
+ * Result of a single policy rule
+ */
+export interface PolicyRuleResult {
+  rule: string;
+  passed: boolean;
+  expected?: string;
+  actual?: string;
+  message?: string;
+}
+
+/**
+ * Result of evaluating an attestation policy
+ */
+export interface PolicyReport {
+  passed: boolean;
+  rules: PolicyRuleResult[];
+}
+
+/**
+ * Context needed to evaluate a policy besides the attestation report itself
+ */
+export interface PolicyContext {
+  attestation: CvmAttestationResponse;
+  osImageHash?: string | null;
+  nodeImageHashes?: string[];
+  now?: Date;
+}
+
+/**
+ * Loads and validates an attestation policy file (YAML or JSON)
+ * @param policyPath Path to the policy file
+ * @returns The validated policy
+ * @throws If the file cannot be read or does not match the policy schema
+ */
+export function loadAttestationPolicy(policyPath: string): AttestationPolicy {
+  if (!fs.existsSync(policyPath)) {
+    throw new Error(`Policy file not found: ${policyPath}`);
+  }
+  const content = fs.readFileSync(policyPath, 'utf8');
+  const result = attestationPolicySchema.safeParse(YAML.parse(content) ?? {});
+  if (!result.success) {
+    throw new Error(`Invalid policy file ${policyPath}: ${formatZodIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Collects all OS image hashes published by the available nodes
+ * @param teepods Response of getTeepods
+ * @returns Unique normalized OS image hashes
+ */
+export function collectNodeImageHashes(teepods: TeepodResponse): string[] {
+  const hashes = new Set<string>();
+  for (const node of teepods.nodes) {
+    for (const image of node.images || []) {
+      if (image.os_image_hash) {
+        hashes.add(normalizeHex(image.os_image_hash));
+      }
+    }
+  }
+  return [...hashes];
+}
+
+/**
+ * Compares an expected and actual measurement
+ */
+function matchRule(rule: string, expected: string, actual: string | null | undefined): PolicyRuleResult {
+  if (!actual) {
+    return { rule, passed: false, expected: normalizeHex(expected), message: 'Value not present in attestation' };
+  }
+  const normalizedExpected = normalizeHex(expected);
+  const normalizedActual = normalizeHex(actual);
+  return { rule, passed: normalizedExpected === normalizedActual, expected: normalizedExpected, actual: normalizedActual };
+}
+
+/**
+ * Evaluates an attestation against a policy
+ * @param policy Attestation policy
+ * @param context Attestation report and supporting data
+ * @returns Report with one result per rule declared in the policy
+ */
+export function evaluateAttestationPolicy(policy: AttestationPolicy, context: PolicyContext): PolicyReport {
+  const { attestation } = context;
+  const tcbInfo = attestation.tcb_info;
+  const rules: PolicyRuleResult[] = [];
+
+  if (policy.mrtd) {
+    rules.push(matchRule('mrtd', policy.mrtd, tcbInfo?.mrtd));
+  }
+
+  if (policy.rootfs_hash) {
+    rules.push(matchRule('rootfs_hash', policy.rootfs_hash, tcbInfo?.rootfs_hash));
+  }
+
+  if (policy.os_image_hash) {
+    const allowed = new Set((policy.os_image_hash.allowed || []).map(normalizeHex));
+    if (policy.os_image_hash.from_node_images) {
+      for (const hash of context.nodeImageHashes || []) {
+        allowed.add(hash);
+      }
+    }
+    const actual = context.osImageHash ? normalizeHex(context.osImageHash) : undefined;
+    rules.push({
+      rule: 'os_image_hash',
+      passed: !!actual && allowed.has(actual),
+      expected: `one of ${allowed.size} allowed hashes`,
+      actual,
+      message: actual ? undefined : 'Could not resolve the OS image hash of the CVM',
+    });
+  }
+
+  if (policy.compose_hash) {
+    // Prefer the measured value from the event log, fall back to the compose file
+    const event = tcbInfo?.event_log.find((entry) => entry.event === COMPOSE_HASH_EVENT);
+    const actual = event?.event_payload
+      || (attestation.compose_file ? computeComposeHash(attestation.compose_file) : undefined);
+    rules.push(matchRule('compose_hash', policy.compose_hash, actual));
+  }
+
+  if (policy.certificates) {
+    const now = context.now || new Date();
+    const minDays = policy.certificates.min_days_until_expiry;
+    const certificates = attestation.app_certificates || [];
+    if (certificates.length === 0) {
+      rules.push({ rule: 'certificates.min_days_until_expiry', passed: false, message: 'No certificates in attestation' });
+    }
+    for (const cert of certificates) {
+      const daysLeft = Math.floor((new Date(cert.not_after).getTime() - now.getTime()) / DAY_MS);
+      rules.push({
+        rule: `certificates.min_days_until_expiry[${cert.position_in_chain}]`,
+        passed: daysLeft >= minDays,
+        expected: `>= ${minDays} days`,
+        actual: `${daysLeft} days`,
+        message: cert.subject.common_name || undefined,
+      });
+    }
+  }
+
+  return {
+    passed: rules.every((rule) => rule.passed),
+    rules,
+  };
+}
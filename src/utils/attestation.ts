@@ -0,0 +1,181 @@
+import crypto from 'node:crypto';
+import type { CvmAttestationResponse } from '@/src/api/types';
+
+// Event type used by dstack for runtime events extended into RTMR3
+export const DSTACK_RUNTIME_EVENT_TYPE = 0x08000001;
+
+// Name of the runtime event carrying the app compose hash
+export const COMPOSE_HASH_EVENT = 'compose-hash';
+
+type EventLogEntry = NonNullable<CvmAttestationResponse['tcb_info']>['event_log'][number];
+
+// RTMRs are SHA-384 registers
+const RTMR_SIZE = 48;
+const RTMR_COUNT = 4;
+
+/**
+ * Result of a single attestation check
+ */
+export interface AttestationCheck {
+  name: string;
+  passed: boolean;
+  expected?: string;
+  actual?: string;
+  message?: string;
+}
+
+/**
+ * Result of verifying an attestation report
+ */
+export interface AttestationVerificationResult {
+  passed: boolean;
+  checks: AttestationCheck[];
+}
+
+/**
+ * Normalizes a hex string for comparison (lowercase, no 0x prefix)
+ * @param hex Hex string
+ * @returns Normalized hex string
+ */
+export function normalizeHex(hex: string): string {
+  return hex.trim().toLowerCase().replace(/^0x/, '');
+}
+
+/**
+ * Replays the event log by extending each digest into its RTMR
+ * (RTMR[i] = SHA384(RTMR[i] || digest)), starting from all-zero registers.
+ * @param eventLog Event log entries from tcb_info
+ * @returns Hex encoded RTMR0-3 values
+ */
+export function replayRtmrs(eventLog: EventLogEntry[]): string[] {
+  const rtmrs: Buffer[] = Array.from({ length: RTMR_COUNT }, () => Buffer.alloc(RTMR_SIZE));
+
+  for (const entry of eventLog) {
+    if (entry.imr < 0 || entry.imr >= RTMR_COUNT) {
+      throw new Error(`Invalid IMR index ${entry.imr} in event log`);
+    }
+    const digest = Buffer.alloc(RTMR_SIZE);
+    Buffer.from(normalizeHex(entry.digest), 'hex').copy(digest);
+    rtmrs[entry.imr] = crypto
+      .createHash('sha384')
+      .update(Buffer.concat([rtmrs[entry.imr], digest]))
+      .digest();
+  }
+
+  return rtmrs.map((rtmr) => rtmr.toString('hex'));
+}
+
+/**
+ * Computes the digest of a dstack runtime event:
+ * SHA384(event_type as u32 LE || ":" || event || ":" || payload)
+ * @param entry Event log entry
+ * @returns Hex encoded digest
+ */
+export function computeRuntimeEventDigest(entry: Pick<EventLogEntry, 'event_type' | 'event' | 'event_payload'>): string {
+  const eventType = Buffer.alloc(4);
+  eventType.writeUInt32LE(entry.event_type);
+  return crypto
+    .createHash('sha384')
+    .update(eventType)
+    .update(':')
+    .update(entry.event)
+    .update(':')
+    .update(Buffer.from(normalizeHex(entry.event_payload), 'hex'))
+    .digest('hex');
+}
+
+/**
+ * Computes the compose hash of an app compose file (SHA-256 of its content)
+ * @param composeFile App compose file content
+ * @returns Hex encoded compose hash
+ */
+export function computeComposeHash(composeFile: string): string {
+  return crypto.createHash('sha256').update(composeFile, 'utf8').digest('hex');
+}
+
+/**
+ * Gets the compose hash extended into RTMR3 at boot
+ * @param eventLog Event log entries from tcb_info
+ * @returns Hex encoded compose hash, or undefined if the log has no compose-hash event
+ */
+export function getComposeHashFromEventLog(eventLog: EventLogEntry[]): string | undefined {
+  const event = eventLog.find((entry) => entry.event === COMPOSE_HASH_EVENT);
+  return event ? normalizeHex(event.event_payload) : undefined;
+}
+
+/**
+ * Verifies an attestation report offline: replays the event log to recompute
+ * RTMR0-3, checks the digests of runtime events and checks that the
+ * compose-hash event matches the reported compose file.
+ * @param attestation Attestation response
+ * @returns Verification result with one entry per check
+ */
+export function verifyAttestation(
+  attestation: Pick<CvmAttestationResponse, 'tcb_info' | 'compose_file'>
+): AttestationVerificationResult {
+  const checks: AttestationCheck[] = [];
+  const tcbInfo = attestation.tcb_info;
+
+  if (!tcbInfo) {
+    checks.push({ name: 'TCB Info', passed: false, message: 'No TCB information in attestation report' });
+    return { passed: false, checks };
+  }
+
+  // 1. Replay the event log
+  let replayed: string[] = [];
+  try {
+    replayed = replayRtmrs(tcbInfo.event_log);
+  } catch (error) {
+    checks.push({
+      name: 'Event Log',
+      passed: false,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+  if (replayed.length === RTMR_COUNT) {
+    const reported = [tcbInfo.rtmr0, tcbInfo.rtmr1, tcbInfo.rtmr2, tcbInfo.rtmr3];
+    reported.forEach((value, index) => {
+      const expected = normalizeHex(value);
+      checks.push({
+        name: `RTMR${index}`,
+        passed: expected === replayed[index],
+        expected,
+        actual: replayed[index],
+      });
+    });
+  }
+
+  // 2. Check runtime event digests, so the replayed payloads can be trusted
+  const runtimeEvents = tcbInfo.event_log.filter((entry) => entry.event_type === DSTACK_RUNTIME_EVENT_TYPE);
+  const mismatched = runtimeEvents.filter(
+    (entry) => normalizeHex(entry.digest) !== computeRuntimeEventDigest(entry)
+  );
+  checks.push({
+    name: 'Runtime Event Digests',
+    passed: mismatched.length === 0,
+    message: mismatched.length === 0
+      ? `${runtimeEvents.length} runtime events verified`
+      : `Digest mismatch for events: ${mismatched.map((entry) => entry.event).join(', ')}`,
+  });
+
+  // 3. Check the compose hash event against the compose file
+  const expectedComposeHash = getComposeHashFromEventLog(tcbInfo.event_log);
+  if (!expectedComposeHash) {
+    checks.push({ name: 'Compose Hash', passed: false, message: `No ${COMPOSE_HASH_EVENT} event in event log` });
+  } else if (!attestation.compose_file) {
+    checks.push({
+      name: 'Compose Hash',
+      passed: false,
+      expected: expectedComposeHash,
+      message: 'No compose file in attestation report',
+    });
+  } else {
+    const actual = computeComposeHash(attestation.compose_file);
+    checks.push({ name: 'Compose Hash', passed: expectedComposeHash === actual, expected: expectedComposeHash, actual });
+  }
+
+  return {
+    passed: checks.every((check) => check.passed),
+    checks,
+  };
+}
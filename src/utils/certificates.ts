@@ -0,0 +1,228 @@
+import { X509Certificate } from 'node:crypto';
+import type { CvmAttestationResponse } from '@/src/api/types';
+
+type AppCertificate = NonNullable<CvmAttestationResponse['app_certificates']>[number];
+type CertificateName = AppCertificate['subject'];
+
+/**
+ * Certificate of the chain, with its raw PEM when available (the attestation API does not return it)
+ */
+export type ChainCertificate = AppCertificate & { pem?: string };
+
+/**
+ * Outcome of a single certificate check
+ */
+export type CertificateCheckStatus = 'pass' | 'fail' | 'skip';
+
+/**
+ * Validation result for one certificate of the chain
+ */
+export interface CertificateValidationResult {
+  position_in_chain: number;
+  subject: string;
+  passed: boolean;
+  linkage: CertificateCheckStatus;
+  signature: CertificateCheckStatus;
+  validity: CertificateCheckStatus;
+  san: CertificateCheckStatus;
+  errors: string[];
+}
+
+/**
+ * Validation result for the whole chain
+ */
+export interface CertificateChainValidationResult {
+  passed: boolean;
+  certificates: CertificateValidationResult[];
+}
+
+/**
+ * Options for chain validation
+ */
+export interface CertificateChainValidationOptions {
+  now?: Date;
+  // Hostnames the end-entity certificate must cover (SAN check is skipped if empty)
+  hostnames?: string[];
+}
+
+/**
+ * Extracts the hostnames of the public URLs reported by getCvmNetwork
+ * @param publicUrls Public URLs of the CVM
+ * @returns Unique hostnames
+ */
+export function hostnamesFromPublicUrls(publicUrls: Array<{ app?: string; instance?: string }>): string[] {
+  const hostnames = new Set<string>();
+  for (const entry of publicUrls) {
+    for (const url of [entry.app, entry.instance]) {
+      if (!url) continue;
+      try {
+        hostnames.add(new URL(url.includes('://') ? url : `https://${url}`).hostname);
+      } catch {
+        // Ignore malformed URLs, they cannot be matched against SANs anyway
+      }
+    }
+  }
+  return [...hostnames];
+}
+
+const NAME_FIELDS = ['common_name', 'organization', 'country', 'state', 'locality'] as const;
+
+const sameName = (a: CertificateName, b: CertificateName): boolean =>
+  NAME_FIELDS.every((field) => (a[field] ?? null) === (b[field] ?? null));
+
+const formatName = (name: CertificateName): string =>
+  NAME_FIELDS.filter((field) => name[field]).map((field) => name[field]).join(', ') || 'Unknown';
+
+/**
+ * Checks whether a certificate is valid at the given time, according to its not_before/not_after dates
+ * @param certificate Certificate from the attestation response
+ * @param now Reference time
+ * @returns Whether both dates parse and the time is within them
+ */
+export function isWithinValidityWindow(certificate: Pick<AppCertificate, 'not_before' | 'not_after'>, now: Date): boolean {
+  const notBefore = new Date(certificate.not_before).getTime();
+  const notAfter = new Date(certificate.not_after).getTime();
+  return !Number.isNaN(notBefore) && !Number.isNaN(notAfter) && now.getTime() >= notBefore && now.getTime() <= notAfter;
+}
+
+/**
+ * Extracts the DNS names of a SAN string, e.g. "DNS:app.example.com, DNS:*.app.example.com"
+ * @param sans SANs as reported by the attestation API
+ * @returns DNS names in lower case
+ */
+export function parseSanDnsNames(sans: string | null): string[] {
+  if (!sans) {
+    return [];
+  }
+  return sans
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry && (!entry.includes(':') || entry.startsWith('DNS:')))
+    .map((entry) => entry.replace(/^DNS:/, '').toLowerCase());
+}
+
+// A wildcard only covers a single label, e.g. *.example.com covers app.example.com but not a.b.example.com
+const sanCoversHost = (name: string, hostname: string): boolean => {
+  const host = hostname.toLowerCase();
+  if (name.startsWith('*.')) {
+    const suffix = name.slice(1);
+    return host.endsWith(suffix) && !host.slice(0, -suffix.length).includes('.') && host.length > suffix.length;
+  }
+  return name === host;
+};
+
+/**
+ * Validates the app certificate chain ordered by position_in_chain: issuer/subject
+ * linkage with the next certificate, which must be a CA, validity windows and SAN
+ * coverage of the end-entity certificate. The certificate details of the attestation
+ * API are enough for these checks; signatures are only verified when both the
+ * certificate and its issuer come with their PEM. An empty chain fails.
+ * @param certificates Certificates from the attestation response, with their PEM when available
+ * @param options Validation options
+ * @returns Per-certificate validation results
+ */
+export function validateCertificateChain(
+  certificates: ChainCertificate[],
+  options: CertificateChainValidationOptions = {}
+): CertificateChainValidationResult {
+  const now = options.now || new Date();
+  const hostnames = options.hostnames || [];
+  const ordered = [...certificates].sort((a, b) => a.position_in_chain - b.position_in_chain);
+
+  const parsed: Array<X509Certificate | Error | undefined> = ordered.map((cert) => {
+    if (!cert.pem) {
+      return undefined;
+    }
+    try {
+      return new X509Certificate(cert.pem);
+    } catch (error) {
+      return error instanceof Error ? error : new Error(String(error));
+    }
+  });
+
+  const results = ordered.map((cert, index): CertificateValidationResult => {
+    const result: CertificateValidationResult = {
+      position_in_chain: cert.position_in_chain,
+      subject: cert.subject.common_name || 'Unknown',
+      passed: false,
+      linkage: 'skip',
+      signature: 'skip',
+      validity: 'skip',
+      san: 'skip',
+      errors: [],
+    };
+
+    const x509 = parsed[index];
+    if (x509 instanceof Error) {
+      result.linkage = result.signature = result.validity = 'fail';
+      result.errors.push(x509.message);
+      return result;
+    }
+
+    // 1. Linkage with the issuer: the next certificate, or itself for a root
+    const next = ordered[index + 1];
+    if (next) {
+      if (!sameName(cert.issuer, next.subject)) {
+        result.linkage = 'fail';
+        result.errors.push(`Issuer "${formatName(cert.issuer)}" does not match subject of next certificate "${formatName(next.subject)}"`);
+      } else if (!next.is_ca) {
+        result.linkage = 'fail';
+        result.errors.push(`Issuer "${formatName(next.subject)}" is not a CA`);
+      } else {
+        result.linkage = 'pass';
+      }
+    } else if (sameName(cert.issuer, cert.subject)) {
+      result.linkage = 'pass';
+    } else {
+      result.linkage = 'fail';
+      result.errors.push(`Chain ends before its root: issuer "${formatName(cert.issuer)}" not included`);
+    }
+
+    // 2. Signature, only with the raw certificates
+    const issuer = next ? parsed[index + 1] : x509;
+    if (x509 && issuer instanceof X509Certificate) {
+      if (result.linkage === 'pass' && !x509.checkIssued(issuer)) {
+        result.linkage = 'fail';
+        result.errors.push(`Issuer "${x509.issuer.replace(/\n/g, ', ')}" does not match subject of next certificate "${issuer.subject.replace(/\n/g, ', ')}"`);
+      }
+      if (x509.verify(issuer.publicKey)) {
+        result.signature = 'pass';
+      } else {
+        result.signature = 'fail';
+        result.errors.push('Signature does not verify against the issuer public key');
+      }
+    } else if (next && parsed[index + 1] instanceof Error) {
+      result.errors.push(`Issuer certificate at position ${next.position_in_chain} could not be parsed`);
+      result.signature = 'fail';
+    }
+
+    // 3. Validity window
+    const validity = x509 ? { not_before: x509.validFrom, not_after: x509.validTo } : cert;
+    if (isWithinValidityWindow(validity, now)) {
+      result.validity = 'pass';
+    } else {
+      result.validity = 'fail';
+      result.errors.push(`Outside validity window ${validity.not_before || '?'} - ${validity.not_after || '?'}`);
+    }
+
+    // 4. SAN coverage for the end-entity certificate
+    if (index === 0 && hostnames.length > 0) {
+      const names = parseSanDnsNames(cert.sans);
+      const unmatched = hostnames.filter((hostname) =>
+        x509 ? !x509.checkHost(hostname) : !names.some((name) => sanCoversHost(name, hostname))
+      );
+      result.san = unmatched.length === 0 ? 'pass' : 'fail';
+      if (unmatched.length > 0) {
+        result.errors.push(`SAN does not cover: ${unmatched.join(', ')}`);
+      }
+    }
+
+    result.passed = [result.linkage, result.signature, result.validity, result.san].every((status) => status !== 'fail');
+    return result;
+  });
+
+  return {
+    passed: results.length > 0 && results.every((result) => result.passed),
+    certificates: results,
+  };
+}
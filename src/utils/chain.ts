@@ -0,0 +1,158 @@
+// Function selectors of the DstackApp contract (first 4 bytes of the keccak256 of the signature)
+export const DSTACK_APP_SELECTORS = {
+  // owner()
+  owner: '0x8da5cb5b',
+  // allowedComposeHashes(bytes32)
+  allowedComposeHashes: '0x2f6622e5',
+  // addComposeHash(bytes32)
+  addComposeHash: '0xdfc77223',
+} as const;
+
+// Time a single RPC request may take by default, in ms
+export const RPC_TIMEOUT_MS = 15_000;
+
+export type Hex = `0x${string}`;
+
+/**
+ * On-chain state of a DstackApp contract relevant for a deployment
+ */
+export interface DstackAppStatus {
+  address: Hex;
+  owner: Hex;
+  composeHashAllowed: boolean;
+}
+
+/**
+ * Validates and normalizes a contract address or app ID
+ * @param value Address, with or without 0x prefix
+ * @returns Lowercase 0x-prefixed address
+ * @throws If the value is not a 20 byte hex string
+ */
+export function normalizeAddress(value: string): Hex {
+  const hex = value.trim().toLowerCase().replace(/^0x/, '');
+  if (!/^[0-9a-f]{40}$/.test(hex)) {
+    throw new Error(`Invalid address '${value}', expected 20 bytes of hex`);
+  }
+  return `0x${hex}`;
+}
+
+/**
+ * Validates and normalizes a 32 byte hash, e.g. a compose hash
+ * @param value Hash, with or without 0x prefix
+ * @returns Lowercase 0x-prefixed hash
+ * @throws If the value is not a 32 byte hex string
+ */
+export function normalizeBytes32(value: string): Hex {
+  const hex = value.trim().toLowerCase().replace(/^0x/, '');
+  if (!/^[0-9a-f]{64}$/.test(hex)) {
+    throw new Error(`Invalid hash '${value}', expected 32 bytes of hex`);
+  }
+  return `0x${hex}`;
+}
+
+/**
+ * Encodes a call of addComposeHash on a DstackApp contract, to be signed and sent by its owner
+ * @param composeHash Compose hash to allow
+ * @returns ABI encoded call
+ */
+export function encodeAddComposeHash(composeHash: string): Hex {
+  return `${DSTACK_APP_SELECTORS.addComposeHash}${normalizeBytes32(composeHash).slice(2)}`;
+}
+
+/**
+ * Gets the default RPC URLs of a chain as described by the KMS list
+ * @param chain Chain of the KMS (viem chain object)
+ * @returns The default HTTP RPC URLs, empty if unknown
+ */
+export function getChainRpcUrls(chain: unknown): string[] {
+  const rpcUrls = (chain as { rpcUrls?: { default?: { http?: string[] } } } | undefined)?.rpcUrls;
+  return rpcUrls?.default?.http ?? [];
+}
+
+/**
+ * Gets the symbol of the native currency of a chain as described by the KMS list
+ * @param chain Chain of the KMS (viem chain object)
+ * @returns The symbol, ETH if unknown
+ */
+export function getNativeCurrencySymbol(chain: unknown): string {
+  return (chain as { nativeCurrency?: { symbol?: string } } | undefined)?.nativeCurrency?.symbol ?? 'ETH';
+}
+
+/**
+ * Gets the default RPC URL of a chain as described by the KMS list
+ * @param chain Chain of the KMS (viem chain object)
+ * @returns The first default HTTP RPC URL, if any
+ */
+export function getChainRpcUrl(chain: unknown): string | undefined {
+  return getChainRpcUrls(chain)[0];
+}
+
+/**
+ * Sends a JSON-RPC request to an Ethereum node
+ * @param rpcUrl RPC URL
+ * @param method RPC method
+ * @param params RPC parameters
+ * @param timeout Time the request may take, in ms
+ * @returns The result of the call
+ * @throws If the request fails or the node answers with an error
+ */
+export async function rpcRequest<T = unknown>(rpcUrl: string, method: string, params: unknown[], timeout = RPC_TIMEOUT_MS): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(rpcUrl, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: AbortSignal.timeout(timeout),
+    });
+  } catch (error) {
+    throw new Error(`RPC request ${method} to ${rpcUrl} failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!response.ok) {
+    throw new Error(`RPC request ${method} to ${rpcUrl} failed: HTTP ${response.status}`);
+  }
+  const body = await response.json() as { result?: T; error?: { message?: string } };
+  if (body.error) {
+    throw new Error(`RPC request ${method} failed: ${body.error.message ?? JSON.stringify(body.error)}`);
+  }
+  return body.result as T;
+}
+
+/**
+ * Calls a read-only contract function
+ * @param rpcUrl RPC URL
+ * @param to Contract address
+ * @param data ABI encoded call
+ * @returns ABI encoded result
+ */
+export async function ethCall(rpcUrl: string, to: Hex, data: Hex): Promise<Hex> {
+  return rpcRequest<Hex>(rpcUrl, 'eth_call', [{ to, data }, 'latest']);
+}
+
+/**
+ * Checks the DstackApp contract of a custom app ID: that it exists, who owns it and
+ * whether the compose hash is allowed on it
+ * @param rpcUrl RPC URL of the chain of the KMS
+ * @param appId App ID, the address of the DstackApp contract
+ * @param composeHash Compose hash of the deployment
+ * @returns The status of the contract
+ * @throws If there is no contract at the address
+ */
+export async function getDstackAppStatus(rpcUrl: string, appId: string, composeHash: string): Promise<DstackAppStatus> {
+  const address = normalizeAddress(appId);
+  const code = await rpcRequest<string>(rpcUrl, 'eth_getCode', [address, 'latest']);
+  if (!code || code === '0x') {
+    throw new Error(`No contract found at ${address}, check the app ID and the chain of the KMS`);
+  }
+  const hash = normalizeBytes32(composeHash).slice(2);
+  const [owner, allowed] = await Promise.all([
+    ethCall(rpcUrl, address, DSTACK_APP_SELECTORS.owner),
+    ethCall(rpcUrl, address, `${DSTACK_APP_SELECTORS.allowedComposeHashes}${hash}`),
+  ]);
+  return {
+    address,
+    // Addresses are returned as the last 20 bytes of a 32 byte word
+    owner: `0x${owner.slice(-40).toLowerCase()}`,
+    composeHashAllowed: BigInt(allowed) !== 0n,
+  };
+}
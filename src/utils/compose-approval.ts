@@ -0,0 +1,166 @@
+import fs from 'fs-extra';
+import path from 'node:path';
+import { z } from 'zod';
+import { encodeAddComposeHash, normalizeAddress, normalizeBytes32, type Hex } from './chain';
+import { formatZodIssues } from './types';
+
+export const COMPOSE_APPROVAL_VERSION = 1;
+export const APPROVAL_FORMATS = ['json', 'safe'] as const;
+
+export type ApprovalFormat = typeof APPROVAL_FORMATS[number];
+
+// Update of a CVM with an on-chain KMS waiting for its compose hash to be added to the
+// DstackApp contract, e.g. by a multisig owner
+export const pendingApprovalSchema = z.object({
+  version: z.literal(COMPOSE_APPROVAL_VERSION),
+  environment: z.string().optional(),
+  prepared_at: z.string(),
+  cvm_uuid: z.string(),
+  app_id: z.string(),
+  chain_id: z.number(),
+  compose_hash: z.string(),
+  // Provision request of the update, provisioned again once the compose hash is approved
+  app_compose: z.object({
+    docker_compose_file: z.string(),
+    allowed_envs: z.array(z.string()).optional(),
+    pre_launch_script: z.string().optional(),
+  }).passthrough(),
+  rollback_of: z.number().int().positive().optional(),
+});
+
+export type PendingApproval = z.infer<typeof pendingApprovalSchema>;
+
+/**
+ * Unsigned addComposeHash transaction for the owner of a DstackApp contract
+ */
+export interface ComposeHashApproval {
+  chain_id: number;
+  to: Hex;
+  value: '0';
+  data: Hex;
+  function: 'addComposeHash(bytes32)';
+  compose_hash: Hex;
+  cvm_uuid: string;
+}
+
+/**
+ * Builds the unsigned addComposeHash transaction of an update
+ * @param pending Update waiting for approval
+ * @returns The transaction
+ */
+export function buildComposeHashApproval(pending: PendingApproval): ComposeHashApproval {
+  return {
+    chain_id: pending.chain_id,
+    to: normalizeAddress(pending.app_id),
+    value: '0',
+    data: encodeAddComposeHash(pending.compose_hash),
+    function: 'addComposeHash(bytes32)',
+    compose_hash: normalizeBytes32(pending.compose_hash),
+    cvm_uuid: pending.cvm_uuid,
+  };
+}
+
+/**
+ * Builds a batch file for the Safe{Wallet} Transaction Builder from an approval
+ * @param approval Unsigned transaction
+ * @param createdAt Creation time of the batch
+ * @returns The batch, to be imported in the Transaction Builder of the owning Safe
+ */
+export function buildSafeTransactionBatch(approval: ComposeHashApproval, createdAt = new Date()) {
+  return {
+    version: '1.0',
+    chainId: String(approval.chain_id),
+    createdAt: createdAt.getTime(),
+    meta: {
+      name: `Allow compose hash ${approval.compose_hash}`,
+      description: `Allows the compose hash of the update of CVM ${approval.cvm_uuid} on DstackApp ${approval.to}`,
+    },
+    transactions: [
+      {
+        to: approval.to,
+        value: approval.value,
+        data: approval.data,
+        contractMethod: {
+          inputs: [{ internalType: 'bytes32', name: 'composeHash', type: 'bytes32' }],
+          name: 'addComposeHash',
+          payable: false,
+        },
+        contractInputsValues: { composeHash: approval.compose_hash },
+      },
+    ],
+  };
+}
+
+/**
+ * Formats an approval for the owner of the DstackApp contract
+ * @param approval Unsigned transaction
+ * @param format json for the plain transaction, safe for a Safe Transaction Builder batch
+ * @returns JSON text
+ */
+export function formatComposeHashApproval(approval: ComposeHashApproval, format: ApprovalFormat): string {
+  const output = format === 'safe' ? buildSafeTransactionBatch(approval) : approval;
+  return `${JSON.stringify(output, null, 2)}\n`;
+}
+
+/**
+ * Validates the --approval-format option
+ * @param format Option value
+ * @returns The format, json by default
+ * @throws If the format is unknown
+ */
+export function parseApprovalFormat(format?: string): ApprovalFormat {
+  if (format === undefined) {
+    return 'json';
+  }
+  if (!(APPROVAL_FORMATS as readonly string[]).includes(format)) {
+    throw new Error(`Invalid approval format '${format}', expected one of: ${APPROVAL_FORMATS.join(', ')}`);
+  }
+  return format as ApprovalFormat;
+}
+
+/**
+ * Gets the path of the pending approval file of an environment
+ * @param environment Deployment environment, the project default if unset
+ * @returns Path in the .phala directory of the working directory
+ */
+export function getPendingApprovalPath(environment?: string): string {
+  const file = environment ? `pending-approval.${environment}.json` : 'pending-approval.json';
+  return path.join(process.cwd(), '.phala', file);
+}
+
+/**
+ * Loads the update waiting for approval
+ * @param environment Deployment environment
+ * @returns The pending update, or undefined if there is none
+ * @throws If the file is invalid
+ */
+export function loadPendingApproval(environment?: string): PendingApproval | undefined {
+  const approvalPath = getPendingApprovalPath(environment);
+  if (!fs.pathExistsSync(approvalPath)) {
+    return undefined;
+  }
+  const result = pendingApprovalSchema.safeParse(fs.readJsonSync(approvalPath));
+  if (!result.success) {
+    throw new Error(`Invalid pending approval file ${approvalPath}: ${formatZodIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Saves an update waiting for approval, replacing any previous one of the environment
+ * @param pending Update to save
+ * @returns The saved update
+ */
+export function savePendingApproval(pending: Omit<PendingApproval, 'version' | 'prepared_at'>): PendingApproval {
+  const saved: PendingApproval = { ...pending, version: COMPOSE_APPROVAL_VERSION, prepared_at: new Date().toISOString() };
+  fs.outputJsonSync(getPendingApprovalPath(pending.environment), saved, { spaces: 2 });
+  return saved;
+}
+
+/**
+ * Removes the pending approval once the update is committed
+ * @param environment Deployment environment
+ */
+export function clearPendingApproval(environment?: string): void {
+  fs.removeSync(getPendingApprovalPath(environment));
+}
@@ -0,0 +1,96 @@
+import YAML from 'yaml';
+import { findComposeVariables } from './compose-lint';
+
+/**
+ * Differences between the variables of a compose file and the env keys of a deployment
+ */
+export interface ComposeEnvReport {
+  // Referenced without a default, but not in the env keys: empty in the CVM
+  undefined_variables: string[];
+  // In the env keys, but never referenced: encrypted and sent for nothing
+  unused_keys: string[];
+  // Allowed by the CVM, but not in the new env keys: no longer available after the update
+  removed_keys: string[];
+}
+
+/**
+ * Finds the keys a compose file passes to containers without interpolating them,
+ * e.g. `- API_KEY` or `API_KEY:` under environment
+ * @param compose Parsed compose file
+ * @returns The keys
+ */
+export function findPassthroughEnvKeys(compose: unknown): string[] {
+  const services = (compose as { services?: Record<string, { environment?: unknown } | null> } | null)?.services;
+  const keys = new Set<string>();
+  for (const service of Object.values(services && typeof services === 'object' ? services : {})) {
+    const environment = service?.environment;
+    if (Array.isArray(environment)) {
+      for (const entry of environment) {
+        if (typeof entry === 'string' && !entry.includes('=')) {
+          keys.add(entry.trim());
+        }
+      }
+    } else if (environment && typeof environment === 'object') {
+      for (const [key, value] of Object.entries(environment)) {
+        if (value === null) {
+          keys.add(key);
+        }
+      }
+    }
+  }
+  return [...keys];
+}
+
+/**
+ * Compares the variables referenced by a compose file with the env keys of a deployment
+ * @param composeYaml Docker Compose file content
+ * @param envKeys Keys of the env vars the CVM gets: the env file, or the allowed env keys that are kept
+ * @param currentAllowedEnvs Allowed env keys of the CVM before an update with a new env file
+ * @returns The differences, empty lists if the compose file cannot be parsed
+ */
+export function checkComposeEnv(composeYaml: string, envKeys: string[], currentAllowedEnvs: string[] = []): ComposeEnvReport {
+  let compose: unknown;
+  try {
+    compose = YAML.parse(composeYaml);
+  } catch {
+    // Reported by the compose linter
+    return { undefined_variables: [], unused_keys: [], removed_keys: [] };
+  }
+  const variables = findComposeVariables(compose);
+  const referenced = new Set([...variables.map((variable) => variable.name), ...findPassthroughEnvKeys(compose)]);
+  return {
+    undefined_variables: variables
+      .filter((variable) => !variable.optional && !envKeys.includes(variable.name))
+      .map((variable) => variable.name),
+    unused_keys: envKeys.filter((key) => !referenced.has(key)),
+    removed_keys: currentAllowedEnvs.filter((key) => !envKeys.includes(key)),
+  };
+}
+
+/**
+ * Tells whether a report has any difference
+ * @param report Compose env report
+ * @returns True if a list is not empty
+ */
+export function hasComposeEnvIssues(report: ComposeEnvReport): boolean {
+  return report.undefined_variables.length + report.unused_keys.length + report.removed_keys.length > 0;
+}
+
+/**
+ * Formats the differences of a report for display
+ * @param report Compose env report
+ * @returns One line per kind of difference
+ */
+export function formatComposeEnvReport(report: ComposeEnvReport): string[] {
+  const lines: string[] = [];
+  if (report.undefined_variables.length > 0) {
+    lines.push(`Undefined variables, empty in the CVM: ${report.undefined_variables.join(', ')}`);
+  }
+  if (report.unused_keys.length > 0) {
+    lines.push(`Env keys not referenced by the compose file: ${report.unused_keys.join(', ')}`);
+  }
+  if (report.removed_keys.length > 0) {
+    lines.push(`Env keys removed from the CVM by this update: ${report.removed_keys.join(', ')}`);
+  }
+  return lines;
+}
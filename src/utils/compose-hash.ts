@@ -0,0 +1,142 @@
+import path from 'node:path';
+import { computeComposeHash, normalizeHex } from './attestation';
+
+// Version of the app compose format written by the provision step
+export const APP_COMPOSE_MANIFEST_VERSION = 2;
+
+// Legacy feature names, still read by older dstack images alongside the flags
+const KMS_FEATURE = 'kms';
+const GATEWAY_FEATURE = 'tproxy-net';
+
+/**
+ * Inputs of an app compose, with the defaults of the provision step for unset flags
+ */
+export interface AppComposeOptions {
+  name: string;
+  dockerComposeFile: string;
+  allowedEnvs?: string[];
+  preLaunchScript?: string;
+  // Default true
+  kmsEnabled?: boolean;
+  // Default true
+  gatewayEnabled?: boolean;
+  // Default true
+  publicLogs?: boolean;
+  // Default true
+  publicSysinfo?: boolean;
+  // Default false
+  localKeyProviderEnabled?: boolean;
+  // Default false
+  noInstanceId?: boolean;
+  // Default false
+  secureTime?: boolean;
+}
+
+/**
+ * App compose, the CVM configuration measured by its compose hash
+ */
+export interface AppCompose {
+  manifest_version: number;
+  name: string;
+  runner: 'docker-compose';
+  docker_compose_file: string;
+  allowed_envs: string[];
+  features: string[];
+  kms_enabled: boolean;
+  gateway_enabled: boolean;
+  public_logs: boolean;
+  public_sysinfo: boolean;
+  local_key_provider_enabled: boolean;
+  no_instance_id: boolean;
+  secure_time: boolean;
+  pre_launch_script?: string;
+}
+
+/**
+ * Gets the CVM name used when none is given: the name of the directory, made valid
+ * @param dir Project directory
+ * @returns A name of 3 to 20 letters, digits, underscores and hyphens
+ */
+export function getDefaultCvmName(dir = process.cwd()): string {
+  let folderName = path.basename(dir).toLowerCase().replace(/[^a-z0-9_-]/g, '-');
+  // Ensure folder name is at least 3 characters by appending 'cvm' if needed
+  if (folderName.length < 3) {
+    folderName = `${folderName}-cvm`;
+  }
+  return folderName.slice(0, 20);
+}
+
+/**
+ * Builds the app compose of a deployment the same way the provision step does
+ * @param options Compose file, name, allowed env keys and flags
+ * @returns The app compose
+ */
+export function buildAppCompose(options: AppComposeOptions): AppCompose {
+  const kmsEnabled = options.kmsEnabled ?? true;
+  const gatewayEnabled = options.gatewayEnabled ?? true;
+  return {
+    manifest_version: APP_COMPOSE_MANIFEST_VERSION,
+    name: options.name,
+    runner: 'docker-compose',
+    docker_compose_file: options.dockerComposeFile,
+    allowed_envs: options.allowedEnvs ?? [],
+    features: [...(kmsEnabled ? [KMS_FEATURE] : []), ...(gatewayEnabled ? [GATEWAY_FEATURE] : [])],
+    kms_enabled: kmsEnabled,
+    gateway_enabled: gatewayEnabled,
+    public_logs: options.publicLogs ?? true,
+    public_sysinfo: options.publicSysinfo ?? true,
+    local_key_provider_enabled: options.localKeyProviderEnabled ?? false,
+    no_instance_id: options.noInstanceId ?? false,
+    secure_time: options.secureTime ?? false,
+    // An empty script is the same as no script
+    ...(options.preLaunchScript ? { pre_launch_script: options.preLaunchScript } : {}),
+  };
+}
+
+/**
+ * Recursively sorts the keys of objects, keeping the order of arrays
+ * @param value JSON value
+ * @returns The value with sorted keys
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Serializes an app compose to its canonical JSON: sorted keys and no whitespace,
+ * the app-compose.json file measured by dstack
+ * @param appCompose App compose, built locally or returned by the API
+ * @returns Canonical JSON text
+ */
+export function canonicalizeAppCompose(appCompose: object): string {
+  return JSON.stringify(sortKeys(appCompose));
+}
+
+/**
+ * Computes the compose hash of an app compose: the SHA-256 of its canonical JSON
+ * @param appCompose App compose
+ * @returns Hex encoded compose hash, without 0x prefix
+ */
+export function computeAppComposeHash(appCompose: object): string {
+  return computeComposeHash(canonicalizeAppCompose(appCompose));
+}
+
+/**
+ * Compares two compose hashes, ignoring case and 0x prefixes
+ * @param a Compose hash
+ * @param b Compose hash
+ * @returns True if they are the same hash
+ */
+export function composeHashesEqual(a: string, b: string): boolean {
+  return normalizeHex(a) === normalizeHex(b);
+}
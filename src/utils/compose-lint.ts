@@ -0,0 +1,283 @@
+import fs from 'fs-extra';
+import YAML from 'yaml';
+
+// Compose files looked up in the working directory when none is given
+export const COMPOSE_FILES = ['docker-compose.yml', 'docker-compose.yaml'];
+
+// Socket of the guest agent: tappd until dstack 0.5, dstack from then on
+export const TAPPD_SOCKET = '/var/run/tappd.sock';
+export const DSTACK_SOCKET = '/var/run/dstack.sock';
+const DSTACK_SOCKET_MIN_VERSION = [0, 5];
+
+// Host addresses a published port listens on by default
+const ANY_HOST_IPS = ['0.0.0.0', '::', '[::]'];
+
+export type ComposeLintRule =
+  | 'invalid-yaml'
+  | 'dstack-socket'
+  | 'unpinned-image'
+  | 'build'
+  | 'host-port'
+  | 'env-file'
+  | 'undefined-variable';
+
+/**
+ * Pitfall found in a compose file
+ */
+export interface ComposeLintIssue {
+  rule: ComposeLintRule;
+  service?: string;
+  message: string;
+}
+
+/**
+ * What the compose file is checked against
+ */
+export interface ComposeLintOptions {
+  // Keys of the env file sent with the deployment, variables are not checked without it
+  envKeys?: string[];
+  // dstack OS image of the CVM, e.g. dstack-0.3.6, the guest agent socket is not checked without it
+  dstackImage?: string;
+}
+
+/**
+ * Variable interpolated by Docker Compose
+ */
+export interface ComposeVariable {
+  name: string;
+  // ${VAR:-default}, ${VAR-default}, ${VAR:+alt} and ${VAR+alt} do not need the variable to be set
+  optional: boolean;
+}
+
+type ComposeService = {
+  image?: unknown;
+  build?: unknown;
+  ports?: unknown;
+  volumes?: unknown;
+  env_file?: unknown;
+};
+
+// $$ escapes a dollar sign, otherwise ${NAME[modifier]} or $NAME
+const VARIABLE_PATTERN = /\$(?:\$|\{([A-Za-z_][A-Za-z0-9_]*)(:?[-+?=])?[^}]*\}|([A-Za-z_][A-Za-z0-9_]*))/g;
+
+/**
+ * Collects the string values of a parsed YAML document, recursively
+ * @param value YAML value
+ * @returns The strings, in document order
+ */
+function collectStrings(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectStrings);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+}
+
+/**
+ * Resolves the compose file given on the command line, or found in the working directory
+ * @param composePath Path given on the command line
+ * @returns The path of an existing compose file
+ * @throws If there is no such file
+ */
+export function resolveComposePath(composePath?: string): string {
+  const resolved = composePath ?? COMPOSE_FILES.find((file) => fs.existsSync(file));
+  if (!resolved || !fs.existsSync(resolved)) {
+    throw new Error(`Docker compose file not found: ${resolved ?? COMPOSE_FILES.join(' or ')}`);
+  }
+  return resolved;
+}
+
+/**
+ * Finds the variables interpolated in a compose file, ignoring $$ escapes
+ * @param compose Parsed compose file
+ * @returns Each variable once, required if any of its references is
+ */
+export function findComposeVariables(compose: unknown): ComposeVariable[] {
+  const variables = new Map<string, boolean>();
+  for (const text of collectStrings(compose)) {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      const name = match[1] ?? match[3];
+      if (name) {
+        const optional = match[2] !== undefined && /[-+]/.test(match[2]);
+        variables.set(name, (variables.get(name) ?? true) && optional);
+      }
+    }
+  }
+  return [...variables].map(([name, optional]) => ({ name, optional }));
+}
+
+/**
+ * Gets the version of a dstack OS image from its name
+ * @param image Image name, e.g. dstack-0.3.6 or dstack-dev-0.5.3
+ * @returns Major and minor version, undefined if the name has none
+ */
+export function parseDstackImageVersion(image: string): [number, number] | undefined {
+  const match = /(\d+)\.(\d+)/.exec(image);
+  return match ? [Number(match[1]), Number(match[2])] : undefined;
+}
+
+/**
+ * Gets the host paths of the bind mounts of a service
+ * @param volumes volumes of the service, in short or long syntax
+ * @returns Host paths
+ */
+function getBindSources(volumes: unknown): string[] {
+  if (!Array.isArray(volumes)) {
+    return [];
+  }
+  return volumes.flatMap((volume) => {
+    if (typeof volume === 'string') {
+      return [volume.split(':')[0]];
+    }
+    if (volume && typeof volume === 'object' && typeof volume.source === 'string') {
+      return [volume.source];
+    }
+    return [];
+  });
+}
+
+/**
+ * Gets the host IP of a published port
+ * @param port Port in short syntax ([ip:]host:container[/protocol]), or in long syntax
+ * @returns The host IP, undefined if none is given
+ */
+function getPortHostIp(port: unknown): string | undefined {
+  if (port && typeof port === 'object' && 'host_ip' in port) {
+    return String(port.host_ip);
+  }
+  if (typeof port !== 'string') {
+    return undefined;
+  }
+  const mapping = port.split('/')[0];
+  if (mapping.startsWith('[')) {
+    return mapping.slice(0, mapping.indexOf(']') + 1);
+  }
+  const parts = mapping.split(':');
+  return parts.length === 3 ? parts[0] : undefined;
+}
+
+/**
+ * Gets the paths of the env files of a service
+ * @param envFile env_file of the service: a path, or a list of paths or { path } entries
+ * @returns Paths
+ */
+function getEnvFilePaths(envFile: unknown): string[] {
+  return (Array.isArray(envFile) ? envFile : [envFile]).flatMap((entry) => {
+    if (typeof entry === 'string') {
+      return [entry];
+    }
+    if (entry && typeof entry === 'object' && typeof entry.path === 'string') {
+      return [entry.path];
+    }
+    return [];
+  });
+}
+
+/**
+ * Checks a service for the socket of the wrong guest agent
+ * @param name Service name
+ * @param service Service definition
+ * @param version Version of the dstack OS image
+ * @returns Issues found
+ */
+function lintSocket(name: string, service: ComposeService, version: [number, number]): ComposeLintIssue[] {
+  const [minMajor, minMinor] = DSTACK_SOCKET_MIN_VERSION;
+  const hasDstackSocket = version[0] > minMajor || (version[0] === minMajor && version[1] >= minMinor);
+  const [expected, unexpected] = hasDstackSocket ? [DSTACK_SOCKET, TAPPD_SOCKET] : [TAPPD_SOCKET, DSTACK_SOCKET];
+  if (!getBindSources(service.volumes).includes(unexpected)) {
+    return [];
+  }
+  // dstack 0.5 still serves the tappd socket for older SDKs, but not the other way around
+  const reason = hasDstackSocket ? 'the legacy socket of dstack before 0.5' : `which dstack ${version.join('.')} does not provide`;
+  return [{
+    rule: 'dstack-socket',
+    service: name,
+    message: `mounts ${unexpected}, ${reason}: mount ${expected} and use an SDK version for it`,
+  }];
+}
+
+/**
+ * Checks a compose file for pitfalls of running it in a CVM
+ * @param composeYaml Docker Compose file content
+ * @param options Env keys and dstack OS image of the deployment
+ * @returns Issues found, in service order
+ */
+export function lintCompose(composeYaml: string, options: ComposeLintOptions = {}): ComposeLintIssue[] {
+  let compose: { services?: Record<string, ComposeService | null> } | null;
+  try {
+    compose = YAML.parse(composeYaml);
+  } catch (error) {
+    return [{ rule: 'invalid-yaml', message: `Invalid YAML: ${error instanceof Error ? error.message : String(error)}` }];
+  }
+  if (!compose || typeof compose !== 'object' || !compose.services || typeof compose.services !== 'object') {
+    return [{ rule: 'invalid-yaml', message: 'No services defined' }];
+  }
+
+  const issues: ComposeLintIssue[] = [];
+  const version = options.dstackImage ? parseDstackImageVersion(options.dstackImage) : undefined;
+  for (const [name, service] of Object.entries(compose.services)) {
+    if (!service) {
+      continue;
+    }
+    if (version) {
+      issues.push(...lintSocket(name, service, version));
+    }
+    if (typeof service.image === 'string' && !service.image.includes('@sha256:')) {
+      issues.push({
+        rule: 'unpinned-image',
+        service: name,
+        message: `image ${service.image} is not pinned to a digest, so the compose hash does not fix what runs: use ${service.image.replace(/:[^/:]*$/, '')}@sha256:<digest>`,
+      });
+    }
+    if (service.build !== undefined) {
+      issues.push({
+        rule: 'build',
+        service: name,
+        message: 'has a build section, images cannot be built in the CVM: push the image to a registry and reference it',
+      });
+    }
+    for (const port of Array.isArray(service.ports) ? service.ports : []) {
+      const hostIp = getPortHostIp(port);
+      if (hostIp && !ANY_HOST_IPS.includes(hostIp)) {
+        issues.push({
+          rule: 'host-port',
+          service: name,
+          message: `port ${typeof port === 'string' ? port : JSON.stringify(port)} is bound to ${hostIp} of the CVM, which nothing outside can reach: publish it without a host IP, or drop it if only other services use it`,
+        });
+      }
+    }
+    for (const envFile of getEnvFilePaths(service.env_file)) {
+      issues.push({
+        rule: 'env-file',
+        service: name,
+        message: `env_file ${envFile} does not exist in the CVM: pass its variables with --env-file so they are encrypted`,
+      });
+    }
+  }
+
+  if (options.envKeys) {
+    for (const variable of findComposeVariables(compose)) {
+      if (!variable.optional && !options.envKeys.includes(variable.name)) {
+        issues.push({
+          rule: 'undefined-variable',
+          message: `\${${variable.name}} is not set by the env file, so it is empty in the CVM`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Formats an issue for display
+ * @param issue Lint issue
+ * @returns One line, prefixed with the service
+ */
+export function formatLintIssue(issue: ComposeLintIssue): string {
+  return issue.service ? `${issue.service}: ${issue.message}` : issue.message;
+}
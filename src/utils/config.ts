@@ -1,58 +1,179 @@
 import fs from 'fs-extra';
 import path from 'node:path';
-import os from 'node:os';
+import { z } from 'zod';
 import { logger } from './logger';
+import { getPhalaCloudDir } from './profiles';
+import { formatZodIssues } from './types';
+import { parseDiskSizeInput, parseMemoryInput } from './units';
+import { CLOUD_URL, DEFAULT_DISK_SIZE, DEFAULT_MEMORY, DEFAULT_VCPU } from './constants';
 
-// Define the directory and file for storing configuration
-const PHALA_CLOUD_DIR = path.join(os.homedir(), '.phala-cloud');
-const CONFIG_FILE = path.join(PHALA_CLOUD_DIR, 'config.json');
+const CONFIG_FILE = 'config.json';
+
+// Parses sizes with units, e.g. "4G" or 4096, into the unit of the parser
+const sizeSchema = (parse: (input: string) => number) =>
+  z.union([z.number(), z.string()]).transform((value, ctx) => {
+    try {
+      return parse(String(value));
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+      return z.NEVER;
+    }
+  });
+
+// RPC endpoints of a chain, tried in order until one answers with the expected chain ID
+export const rpcEndpointSchema = z.object({
+  urls: z.array(z.string().url()).min(1),
+  // Timeout of each RPC request in seconds
+  timeout: z.number().positive().optional(),
+}).strict();
+
+export type RpcEndpoint = z.infer<typeof rpcEndpointSchema>;
+
+// Schema of every known configuration key. Values given on the command line are strings,
+// so numbers are coerced and sizes accept units.
+export const configSchema = z.object({
+  apiUrl: z.string().url(),
+  cloudUrl: z.string().url(),
+  defaultTeepodId: z.coerce.number().int().positive().optional(),
+  // Unset, create uses DEFAULT_IMAGE and deploy the first image of the node
+  defaultImage: z.string().min(1).optional(),
+  defaultVcpu: z.coerce.number().int().positive(),
+  // Memory in MB
+  defaultMemory: sizeSchema(parseMemoryInput),
+  // Disk size in GB
+  defaultDiskSize: sizeSchema(parseDiskSizeInput),
+  // RPC endpoints of the chains of on-chain KMS by chain ID, given as JSON on the command line
+  rpcEndpoints: z.preprocess(
+    (value) => {
+      if (typeof value !== 'string') {
+        return value;
+      }
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    },
+    z.record(z.string().regex(/^\d+$/, 'Chain IDs must be numbers'), rpcEndpointSchema),
+  ).optional(),
+});
+
+export type PhalaConfig = z.infer<typeof configSchema>;
+export type ConfigKey = keyof PhalaConfig;
+
+export const CONFIG_KEYS = Object.keys(configSchema.shape) as ConfigKey[];
 
 // Default configuration
-const DEFAULT_CONFIG = {
-  apiUrl: 'https://cloud-api.phala.network',
-  cloudUrl: 'https://cloud.phala.network',
-  defaultTeepodId: 3,
-  defaultImage: 'dstack-dev-0.3.5',
-  defaultVcpu: 1,
-  defaultMemory: 2048,
-  defaultDiskSize: 20,
+const DEFAULT_CONFIG: PhalaConfig = {
+  apiUrl: 'https://cloud-api.phala.network/api/v1',
+  cloudUrl: CLOUD_URL,
+  defaultVcpu: DEFAULT_VCPU,
+  defaultMemory: DEFAULT_MEMORY,
+  defaultDiskSize: DEFAULT_DISK_SIZE,
 };
 
-// Ensure the .phala-cloud directory exists
-function ensureDirectoryExists(): void {
-  if (!fs.existsSync(PHALA_CLOUD_DIR)) {
+/**
+ * Returns the path of the global configuration file
+ */
+export function getConfigFilePath(): string {
+  return path.join(getPhalaCloudDir(), CONFIG_FILE);
+}
+
+/**
+ * Returns true if the key is a known configuration key
+ * @param key Key to check
+ */
+export function isConfigKey(key: string): key is ConfigKey {
+  return (CONFIG_KEYS as string[]).includes(key);
+}
+
+function assertConfigKey(key: string): asserts key is ConfigKey {
+  if (!isConfigKey(key)) {
+    throw new Error(`Unknown configuration key '${key}'. Known keys: ${CONFIG_KEYS.join(', ')}`);
+  }
+}
+
+/**
+ * Validates a single configuration value
+ * @param key Configuration key
+ * @param value Raw value, e.g. from the command line
+ * @returns The parsed value
+ */
+export function parseConfigValue<K extends ConfigKey>(key: K, value: unknown): PhalaConfig[K] {
+  const result = configSchema.shape[key].safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid value for '${key}': ${result.error.issues.map((issue) => issue.message).join('; ')}`);
+  }
+  return result.data as PhalaConfig[K];
+}
+
+/**
+ * Validates the content of a configuration file
+ * @param data Parsed JSON content
+ * @returns One message per invalid or unknown key, empty if the content is valid
+ */
+export function validateConfig(data: unknown): string[] {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return ['Configuration must be a JSON object'];
+  }
+  const errors: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (!isConfigKey(key)) {
+      errors.push(`Unknown configuration key '${key}'`);
+      continue;
+    }
     try {
-      fs.mkdirSync(PHALA_CLOUD_DIR, { recursive: true });
+      parseConfigValue(key, value);
     } catch (error) {
-      logger.error(`Failed to create directory ${PHALA_CLOUD_DIR}:`, error);
-      throw error;
+      errors.push(error instanceof Error ? error.message : String(error));
     }
   }
+  return errors;
+}
+
+// Read the values set by the user, without defaults
+function readConfigFile(): Record<string, unknown> {
+  const configFile = getConfigFilePath();
+  if (!fs.existsSync(configFile)) {
+    return {};
+  }
+  return fs.readJsonSync(configFile);
+}
+
+function writeConfigFile(config: Record<string, unknown>): void {
+  fs.ensureDirSync(getPhalaCloudDir());
+  fs.writeFileSync(
+    getConfigFilePath(),
+    JSON.stringify(config, null, 2),
+    { mode: 0o600 } // Restrict permissions to user only
+  );
 }
 
-// Load configuration
-export function loadConfig(): Record<string, any> {
+// Load configuration, ignoring invalid values so a bad entry does not break every command
+export function loadConfig(): PhalaConfig {
   try {
-    if (fs.existsSync(CONFIG_FILE)) {
-      const configData = fs.readFileSync(CONFIG_FILE, 'utf8');
-      return { ...DEFAULT_CONFIG, ...JSON.parse(configData) };
+    const config: Record<string, unknown> = { ...DEFAULT_CONFIG };
+    for (const [key, value] of Object.entries(readConfigFile())) {
+      if (!isConfigKey(key)) {
+        continue;
+      }
+      try {
+        config[key] = parseConfigValue(key, value);
+      } catch (error) {
+        logger.warn(`Ignoring configuration: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
-    return DEFAULT_CONFIG;
+    return config as PhalaConfig;
   } catch (error) {
     logger.error('Failed to load configuration:', error);
-    return DEFAULT_CONFIG;
+    return { ...DEFAULT_CONFIG };
   }
 }
 
 // Save configuration
-export function saveConfig(config: Record<string, any>): void {
-  ensureDirectoryExists();
+export function saveConfig(config: Partial<PhalaConfig>): void {
   try {
-    fs.writeFileSync(
-      CONFIG_FILE,
-      JSON.stringify({ ...loadConfig(), ...config }, null, 2),
-      { mode: 0o600 } // Restrict permissions to user only
-    );
+    writeConfigFile({ ...readConfigFile(), ...config });
     logger.success('Configuration saved successfully.');
   } catch (error) {
     logger.error('Failed to save configuration:', error);
@@ -61,23 +182,70 @@ export function saveConfig(config: Record<string, any>): void {
 }
 
 // Get a configuration value
-export function getConfigValue(key: string): any {
-  const config = loadConfig();
-  return config[key];
+export function getConfigValue<K extends ConfigKey>(key: K): PhalaConfig[K];
+export function getConfigValue(key: string): unknown;
+export function getConfigValue(key: string): unknown {
+  assertConfigKey(key);
+  return loadConfig()[key];
 }
 
-// Set a configuration value
-export function setConfigValue(key: string, value: any): void {
-  const config = loadConfig();
-  config[key] = value;
-  saveConfig(config);
+// Set a configuration value, returning the parsed value
+export function setConfigValue(key: string, value: unknown): unknown {
+  assertConfigKey(key);
+  const parsed = parseConfigValue(key, value);
+  saveConfig({ [key]: parsed });
+  return parsed;
+}
+
+// Remove a configuration value so its default applies again
+export function unsetConfigValue(key: string): boolean {
+  assertConfigKey(key);
+  const config = readConfigFile();
+  if (!(key in config)) {
+    return false;
+  }
+  delete config[key];
+  writeConfigFile(config);
+  return true;
+}
+
+// Remove all configuration values
+export function resetConfig(): void {
+  writeConfigFile({});
 }
 
 // List all configuration values
-export function listConfigValues(): Record<string, any> {
+export function listConfigValues(): PhalaConfig {
   return loadConfig();
 }
 
+/**
+ * Points the API client at apiUrl of the configuration,
+ * unless PHALA_CLOUD_API_PREFIX is set by the environment or the active profile
+ */
+export function applyConfigEnvironment(): void {
+  if (!process.env.PHALA_CLOUD_API_PREFIX) {
+    process.env.PHALA_CLOUD_API_PREFIX = loadConfig().apiUrl;
+  }
+}
+
+/**
+ * Returns the URL of the Phala Cloud dashboard: CLOUD_URL from the environment, then cloudUrl of the configuration
+ */
+export function getCloudUrl(): string {
+  return process.env.CLOUD_URL || loadConfig().cloudUrl;
+}
+
+/**
+ * Ensures the configuration file exists, e.g. before opening it in an editor
+ * @returns The path of the configuration file
+ */
+export function ensureConfigFile(): string {
+  if (!fs.existsSync(getConfigFilePath())) {
+    writeConfigFile({});
+  }
+  return getConfigFilePath();
+}
 
 import { join } from 'path';
 function getConfigPath(): string {
@@ -95,7 +263,9 @@ function ensureConfigExists(): void {
 }
 
 function readConfig(): Record<string, any> {
-  ensureConfigExists();
+  if (!fs.pathExistsSync(getConfigPath())) {
+    return {};
+  }
   return fs.readJsonSync(getConfigPath());
 }
 
@@ -104,13 +274,78 @@ function writeConfig(config: Record<string, any>): void {
   fs.writeJsonSync(getConfigPath(), config, { spaces: 2 });
 }
 
-export function saveCvmUuid(uuid: string): void {
+const ENVIRONMENT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+// Deployment environment schema: the CVM of the environment and overrides for its deployments
+export const deployEnvironmentSchema = z.object({
+  cvmUuid: z.string().min(1).optional(),
+  envFile: z.string().min(1).optional(),
+  vcpu: z.union([z.number().int().positive(), z.string().min(1)]).optional(),
+  memory: z.union([z.number().positive(), z.string().min(1)]).optional(),
+  diskSize: z.union([z.number().positive(), z.string().min(1)]).optional(),
+  nodeId: z.union([z.number().int().positive(), z.string().min(1)]).optional(),
+  image: z.string().min(1).optional(),
+  kmsId: z.string().min(1).optional(),
+}).strict();
+
+export type DeployEnvironment = z.infer<typeof deployEnvironmentSchema>;
+
+/**
+ * Returns the deployment environments of the project in the working directory
+ * @returns Environments by name, as configured in .phala/config
+ * @throws If an environment does not match the schema
+ */
+export function getDeployEnvironments(): Record<string, DeployEnvironment> {
+  const environments = readConfig().environments ?? {};
+  return Object.fromEntries(
+    Object.entries(environments).map(([name, value]) => {
+      const result = deployEnvironmentSchema.safeParse(value);
+      if (!result.success) {
+        throw new Error(`Invalid environment '${name}' in ${getConfigPath()}: ${formatZodIssues(result.error)}`);
+      }
+      return [name, result.data];
+    })
+  );
+}
+
+/**
+ * Returns a deployment environment of the project
+ * @param name Environment name, e.g. "staging"
+ * @returns The environment, or undefined if it is not configured yet
+ */
+export function getDeployEnvironment(name: string): DeployEnvironment | undefined {
+  if (!ENVIRONMENT_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid environment name '${name}': use letters, digits, "-" and "_"`);
+  }
+  return getDeployEnvironments()[name];
+}
+
+/**
+ * Records the CVM of the project, or of one of its environments
+ * @param uuid CVM UUID
+ * @param environment Environment name, the project default when omitted
+ */
+export function saveCvmUuid(uuid: string, environment?: string): void {
   const config = readConfig();
-  config.cvmUuid = uuid;
+  if (environment) {
+    getDeployEnvironment(environment);
+    config.environments = config.environments ?? {};
+    config.environments[environment] = { ...config.environments[environment], cvmUuid: uuid };
+  } else {
+    config.cvmUuid = uuid;
+  }
   writeConfig(config);
 }
 
-export function getCvmUuid(): string | undefined {
+/**
+ * Returns the CVM of the project, or of one of its environments
+ * @param environment Environment name, the project default when omitted
+ * @returns CVM UUID, or undefined if none was deployed yet
+ */
+export function getCvmUuid(environment?: string): string | undefined {
+  if (environment) {
+    return getDeployEnvironment(environment)?.cvmUuid;
+  }
   // Check environment variable first
   if (process.env.PHALA_CLOUD_CVM_UUID) {
     return process.env.PHALA_CLOUD_CVM_UUID;
@@ -118,4 +353,4 @@ export function getCvmUuid(): string | undefined {
   // Fall back to config file
   const config = readConfig();
   return config.cvmUuid;
-}
\ No newline at end of file
+}
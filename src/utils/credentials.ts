@@ -2,20 +2,30 @@ import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 import crypto from 'node:crypto';
+import { z } from 'zod';
 import { logger } from './logger';
+import { getProfileDir } from './profiles';
 
-// Define the directory and file for storing credentials
-const PHALA_CLOUD_DIR = path.join(os.homedir(), '.phala-cloud');
-const API_KEY_FILE = path.join(PHALA_CLOUD_DIR, 'api-key');
-const DOCKER_CREDENTIALS_FILE = path.join(PHALA_CLOUD_DIR, 'docker-credentials.json');
+// Credentials are stored per profile, the default profile uses ~/.phala-cloud
+const API_KEY_FILE = 'api-key';
+const DOCKER_CREDENTIALS_FILE = 'docker-credentials.json';
 
-// Ensure the .phala-cloud directory exists
+function getApiKeyFile(): string {
+  return path.join(getProfileDir(), API_KEY_FILE);
+}
+
+function getDockerCredentialsFile(): string {
+  return path.join(getProfileDir(), DOCKER_CREDENTIALS_FILE);
+}
+
+// Ensure the directory of the active profile exists
 function ensureDirectoryExists(): void {
-  if (!fs.existsSync(PHALA_CLOUD_DIR)) {
+  const dir = getProfileDir();
+  if (!fs.existsSync(dir)) {
     try {
-      fs.mkdirSync(PHALA_CLOUD_DIR, { recursive: true });
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
     } catch (error) {
-      logger.error(`Failed to create directory ${PHALA_CLOUD_DIR}:`, error);
+      logger.error(`Failed to create directory ${dir}:`, error);
       throw error;
     }
   }
@@ -38,56 +48,217 @@ function getMachineKey(): Buffer {
   return hash.digest();
 }
 
+// Versioned store format: the key is derived with scrypt from either the machine key or a
+// passphrase, and encrypted with AES-256-GCM so modifications are detected by the auth tag.
+// Files written before this format ("iv:ciphertext", AES-256-CBC) are migrated on first read.
+export const CREDENTIAL_FILE_VERSION = 2;
+export const PASSPHRASE_ENV = 'PHALA_CLOUD_PASSPHRASE';
+const MIN_PASSPHRASE_LENGTH = 8;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 };
+
+export type CredentialStoreMode = 'machine' | 'passphrase';
+
+const credentialFileSchema = z.object({
+  version: z.literal(CREDENTIAL_FILE_VERSION),
+  mode: z.enum(['machine', 'passphrase']),
+  kdf: z.literal('scrypt'),
+  kdfParams: z.object({ N: z.number().int().positive(), r: z.number().int().positive(), p: z.number().int().positive() }),
+  salt: z.string(),
+  iv: z.string(),
+  tag: z.string(),
+  ciphertext: z.string(),
+});
+
+type CredentialFile = z.infer<typeof credentialFileSchema>;
+
+/**
+ * State of the API key store of the active profile
+ */
+export interface CredentialStoreStatus {
+  exists: boolean;
+  // 'legacy' files use the machine key and are migrated on the next read
+  format?: 'legacy' | 'v2';
+  mode?: CredentialStoreMode;
+}
+
+// Passphrase for the current process, set after prompting so it is only asked once
+let sessionPassphrase: string | undefined;
+const derivedKeys = new Map<string, Buffer>();
+
+/**
+ * Sets the passphrase used to read and write a locked store in this process
+ * @param passphrase Passphrase of the store
+ */
+export function setCredentialPassphrase(passphrase: string | undefined): void {
+  sessionPassphrase = passphrase;
+}
+
+function getPassphrase(): string | undefined {
+  return sessionPassphrase ?? process.env[PASSPHRASE_ENV];
+}
+
+function validatePassphrase(passphrase: string): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+}
+
+function deriveKey(secret: string | Buffer, salt: Buffer, params: CredentialFile['kdfParams']): Buffer {
+  const cacheKey = crypto.createHash('sha256').update(secret).update(salt).update(JSON.stringify(params)).digest('hex');
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    key = crypto.scryptSync(secret, salt, 32, { ...params, maxmem: 256 * params.N * params.r });
+    derivedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+function getSecret(mode: CredentialStoreMode, passphrase?: string): Buffer | string {
+  if (mode === 'machine') {
+    return getMachineKey();
+  }
+  if (!passphrase) {
+    throw new Error(`Credential store is locked. Set ${PASSPHRASE_ENV} or run the command in an interactive terminal`);
+  }
+  return passphrase;
+}
+
 // Encrypt data
-function encrypt(text: string): string {
+function encrypt(text: string, mode: CredentialStoreMode, passphrase?: string): CredentialFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const key = deriveKey(getSecret(mode, passphrase), salt, SCRYPT_PARAMS);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+
+  return {
+    version: CREDENTIAL_FILE_VERSION,
+    mode,
+    kdf: 'scrypt',
+    kdfParams: SCRYPT_PARAMS,
+    salt: salt.toString('hex'),
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    ciphertext: ciphertext.toString('hex'),
+  };
+}
+
+// Decrypt data
+function decrypt(file: CredentialFile, passphrase?: string): string {
+  const key = deriveKey(getSecret(file.mode, passphrase), Buffer.from(file.salt, 'hex'), file.kdfParams);
   try {
-    const key = getMachineKey();
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv('aes-256-cbc', key.slice(0, 32), iv);
-    
-    let encrypted = cipher.update(text, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    // Return IV + encrypted data
-    return iv.toString('hex') + ':' + encrypted;
-  } catch (error) {
-    logger.error('Encryption failed:', error);
-    throw new Error('Failed to encrypt data');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(file.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(file.tag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(file.ciphertext, 'hex')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error(
+      file.mode === 'passphrase'
+        ? 'Wrong passphrase, or the credential file has been modified'
+        : 'Integrity check failed: the credential file has been modified or was created on another machine'
+    );
   }
 }
 
-// Decrypt data
-function decrypt(encryptedText: string): string {
+// Decrypt the AES-256-CBC format used before version 2
+function decryptLegacy(encryptedText: string): string {
+  const parts = encryptedText.split(':');
+  if (parts.length !== 2) {
+    throw new Error('Invalid encrypted format');
+  }
   try {
-    const key = getMachineKey();
-    const parts = encryptedText.split(':');
-    
-    if (parts.length !== 2) {
-      throw new Error('Invalid encrypted format');
-    }
-    
     const iv = Buffer.from(parts[0], 'hex');
-    const encrypted = parts[1];
-    
-    const decipher = crypto.createDecipheriv('aes-256-cbc', key.slice(0, 32), iv);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
+    const decipher = crypto.createDecipheriv('aes-256-cbc', getMachineKey().slice(0, 32), iv);
+
+    let decrypted = decipher.update(parts[1], 'hex', 'utf8');
     decrypted += decipher.final('utf8');
-    
+
     return decrypted;
-  } catch (error) {
-    logger.error('Decryption failed:', error);
-    throw new Error('Failed to decrypt data');
+  } catch {
+    throw new Error('Failed to decrypt the legacy credential file, it may have been created on another machine');
+  }
+}
+
+function isLegacyFormat(content: string): boolean {
+  return /^[0-9a-f]+:[0-9a-f]+$/i.test(content);
+}
+
+function parseCredentialFile(content: string): CredentialFile {
+  try {
+    return credentialFileSchema.parse(JSON.parse(content));
+  } catch {
+    throw new Error('Invalid credential file format');
+  }
+}
+
+function writeCredentialFile(file: CredentialFile): void {
+  ensureDirectoryExists();
+  // Restrict permissions to user only
+  fs.writeFileSync(getApiKeyFile(), JSON.stringify(file, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Reads the stored API key, migrating legacy files to the current format
+ */
+function readStoredApiKey(passphrase?: string): string | null {
+  const apiKeyFile = getApiKeyFile();
+  if (!fs.existsSync(apiKeyFile)) {
+    return null;
+  }
+  const content = fs.readFileSync(apiKeyFile, 'utf8').trim();
+  if (isLegacyFormat(content)) {
+    const apiKey = decryptLegacy(content);
+    writeCredentialFile(encrypt(apiKey, 'machine'));
+    logger.debug(`Migrated ${apiKeyFile} to credential format version ${CREDENTIAL_FILE_VERSION}`);
+    return apiKey;
+  }
+  return decrypt(parseCredentialFile(content), passphrase);
+}
+
+/**
+ * Returns the format and protection of the API key store of the active profile
+ */
+export function getCredentialStoreStatus(): CredentialStoreStatus {
+  const apiKeyFile = getApiKeyFile();
+  if (!fs.existsSync(apiKeyFile)) {
+    return { exists: false };
+  }
+  const content = fs.readFileSync(apiKeyFile, 'utf8').trim();
+  if (isLegacyFormat(content)) {
+    return { exists: true, format: 'legacy', mode: 'machine' };
+  }
+  return { exists: true, format: 'v2', mode: parseCredentialFile(content).mode };
+}
+
+/**
+ * Returns true if the API key of the active profile is protected by a passphrase
+ * that has not been provided yet
+ */
+export function needsCredentialPassphrase(): boolean {
+  if (process.env.PHALA_CLOUD_API_KEY || getPassphrase()) {
+    return false;
+  }
+  try {
+    return getCredentialStoreStatus().mode === 'passphrase';
+  } catch {
+    return false;
   }
 }
 
 // API Key Management
 export async function saveApiKey(apiKey: string): Promise<void> {
-  ensureDirectoryExists();
   try {
-    // Encrypt the API key before saving
-    const encryptedApiKey = encrypt(apiKey);
-    fs.writeFileSync(API_KEY_FILE, encryptedApiKey, { mode: 0o600 }); // Restrict permissions to user only
+    // Keep a locked store locked, the new key is written with its passphrase
+    const passphrase = getPassphrase();
+    let mode: CredentialStoreMode = 'machine';
+    if (fs.existsSync(getApiKeyFile()) && getCredentialStoreStatus().mode === 'passphrase') {
+      if (!passphrase) {
+        throw new Error(`The credential store is locked. Set ${PASSPHRASE_ENV}, or run "phala auth unlock" first`);
+      }
+      // A wrong passphrase would otherwise silently replace the one of the store
+      readStoredApiKey(passphrase);
+      mode = 'passphrase';
+    }
+    writeCredentialFile(encrypt(apiKey, mode, passphrase));
   } catch (error) {
     logger.error('Failed to save API key:', error);
     throw error;
@@ -99,22 +270,51 @@ export function getApiKey(): string | null {
     if (process.env.PHALA_CLOUD_API_KEY) {
       return process.env.PHALA_CLOUD_API_KEY;
     }
-    if (fs.existsSync(API_KEY_FILE)) {
-      const encryptedApiKey = fs.readFileSync(API_KEY_FILE, 'utf8').trim();
-      // Decrypt the API key
-      return decrypt(encryptedApiKey);
-    }
-    return null;
+    return readStoredApiKey(getPassphrase());
   } catch (error) {
-    logger.error('Failed to read API key:', error);
+    logger.error(`Failed to read API key: ${error instanceof Error ? error.message : String(error)}`);
     return null;
   }
 }
 
+/**
+ * Protects the stored API key with a passphrase
+ * @param passphrase New passphrase, at least 8 characters
+ */
+export async function lockCredentials(passphrase: string): Promise<void> {
+  validatePassphrase(passphrase);
+  const status = getCredentialStoreStatus();
+  if (!status.exists) {
+    throw new Error('No API key found. Please log in with "phala auth login" first');
+  }
+  if (status.mode === 'passphrase') {
+    throw new Error('The credential store is already locked');
+  }
+  const apiKey = readStoredApiKey();
+  writeCredentialFile(encrypt(apiKey as string, 'passphrase', passphrase));
+}
+
+/**
+ * Removes the passphrase protection, storing the API key with the machine key again
+ * @param passphrase Current passphrase
+ */
+export async function unlockCredentials(passphrase: string): Promise<void> {
+  const status = getCredentialStoreStatus();
+  if (!status.exists) {
+    throw new Error('No API key found');
+  }
+  if (status.mode !== 'passphrase') {
+    throw new Error('The credential store is not locked');
+  }
+  const apiKey = readStoredApiKey(passphrase);
+  writeCredentialFile(encrypt(apiKey as string, 'machine'));
+}
+
 export async function removeApiKey(): Promise<void> {
   try {
-    if (fs.existsSync(API_KEY_FILE)) {
-      fs.unlinkSync(API_KEY_FILE);
+    const apiKeyFile = getApiKeyFile();
+    if (fs.existsSync(apiKeyFile)) {
+      fs.unlinkSync(apiKeyFile);
       logger.success('API key removed successfully.');
     } else {
       logger.warn('No API key found to remove.');
@@ -136,7 +336,7 @@ export async function saveDockerCredentials(credentials: DockerCredentials): Pro
   try {
     
     fs.writeFileSync(
-      DOCKER_CREDENTIALS_FILE, 
+      getDockerCredentialsFile(),
       JSON.stringify(credentials, null, 2), 
       { mode: 0o600 } // Restrict permissions to user only
     );
@@ -149,8 +349,9 @@ export async function saveDockerCredentials(credentials: DockerCredentials): Pro
 
 export async function getDockerCredentials(): Promise<DockerCredentials | null> {
   try {
-    if (fs.existsSync(DOCKER_CREDENTIALS_FILE)) {
-      const data = fs.readFileSync(DOCKER_CREDENTIALS_FILE, 'utf8');
+    const dockerCredentialsFile = getDockerCredentialsFile();
+    if (fs.existsSync(dockerCredentialsFile)) {
+      const data = fs.readFileSync(dockerCredentialsFile, 'utf8');
       const credentials = JSON.parse(data) as DockerCredentials;
       
       return credentials;
@@ -164,8 +365,9 @@ export async function getDockerCredentials(): Promise<DockerCredentials | null>
 
 export async function removeDockerCredentials(): Promise<void> {
   try {
-    if (fs.existsSync(DOCKER_CREDENTIALS_FILE)) {
-      fs.unlinkSync(DOCKER_CREDENTIALS_FILE);
+    const dockerCredentialsFile = getDockerCredentialsFile();
+    if (fs.existsSync(dockerCredentialsFile)) {
+      fs.unlinkSync(dockerCredentialsFile);
       logger.success('Docker credentials removed successfully.');
     } else {
       logger.warn('No Docker credentials found to remove.');
@@ -1,5 +1,13 @@
-import { selectCvm, checkCvmExists } from "@/src/api/cvms";
+import { selectCvm, checkCvmExists, getCvmBootState, getCvmNetwork } from "@/src/api/cvms";
 import { logger } from "./logger";
+import {
+	formatBootState,
+	parseWaitTimeout,
+	probeHealth,
+	waitForCvmReady,
+	type CvmBootState,
+	type HealthCheckResult,
+} from "./wait";
 
 /**
  * Resolves a CVM App ID either by prompting the user to select one if none is provided,
@@ -21,4 +29,55 @@ export async function resolveCvmAppId(
 	}
 	// Verify the provided App ID exists
 	return await checkCvmExists(appId);
-}
\ No newline at end of file
+}
+
+/**
+ * Options of the commands that can wait for a CVM to become ready
+ */
+export interface CvmWaitCommandOptions {
+	wait?: boolean;
+	waitTimeout?: string;
+	healthPath?: string;
+}
+
+/**
+ * Waits for a CVM to become ready and optionally probes its health path.
+ * The timeout covers both the boot and the health check.
+ *
+ * @param appId App ID of the CVM
+ * @param options Command options, plus an explicit API key and a progress callback
+ * @returns Final boot state and the successful health check, if any
+ */
+export async function waitForCvm(
+	appId: string,
+	options: CvmWaitCommandOptions & {
+		apiKey?: string;
+		onProgress?: (message: string) => void;
+	},
+): Promise<{ state: CvmBootState; health?: HealthCheckResult }> {
+	const timeout = parseWaitTimeout(options.waitTimeout);
+	const report = options.onProgress ?? ((message: string) => logger.info(message));
+	const startedAt = Date.now();
+
+	report(`Waiting up to ${timeout}s for CVM app_${appId} to become ready...`);
+	const state = await waitForCvmReady(
+		() => getCvmBootState(appId, { apiKey: options.apiKey }),
+		{
+			timeout,
+			onProgress: (current) => report(formatBootState(current)),
+		},
+	);
+	if (!options.healthPath) {
+		return { state };
+	}
+
+	const network = await getCvmNetwork(appId, { apiKey: options.apiKey });
+	const urls = network.public_urls
+		.map((entry) => entry.app)
+		.filter(Boolean)
+		.map((url) => (url.includes("://") ? url : `https://${url}`));
+	report(`Probing ${options.healthPath} on ${urls.join(", ") || "(no public URLs)"}...`);
+	const remaining = Math.max(timeout - (Date.now() - startedAt) / 1000, 1);
+	const health = await probeHealth(urls, options.healthPath, { timeout: remaining });
+	return { state, health };
+}
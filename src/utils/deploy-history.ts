@@ -0,0 +1,157 @@
+import fs from 'fs-extra';
+import path from 'node:path';
+import { execaSync } from 'execa';
+import { z } from 'zod';
+import { formatZodIssues } from './types';
+
+// Deployment history entry: what was deployed to which CVM, and from which source revision.
+// A rollback restores its compose file, stored apart, its allowed env keys and its pre-launch script
+export const deployHistoryEntrySchema = z.object({
+  id: z.number().int().positive(),
+  cvm_uuid: z.string().min(1),
+  environment: z.string().optional(),
+  compose_hash: z.string().min(1),
+  allowed_envs: z.array(z.string()),
+  pre_launch_script: z.string().optional(),
+  deployed_at: z.string(),
+  git_commit: z.string().optional(),
+  git_dirty: z.boolean().optional(),
+  rollback_of: z.number().int().positive().optional(),
+});
+
+export type DeployHistoryEntry = z.infer<typeof deployHistoryEntrySchema>;
+
+/**
+ * A deployment to record in the history
+ */
+export interface DeploymentRecord {
+  cvmUuid: string;
+  environment?: string;
+  composeHash: string;
+  composeFile: string;
+  allowedEnvs: string[];
+  preLaunchScript?: string;
+  rollbackOf?: number;
+}
+
+/**
+ * Gets the directory of the deployment history of the project in the working directory
+ * @returns .phala/history in the working directory
+ */
+export function getHistoryDir(): string {
+  return path.join(process.cwd(), '.phala', 'history');
+}
+
+function getHistoryIndexPath(): string {
+  return path.join(getHistoryDir(), 'index.json');
+}
+
+// Compose files are stored by compose hash, so redeploying a version does not store it twice
+function getComposeFilePath(composeHash: string): string {
+  return path.join(getHistoryDir(), 'compose', `${composeHash.replace(/^0x/, '')}.yml`);
+}
+
+function readHistory(): DeployHistoryEntry[] {
+  const indexPath = getHistoryIndexPath();
+  if (!fs.pathExistsSync(indexPath)) {
+    return [];
+  }
+  const result = z.array(deployHistoryEntrySchema).safeParse(fs.readJsonSync(indexPath));
+  if (!result.success) {
+    throw new Error(`Invalid deployment history ${indexPath}: ${formatZodIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Gets the git revision of the working directory
+ * @returns The commit and whether there are uncommitted changes, or undefined outside a git repository
+ */
+export function getGitRevision(): { commit: string; dirty: boolean } | undefined {
+  const head = execaSync('git', ['rev-parse', 'HEAD'], { reject: false });
+  if (head.exitCode !== 0 || !head.stdout) {
+    return undefined;
+  }
+  const status = execaSync('git', ['status', '--porcelain'], { reject: false });
+  return { commit: head.stdout.trim(), dirty: status.exitCode === 0 && status.stdout.trim() !== '' };
+}
+
+/**
+ * Records a deployment in the history of the project
+ * @param record Deployment to record
+ * @returns The new history entry
+ */
+export function recordDeployment(record: DeploymentRecord): DeployHistoryEntry {
+  const history = readHistory();
+  const revision = getGitRevision();
+  const entry: DeployHistoryEntry = {
+    id: history.reduce((max, item) => Math.max(max, item.id), 0) + 1,
+    cvm_uuid: record.cvmUuid,
+    environment: record.environment,
+    compose_hash: record.composeHash,
+    allowed_envs: record.allowedEnvs,
+    // An empty script is the same as no script
+    pre_launch_script: record.preLaunchScript || undefined,
+    deployed_at: new Date().toISOString(),
+    git_commit: revision?.commit,
+    git_dirty: revision?.dirty,
+    rollback_of: record.rollbackOf,
+  };
+
+  const composePath = getComposeFilePath(record.composeHash);
+  if (!fs.pathExistsSync(composePath)) {
+    fs.outputFileSync(composePath, record.composeFile);
+  }
+  fs.outputJsonSync(getHistoryIndexPath(), [...history, entry], { spaces: 2 });
+  return entry;
+}
+
+/**
+ * Lists the recorded deployments, oldest first
+ * @param cvmUuid Only list the deployments of this CVM
+ * @returns History entries
+ */
+export function listDeployments(cvmUuid?: string): DeployHistoryEntry[] {
+  const history = readHistory();
+  return cvmUuid ? history.filter((entry) => entry.cvm_uuid === cvmUuid) : history;
+}
+
+/**
+ * Reads the compose file deployed by a history entry
+ * @param entry History entry
+ * @returns Docker compose file content
+ * @throws If the stored compose file is missing
+ */
+export function readDeploymentCompose(entry: DeployHistoryEntry): string {
+  const composePath = getComposeFilePath(entry.compose_hash);
+  if (!fs.pathExistsSync(composePath)) {
+    throw new Error(`Compose file of deployment #${entry.id} is missing: ${composePath}`);
+  }
+  return fs.readFileSync(composePath, 'utf8');
+}
+
+/**
+ * Picks the deployment to roll back to
+ * @param entries Deployments of the CVM, oldest first
+ * @param id History entry to roll back to, defaults to the latest deployment with a different compose hash than the current one
+ * @returns The history entry to roll back to
+ * @throws If there is no such deployment
+ */
+export function resolveRollbackTarget(entries: DeployHistoryEntry[], id?: number): DeployHistoryEntry {
+  if (entries.length === 0) {
+    throw new Error('No deployments recorded for this CVM yet');
+  }
+  if (id !== undefined) {
+    const entry = entries.find((item) => item.id === id);
+    if (!entry) {
+      throw new Error(`Deployment #${id} not found, recorded deployments: ${entries.map((item) => item.id).join(', ')}`);
+    }
+    return entry;
+  }
+  const current = entries[entries.length - 1];
+  const previous = [...entries].reverse().find((item) => item.compose_hash !== current.compose_hash);
+  if (!previous) {
+    throw new Error('No previous deployment with a different compose file to roll back to');
+  }
+  return previous;
+}
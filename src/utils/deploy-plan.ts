@@ -0,0 +1,100 @@
+import { createTwoFilesPatch } from 'diff';
+import chalk from 'chalk';
+
+/**
+ * Keys added to and removed from the allowed environment variables
+ */
+export interface AllowedEnvsDiff {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * A resource whose requested value differs from the current one
+ */
+export interface ResourceChange {
+  resource: 'vcpu' | 'memory' | 'disk_size' | 'image';
+  current: string | number | null;
+  requested: string | number;
+}
+
+export interface CvmResources {
+  vcpu?: number | null;
+  memory?: number | null;
+  disk_size?: number | null;
+  image?: string | null;
+}
+
+/**
+ * Creates a unified diff of two docker compose files
+ * @param current Compose file currently deployed
+ * @param next Compose file to deploy
+ * @returns Unified diff, empty if the files are identical
+ */
+export function diffComposeFile(current: string, next: string): string {
+  if (current === next) {
+    return '';
+  }
+  return createTwoFilesPatch('current/docker-compose.yml', 'new/docker-compose.yml', current, next, undefined, undefined, { context: 3 });
+}
+
+/**
+ * Creates a unified diff of two pre-launch scripts
+ * @param current Script currently deployed, empty if there is none
+ * @param next Script to deploy, empty if there is none
+ * @returns Unified diff, empty if the scripts are identical
+ */
+export function diffPreLaunchScript(current: string, next: string): string {
+  if (current === next) {
+    return '';
+  }
+  return createTwoFilesPatch('current/pre-launch.sh', 'new/pre-launch.sh', current, next, undefined, undefined, { context: 3 });
+}
+
+/**
+ * Compares the allowed environment variable keys of two app composes
+ * @param current Keys currently allowed
+ * @param next Keys to allow
+ * @returns Added and removed keys, sorted
+ */
+export function diffAllowedEnvs(current: string[] = [], next: string[] = []): AllowedEnvsDiff {
+  return {
+    added: next.filter((key) => !current.includes(key)).sort(),
+    removed: current.filter((key) => !next.includes(key)).sort(),
+  };
+}
+
+/**
+ * Lists the requested resources that differ from the current ones
+ * @param current Resources of the deployed CVM
+ * @param requested Requested resources, undefined values are not requested
+ * @returns One entry per changed resource
+ */
+export function diffResources(current: CvmResources, requested: CvmResources): ResourceChange[] {
+  const changes: ResourceChange[] = [];
+  for (const resource of ['vcpu', 'memory', 'disk_size', 'image'] as const) {
+    const value = requested[resource];
+    if (value !== undefined && value !== null && value !== current[resource]) {
+      changes.push({ resource, current: current[resource] ?? null, requested: value });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Colors the lines of a unified diff for terminal output
+ * @param patch Unified diff
+ * @returns Colored diff
+ */
+export function colorizeDiff(patch: string): string {
+  return patch
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      return line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,109 @@
+import fs from 'fs-extra';
+import path from 'node:path';
+import { z } from 'zod';
+import { formatZodIssues } from './types';
+
+export const DEPLOY_STATE_VERSION = 1;
+
+// Progress of a new CVM deployment, saved after each step so a failed deployment can be resumed
+export const deployStateSchema = z.object({
+  version: z.literal(DEPLOY_STATE_VERSION),
+  environment: z.string().optional(),
+  started_at: z.string(),
+  updated_at: z.string(),
+  // Provision request, the compose hash depends on it
+  app_compose: z.object({
+    name: z.string(),
+    compose_file: z.object({
+      docker_compose_file: z.string(),
+      allowed_envs: z.array(z.string()),
+      pre_launch_script: z.string().optional(),
+    }).passthrough(),
+  }).passthrough(),
+  node: z.object({
+    id: z.number(),
+    name: z.string().optional(),
+    device_id: z.string().optional(),
+  }),
+  kms: z.object({
+    slug: z.string(),
+    chain_id: z.number().nullable().optional(),
+    kms_contract_address: z.string().nullable().optional(),
+  }).nullable(),
+  provision: z.object({
+    app_id: z.string().nullable().optional(),
+    compose_hash: z.string(),
+    app_env_encrypt_pubkey: z.string().nullable().optional(),
+  }).passthrough(),
+  // Existing DstackApp contract to use instead of deploying one
+  custom_app_id: z.string().optional(),
+  // Set once the DstackApp contract is deployed, or the custom one is verified
+  contract: z.object({
+    app_id: z.string(),
+    app_auth_address: z.string(),
+    deployer: z.string(),
+  }).optional(),
+});
+
+export type DeployState = z.infer<typeof deployStateSchema>;
+
+/**
+ * Gets the path of the deploy state file of an environment
+ * @param environment Deployment environment, the project default if unset
+ * @returns Path in the .phala directory of the working directory
+ */
+export function getDeployStatePath(environment?: string): string {
+  const file = environment ? `deploy-state.${environment}.json` : 'deploy-state.json';
+  return path.join(process.cwd(), '.phala', file);
+}
+
+/**
+ * Loads the state of an unfinished deployment
+ * @param environment Deployment environment
+ * @returns The saved state, or undefined if there is no unfinished deployment
+ * @throws If the state file is invalid
+ */
+export function loadDeployState(environment?: string): DeployState | undefined {
+  const statePath = getDeployStatePath(environment);
+  if (!fs.pathExistsSync(statePath)) {
+    return undefined;
+  }
+  const result = deployStateSchema.safeParse(fs.readJsonSync(statePath));
+  if (!result.success) {
+    throw new Error(`Invalid deploy state file ${statePath}: ${formatZodIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Saves the state of a deployment after a step succeeded
+ * @param state State to save
+ * @returns The saved state
+ */
+export function saveDeployState(state: Omit<DeployState, 'version' | 'updated_at'>): DeployState {
+  const saved: DeployState = { ...state, version: DEPLOY_STATE_VERSION, updated_at: new Date().toISOString() };
+  fs.outputJsonSync(getDeployStatePath(state.environment), saved, { spaces: 2 });
+  return saved;
+}
+
+/**
+ * Removes the state of a deployment once it is committed
+ * @param environment Deployment environment
+ */
+export function clearDeployState(environment?: string): void {
+  fs.removeSync(getDeployStatePath(environment));
+}
+
+/**
+ * Describes the last successful step of a deployment
+ * @param state Deploy state
+ * @returns Human readable step
+ */
+export function describeDeployStep(state: DeployState): string {
+  if (state.contract) {
+    return state.custom_app_id
+      ? `DstackApp contract ${state.contract.app_auth_address} verified`
+      : `DstackApp contract ${state.contract.app_auth_address} deployed`;
+  }
+  return `CVM provisioned with compose hash ${state.provision.compose_hash}`;
+}
@@ -11,6 +11,7 @@ import os from 'node:os';
 import { validateFileExists } from './prompts';
 import { ComposeTemplateSchema } from './types';
 import { deleteSimulatorEndpointEnv, setSimulatorEndpointEnv } from './simulator';
+import { readEnvFile } from './secrets';
 const execAsync = promisify(exec);
 
 const LOGS_DIR = '.phala-cloud/logs';
@@ -300,39 +301,10 @@ export class DockerService {
       fs.mkdirSync(composePath, { recursive: true });
     }
 
-    let envVars: string[] = [];
-    
-    // Only parse env file if it's provided
-    if (envFile) {
-      // Parse env file to get variable names
-      const envContent = fs.readFileSync(envFile, 'utf-8');
-      envVars = envContent
-        .split('\n')
-        .filter(line => line && !line.startsWith('#'))
-        .map(line => {
-          // Remove inline comments
-          const commentIndex = line.indexOf('#');
-          if (commentIndex > 0) {
-            line = line.substring(0, commentIndex).trim();
-          }
-          return line.trim();
-        })
-        .filter(line => line.includes('='))
-        .map(line => {
-          const [key, value] = line.split('=', 2);
-          const trimmedKey = key.trim();
-          const trimmedValue = value ? value.trim() : '';
-
-          // Skip empty values
-          if (trimmedValue === '') {
-            return null;
-          }
-
-          // Keep the original key without any transformation
-          return `${trimmedKey}=${trimmedKey}`;  // Create KEY=KEY format
-        })
-        .filter(Boolean as unknown as ((value: string | null) => value is string)); // Remove null entries
-    }
+    // Only the names are used, the values stay in the env file; keys with empty values are skipped
+    const envKeys = envFile
+      ? readEnvFile(envFile).filter((env) => env.value !== '').map((env) => env.key)
+      : [];
 
     // Create full image name with username
     const fullImageName = imageName;
@@ -341,7 +313,7 @@ export class DockerService {
     const compiledTemplate = Handlebars.compile(validatedTemplate.template, { noEscape: true });
     const composeContent = compiledTemplate({
       imageName: fullImageName,
-      envVars: envVars.map(env => env.replace(/=.*/, `=\${${env.split('=')[0]}}`))
+      envVars: envKeys.map((key) => `${key}=\${${key}}`)
     });
 
     // Write the docker-compose file with standardized name in the compose directory
@@ -0,0 +1,140 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { scrypt } from '@noble/hashes/scrypt';
+import { keccak_256 } from '@noble/hashes/sha3';
+import { z } from 'zod';
+import type { Hex } from './chain';
+import { formatZodIssues } from './types';
+
+// Encrypted key file in the Web3 Secret Storage format (version 3), as written by geth, clef,
+// foundry (cast wallet) and most wallets
+const keystoreSchema = z.object({
+  version: z.literal(3),
+  address: z.string().optional(),
+  crypto: z.object({
+    cipher: z.literal('aes-128-ctr'),
+    ciphertext: z.string(),
+    cipherparams: z.object({ iv: z.string() }),
+    kdf: z.enum(['scrypt', 'pbkdf2']),
+    kdfparams: z.object({
+      dklen: z.number().int().min(32),
+      salt: z.string(),
+      // scrypt
+      n: z.number().int().positive().optional(),
+      r: z.number().int().positive().optional(),
+      p: z.number().int().positive().optional(),
+      // pbkdf2
+      c: z.number().int().positive().optional(),
+      prf: z.literal('hmac-sha256').optional(),
+    }),
+    mac: z.string(),
+  }),
+});
+
+export type Keystore = z.infer<typeof keystoreSchema>;
+
+/**
+ * Validates and normalizes a private key
+ * @param value Private key, with or without 0x prefix
+ * @returns Lowercase 0x-prefixed private key
+ * @throws If the value is not a 32 byte hex string, without echoing it
+ */
+export function normalizePrivateKey(value: string): Hex {
+  const hex = value.trim().toLowerCase().replace(/^0x/, '');
+  if (!/^[0-9a-f]{64}$/.test(hex)) {
+    throw new Error('Invalid private key, expected 32 bytes of hex');
+  }
+  return `0x${hex}`;
+}
+
+/**
+ * Gets the Ethereum address of a private key
+ * @param privateKey Private key
+ * @returns Lowercase 0x-prefixed address
+ */
+export function privateKeyToAddress(privateKey: Hex): Hex {
+  const publicKey = secp256k1.getPublicKey(privateKey.slice(2), false);
+  const hash = Buffer.from(keccak_256(publicKey.slice(1)));
+  return `0x${hash.subarray(-20).toString('hex')}`;
+}
+
+/**
+ * Reads a private key stored as hex in a file
+ * @param filePath Path of the key file
+ * @returns The private key
+ * @throws If the file cannot be read or does not contain a private key
+ */
+export function readKeyFile(filePath: string): Hex {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Key file ${filePath} not found`);
+  }
+  try {
+    return normalizePrivateKey(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Key file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Parses an encrypted keystore file
+ * @param content JSON content of the file
+ * @returns The keystore
+ * @throws If the content is not a version 3 keystore with a supported cipher and KDF
+ */
+export function parseKeystore(content: string): Keystore {
+  let json: Record<string, unknown>;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error('Invalid keystore, expected a JSON file');
+  }
+  // Some implementations capitalize the crypto section
+  const result = keystoreSchema.safeParse(json && 'Crypto' in json && !('crypto' in json) ? { ...json, crypto: json.Crypto } : json);
+  if (!result.success) {
+    throw new Error(`Invalid keystore, expected Web3 Secret Storage version 3: ${formatZodIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+function deriveKeystoreKey(keystore: Keystore, password: string): Buffer {
+  const { kdf, kdfparams } = keystore.crypto;
+  const salt = Buffer.from(kdfparams.salt, 'hex');
+  if (kdf === 'scrypt') {
+    const { n, r, p } = kdfparams;
+    if (!n || !r || !p) {
+      throw new Error('Invalid keystore, scrypt parameters n, r and p are required');
+    }
+    // Node's scrypt rejects N >= 2^(16 * r), which some wallets use with r = 1
+    return Buffer.from(scrypt(password.normalize('NFKC'), salt, { N: n, r, p, dkLen: kdfparams.dklen, maxmem: 2 ** 32 }));
+  }
+  if (!kdfparams.c) {
+    throw new Error('Invalid keystore, pbkdf2 parameter c is required');
+  }
+  return crypto.pbkdf2Sync(password.normalize('NFKC'), salt, kdfparams.c, kdfparams.dklen, 'sha256');
+}
+
+/**
+ * Decrypts the private key of a keystore
+ * @param keystore Keystore, see parseKeystore
+ * @param password Password of the keystore
+ * @returns The private key
+ * @throws If the password is wrong or the keystore has been modified
+ */
+export function decryptKeystore(keystore: Keystore, password: string): Hex {
+  const key = deriveKeystoreKey(keystore, password);
+  const ciphertext = Buffer.from(keystore.crypto.ciphertext, 'hex');
+  // The MAC proves the password is right before anything is decrypted
+  const mac = Buffer.from(keccak_256(Buffer.concat([key.subarray(16, 32), ciphertext])));
+  const expectedMac = Buffer.from(keystore.crypto.mac.replace(/^0x/, ''), 'hex');
+  if (mac.length !== expectedMac.length || !crypto.timingSafeEqual(mac, expectedMac)) {
+    throw new Error('Wrong keystore password, or the keystore has been modified');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-128-ctr', key.subarray(0, 16), Buffer.from(keystore.crypto.cipherparams.iv, 'hex'));
+  const privateKey = normalizePrivateKey(Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('hex'));
+  if (keystore.address && privateKeyToAddress(privateKey) !== `0x${keystore.address.toLowerCase().replace(/^0x/, '')}`) {
+    throw new Error(`Keystore key does not match its address ${keystore.address}`);
+  }
+  return privateKey;
+}
@@ -0,0 +1,147 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import YAML from 'yaml';
+import { z } from 'zod';
+import { formatZodIssues } from './types';
+
+// Manifest files looked up in the working directory, in order
+export const MANIFEST_FILES = ['phala.yaml', 'phala.yml'];
+
+// Sizes are either a number in the default unit or a string with a unit, e.g. "4G"
+const sizeSchema = z.union([z.number().positive(), z.string().min(1)]);
+
+// Project Manifest Schema
+export const projectManifestSchema = z.object({
+  name: z.string()
+    .min(3, 'CVM name must be at least 3 characters')
+    .max(20, 'CVM name must be less than 20 characters')
+    .regex(/^[a-zA-Z0-9_-]+$/, 'CVM name must contain only letters, numbers, underscores, and hyphens')
+    .optional(),
+  compose: z.string().min(1).optional(),
+  resources: z.object({
+    vcpu: z.number().int().positive().optional(),
+    // Default unit MB
+    memory: sizeSchema.optional(),
+    // Default unit GB
+    disk_size: sizeSchema.optional(),
+  }).strict().optional(),
+  image: z.string().min(1).optional(),
+  node: z.object({
+    id: z.number().int().positive().optional(),
+    // Preferred region, used when no node id is set
+    region: z.string().min(1).optional(),
+  }).strict().optional(),
+  kms: z.string().min(1).optional(),
+  env_file: z.string().min(1).optional(),
+  pre_launch_script: z.string().min(1).optional(),
+}).strict();
+
+export type ProjectManifest = z.infer<typeof projectManifestSchema>;
+
+/**
+ * Deploy options declared by a manifest, with paths resolved against the manifest directory
+ */
+export interface ManifestDeployOptions {
+  name?: string;
+  compose?: string;
+  vcpu?: string;
+  memory?: string;
+  diskSize?: string;
+  image?: string;
+  nodeId?: string;
+  region?: string;
+  kmsId?: string;
+  envFile?: string;
+  preLaunchScript?: string;
+}
+
+/**
+ * Finds the manifest of the project in a directory
+ * @param dir Directory to search, defaults to the working directory
+ * @returns Path to the manifest, or undefined if there is none
+ */
+export function findManifest(dir: string = process.cwd()): string | undefined {
+  return MANIFEST_FILES.map((file) => path.join(dir, file)).find((file) => fs.existsSync(file));
+}
+
+/**
+ * Loads and validates a project manifest
+ * @param manifestPath Path to the manifest
+ * @returns The validated manifest
+ * @throws If the file cannot be read or does not match the manifest schema
+ */
+export function loadManifest(manifestPath: string): ProjectManifest {
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Manifest file not found: ${manifestPath}`);
+  }
+  let data: unknown;
+  try {
+    data = YAML.parse(fs.readFileSync(manifestPath, 'utf8')) ?? {};
+  } catch (error) {
+    throw new Error(`Invalid manifest file ${manifestPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const result = projectManifestSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`Invalid manifest file ${manifestPath}: ${formatZodIssues(result.error)}`);
+  }
+  return result.data;
+}
+
+/**
+ * Maps a manifest to the options of `phala deploy`
+ * @param manifest Validated manifest
+ * @param baseDir Directory the relative paths of the manifest are resolved against
+ * @returns Options declared by the manifest, undefined values are not declared
+ */
+export function manifestToDeployOptions(manifest: ProjectManifest, baseDir: string): ManifestDeployOptions {
+  const resolve = (file?: string) => file && path.resolve(baseDir, file);
+  const asString = (value?: string | number) => value === undefined ? undefined : String(value);
+
+  return {
+    name: manifest.name,
+    compose: resolve(manifest.compose),
+    vcpu: asString(manifest.resources?.vcpu),
+    memory: asString(manifest.resources?.memory),
+    diskSize: asString(manifest.resources?.disk_size),
+    image: manifest.image,
+    nodeId: asString(manifest.node?.id),
+    region: manifest.node?.region,
+    kmsId: manifest.kms,
+    envFile: resolve(manifest.env_file),
+    preLaunchScript: resolve(manifest.pre_launch_script),
+  };
+}
+
+/**
+ * Fills the options that are still unset with declared values
+ * @param options Options given so far, e.g. from the command line
+ * @param declared Declared options, undefined values are skipped
+ * @returns The merged options
+ */
+export function mergeDeployOptions<T extends object>(options: T, declared: ManifestDeployOptions): T & ManifestDeployOptions {
+  const merged: Record<string, unknown> = { ...(options as Record<string, unknown>) };
+  for (const [key, value] of Object.entries(declared)) {
+    if (value !== undefined && merged[key] === undefined) {
+      merged[key] = value;
+    }
+  }
+  return merged as T & ManifestDeployOptions;
+}
+
+/**
+ * Fills the options that were not given on the command line from the project manifest
+ * @param options Options from the command line
+ * @param manifestPath Explicit manifest path, otherwise phala.yaml in the working directory is used if present
+ * @returns The merged options and the path of the manifest that was applied
+ */
+export function applyManifest<T extends object>(
+  options: T,
+  manifestPath?: string
+): { options: T & ManifestDeployOptions; manifestPath?: string } {
+  const resolvedPath = manifestPath ? path.resolve(manifestPath) : findManifest();
+  if (!resolvedPath) {
+    return { options: options as T & ManifestDeployOptions };
+  }
+  const declared = manifestToDeployOptions(loadManifest(resolvedPath), path.dirname(resolvedPath));
+  return { options: mergeDeployOptions(options, declared), manifestPath: resolvedPath };
+}
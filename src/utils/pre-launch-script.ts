@@ -0,0 +1,70 @@
+import fs from 'fs-extra';
+import { execaSync } from 'execa';
+
+// The script is embedded in the app compose, which is part of the CVM configuration
+export const MAX_PRE_LAUNCH_SCRIPT_SIZE = 64 * 1024;
+
+// Shells the script may declare; it runs in the dstack guest, which provides both
+const SUPPORTED_SHELLS = ['sh', 'bash'] as const;
+
+/**
+ * Gets the shell a script declares in its shebang
+ * @param script Script content
+ * @returns sh or bash, or undefined if the script has no shebang for a supported shell
+ */
+export function getScriptShell(script: string): typeof SUPPORTED_SHELLS[number] | undefined {
+  const shebang = script.split('\n', 1)[0];
+  // e.g. #!/bin/sh, #!/bin/bash -e or #!/usr/bin/env bash
+  const match = /^#!\s*(?:\/usr\/bin\/env\s+)?(?:\S*\/)?(\S+)/.exec(shebang);
+  return SUPPORTED_SHELLS.find((shell) => shell === match?.[1]);
+}
+
+/**
+ * Checks the syntax of a shell script without running it
+ * @param script Script content
+ * @param shell Shell to check the script with
+ * @returns The syntax errors reported by the shell, undefined if there are none
+ */
+export function checkShellSyntax(script: string, shell: string): string | undefined {
+  const result = execaSync(shell, ['-n'], { input: script, reject: false });
+  if (result.exitCode === 0) {
+    return undefined;
+  }
+  if ((result as { code?: string }).code === 'ENOENT') {
+    throw new Error(`Cannot check the syntax of the pre-launch script, ${shell} is not installed`);
+  }
+  return result.stderr.trim() || `${shell} -n exited with code ${result.exitCode}`;
+}
+
+/**
+ * Loads and validates a pre-launch script: its size, its shebang and its shell syntax
+ * @param scriptPath Path of the script
+ * @returns The script content
+ * @throws If the script is missing, too large, has no supported shebang or has syntax errors
+ */
+export function loadPreLaunchScript(scriptPath: string): string {
+  if (!fs.pathExistsSync(scriptPath)) {
+    throw new Error(`Pre-launch script ${scriptPath} not found`);
+  }
+  const { size } = fs.statSync(scriptPath);
+  if (size === 0) {
+    throw new Error(`Pre-launch script ${scriptPath} is empty`);
+  }
+  if (size > MAX_PRE_LAUNCH_SCRIPT_SIZE) {
+    throw new Error(`Pre-launch script ${scriptPath} is ${size} bytes, the limit is ${MAX_PRE_LAUNCH_SCRIPT_SIZE} bytes`);
+  }
+
+  const script = fs.readFileSync(scriptPath, 'utf8');
+  if (script.includes('\r\n')) {
+    throw new Error(`Pre-launch script ${scriptPath} has Windows line endings, convert them to LF`);
+  }
+  const shell = getScriptShell(script);
+  if (!shell) {
+    throw new Error(`Pre-launch script ${scriptPath} must start with a shebang for ${SUPPORTED_SHELLS.join(' or ')}, e.g. #!/bin/sh`);
+  }
+  const errors = checkShellSyntax(script, shell);
+  if (errors) {
+    throw new Error(`Pre-launch script ${scriptPath} has syntax errors:\n${errors}`);
+  }
+  return script;
+}
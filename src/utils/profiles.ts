@@ -0,0 +1,168 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+
+export const DEFAULT_PROFILE = 'default';
+
+const PROFILES_DIR = 'profiles';
+const CURRENT_PROFILE_FILE = 'current-profile';
+const PROFILE_SETTINGS_FILE = 'profile.json';
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+/**
+ * Settings stored with a profile, next to its API key and docker credentials
+ */
+export interface ProfileSettings {
+  apiPrefix?: string;
+  defaultNodeId?: number;
+  defaultKmsId?: string;
+}
+
+/**
+ * Summary of a profile, as shown by "phala auth list"
+ */
+export interface ProfileSummary extends ProfileSettings {
+  name: string;
+  active: boolean;
+  hasApiKey: boolean;
+}
+
+/**
+ * Returns the base directory of the CLI, ~/.phala-cloud unless PHALA_CLOUD_DIR is set
+ */
+export function getPhalaCloudDir(): string {
+  return process.env.PHALA_CLOUD_DIR || path.join(os.homedir(), '.phala-cloud');
+}
+
+/**
+ * Throws if the name cannot be used as a profile name
+ * @param name Profile name
+ */
+export function validateProfileName(name: string): void {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid profile name "${name}": use letters, digits, "-" and "_" (max 64 characters)`);
+  }
+}
+
+/**
+ * Returns the directory holding the files of a profile. The default profile
+ * uses the base directory, so credentials saved before profiles existed keep working.
+ * @param name Profile name, defaults to the active profile
+ */
+export function getProfileDir(name: string = getActiveProfile()): string {
+  if (name === DEFAULT_PROFILE) {
+    return getPhalaCloudDir();
+  }
+  validateProfileName(name);
+  return path.join(getPhalaCloudDir(), PROFILES_DIR, name);
+}
+
+/**
+ * Resolves the active profile: PHALA_PROFILE (also set by the global --profile flag),
+ * then the profile selected with "phala auth use", then the default profile
+ */
+export function getActiveProfile(): string {
+  const fromEnv = process.env.PHALA_PROFILE?.trim();
+  if (fromEnv) {
+    return fromEnv;
+  }
+  const currentFile = path.join(getPhalaCloudDir(), CURRENT_PROFILE_FILE);
+  if (fs.existsSync(currentFile)) {
+    const name = fs.readFileSync(currentFile, 'utf8').trim();
+    if (name) {
+      return name;
+    }
+  }
+  return DEFAULT_PROFILE;
+}
+
+/**
+ * Selects the profile used when neither --profile nor PHALA_PROFILE is set
+ * @param name Profile name
+ */
+export function setActiveProfile(name: string): void {
+  if (!profileExists(name)) {
+    throw new Error(`Profile "${name}" does not exist. Create it with "phala auth login --profile ${name}"`);
+  }
+  fs.mkdirSync(getPhalaCloudDir(), { recursive: true });
+  fs.writeFileSync(path.join(getPhalaCloudDir(), CURRENT_PROFILE_FILE), `${name}\n`);
+}
+
+/**
+ * Returns true if the profile has been created. The default profile always exists.
+ * @param name Profile name
+ */
+export function profileExists(name: string): boolean {
+  if (name === DEFAULT_PROFILE) {
+    return true;
+  }
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    return false;
+  }
+  return fs.existsSync(getProfileDir(name));
+}
+
+/**
+ * Lists the profiles, the default one first
+ */
+export function listProfiles(): ProfileSummary[] {
+  const profilesDir = path.join(getPhalaCloudDir(), PROFILES_DIR);
+  const names = fs.existsSync(profilesDir)
+    ? fs.readdirSync(profilesDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory() && PROFILE_NAME_PATTERN.test(entry.name) && entry.name !== DEFAULT_PROFILE)
+      .map((entry) => entry.name)
+      .sort()
+    : [];
+  const active = getActiveProfile();
+  return [DEFAULT_PROFILE, ...names].map((name) => ({
+    name,
+    active: name === active,
+    hasApiKey: fs.existsSync(path.join(getProfileDir(name), 'api-key')),
+    ...loadProfileSettings(name),
+  }));
+}
+
+/**
+ * Loads the settings of a profile
+ * @param name Profile name, defaults to the active profile
+ */
+export function loadProfileSettings(name: string = getActiveProfile()): ProfileSettings {
+  const settingsFile = path.join(getProfileDir(name), PROFILE_SETTINGS_FILE);
+  if (!fs.existsSync(settingsFile)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(settingsFile, 'utf8')) as ProfileSettings;
+  } catch {
+    throw new Error(`Invalid profile settings file: ${settingsFile}`);
+  }
+}
+
+/**
+ * Merges settings into a profile, creating the profile if needed.
+ * Undefined values are left unchanged.
+ * @param name Profile name
+ * @param settings Settings to store
+ */
+export function saveProfileSettings(name: string, settings: ProfileSettings): void {
+  const dir = getProfileDir(name);
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const merged: ProfileSettings = { ...loadProfileSettings(name) };
+  for (const [key, value] of Object.entries(settings)) {
+    if (value !== undefined) {
+      merged[key as keyof ProfileSettings] = value as never;
+    }
+  }
+  fs.writeFileSync(path.join(dir, PROFILE_SETTINGS_FILE), JSON.stringify(merged, null, 2), { mode: 0o600 });
+}
+
+/**
+ * Points the API client at the API prefix of the active profile,
+ * unless PHALA_CLOUD_API_PREFIX is already set in the environment
+ */
+export function applyProfileEnvironment(): void {
+  const { apiPrefix } = loadProfileSettings();
+  if (apiPrefix && !process.env.PHALA_CLOUD_API_PREFIX) {
+    process.env.PHALA_CLOUD_API_PREFIX = apiPrefix;
+  }
+}
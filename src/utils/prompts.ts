@@ -70,4 +70,37 @@ export function detectFileInCurrentDir(
     }
   }
   return undefined;
-}
\ No newline at end of file
+}
+/**
+ * Prompts for a passphrase without echoing it
+ * @param message The prompt message to display
+ * @param confirm Ask a second time and check that both entries match
+ * @returns The entered passphrase
+ */
+export async function promptForPassphrase(message: string, confirm = false): Promise<string> {
+  const { passphrase } = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message,
+      mask: '*',
+      validate: (input: string) => input.length > 0 ? true : 'Passphrase cannot be empty'
+    }
+  ]);
+
+  if (confirm) {
+    const { confirmation } = await inquirer.prompt([
+      {
+        type: 'password',
+        name: 'confirmation',
+        message: 'Repeat the passphrase:',
+        mask: '*'
+      }
+    ]);
+    if (confirmation !== passphrase) {
+      throw new Error('Passphrases do not match');
+    }
+  }
+
+  return passphrase;
+}
@@ -0,0 +1,186 @@
+import { RPC_TIMEOUT_MS, getChainRpcUrls, rpcRequest, type Hex } from './chain';
+import { loadConfig, parseConfigValue, saveConfig, type RpcEndpoint } from './config';
+
+// Gas used to deploy a DstackApp contract through the KMS contract. The SDK sends this
+// transaction itself, so the pre-flight check cannot estimate it and uses this upper bound.
+export const DEPLOY_APP_AUTH_GAS = 1_500_000n;
+// The gas price may rise before the transaction is mined, so the balance must cover this percentage of the estimate
+const GAS_PRICE_MARGIN_PERCENT = 120n;
+
+/**
+ * RPC endpoints to use for a chain, tried in order
+ */
+export interface ResolvedRpcEndpoints {
+  urls: string[];
+  // Timeout of each RPC request in ms
+  timeout: number;
+  // Where the URLs come from: --rpc-url, the configuration, or the chain of the KMS list
+  source: 'option' | 'config' | 'chain';
+}
+
+/**
+ * Result of the pre-flight check of a chain
+ */
+export interface ChainPreflight {
+  rpcUrl: string;
+  chainId: number;
+  account?: Hex;
+  balance?: bigint;
+  // Balance needed for the gas of the transaction
+  requiredBalance?: bigint;
+}
+
+/**
+ * Gets the RPC endpoints configured for a chain
+ * @param chainId Chain ID
+ * @returns The configured endpoints, if any
+ */
+export function getConfiguredRpcEndpoint(chainId: number): RpcEndpoint | undefined {
+  return loadConfig().rpcEndpoints?.[String(chainId)];
+}
+
+/**
+ * Lists the RPC endpoints configured for all chains
+ * @returns Endpoints by chain ID
+ */
+export function listConfiguredRpcEndpoints(): Record<string, RpcEndpoint> {
+  return loadConfig().rpcEndpoints ?? {};
+}
+
+/**
+ * Configures the RPC endpoints of a chain, replacing the previous ones
+ * @param chainId Chain ID
+ * @param urls RPC URLs, tried in order
+ * @param timeout Timeout of each RPC request in seconds
+ * @returns The saved endpoints
+ * @throws If a URL or the timeout is invalid
+ */
+export function setRpcEndpoint(chainId: number, urls: string[], timeout?: number): RpcEndpoint {
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new Error(`Invalid chain ID '${chainId}', expected a positive integer`);
+  }
+  const rpcEndpoints = parseConfigValue('rpcEndpoints', {
+    ...listConfiguredRpcEndpoints(),
+    [chainId]: timeout === undefined ? { urls } : { urls, timeout },
+  });
+  saveConfig({ rpcEndpoints });
+  return rpcEndpoints?.[String(chainId)] as RpcEndpoint;
+}
+
+/**
+ * Removes the RPC endpoints configured for a chain
+ * @param chainId Chain ID
+ * @returns False if none were configured
+ */
+export function unsetRpcEndpoint(chainId: number): boolean {
+  const { [String(chainId)]: removed, ...rpcEndpoints } = listConfiguredRpcEndpoints();
+  if (!removed) {
+    return false;
+  }
+  saveConfig({ rpcEndpoints });
+  return true;
+}
+
+/**
+ * Resolves the RPC endpoints of a chain: --rpc-url, then the configured endpoints, then the
+ * default RPC URLs of the chain in the KMS list
+ * @param chainId Chain ID
+ * @param options RPC URL given on the command line, and the chain of the KMS list
+ * @returns The endpoints, with no URLs if none are known
+ */
+export function resolveRpcEndpoints(chainId: number, options: { rpcUrl?: string; chain?: unknown } = {}): ResolvedRpcEndpoints {
+  const configured = getConfiguredRpcEndpoint(chainId);
+  const timeout = configured?.timeout ? configured.timeout * 1000 : RPC_TIMEOUT_MS;
+  if (options.rpcUrl) {
+    return { urls: [options.rpcUrl], timeout, source: 'option' };
+  }
+  if (configured) {
+    return { urls: configured.urls, timeout, source: 'config' };
+  }
+  return { urls: getChainRpcUrls(options.chain), timeout, source: 'chain' };
+}
+
+/**
+ * Picks the first RPC endpoint that answers with the expected chain ID
+ * @param endpoints Endpoints to try, in order
+ * @param chainId Expected chain ID
+ * @returns The RPC URL
+ * @throws If no endpoint answers with the expected chain ID, with the reason for each
+ */
+export async function selectRpcUrl(endpoints: ResolvedRpcEndpoints, chainId: number): Promise<string> {
+  if (endpoints.urls.length === 0) {
+    throw new Error(`No RPC URL known for chain ${chainId}, configure one with phala kms rpc set ${chainId} <url> or pass --rpc-url`);
+  }
+  const failures: string[] = [];
+  for (const url of endpoints.urls) {
+    try {
+      const reported = Number(BigInt(await rpcRequest<string>(url, 'eth_chainId', [], endpoints.timeout)));
+      if (reported === chainId) {
+        return url;
+      }
+      failures.push(`${url}: reports chain ${reported}`);
+    } catch (error) {
+      failures.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+  throw new Error(`No RPC endpoint of chain ${chainId} is usable:\n  ${failures.join('\n  ')}`);
+}
+
+/**
+ * Formats an amount of wei in the native currency
+ * @param wei Amount in wei
+ * @param symbol Symbol of the native currency
+ * @returns The amount with up to 6 decimals, e.g. "0.0123 ETH"
+ */
+export function formatEther(wei: bigint, symbol = 'ETH'): string {
+  const unit = 10n ** 18n;
+  const decimals = (wei % unit).toString().padStart(18, '0').slice(0, 6).replace(/0+$/, '');
+  return `${wei / unit}${decimals ? `.${decimals}` : ''} ${symbol}`;
+}
+
+/**
+ * Checks a chain before sending a transaction: that an RPC endpoint reports the expected chain
+ * ID, and that the sending account can pay for the gas
+ * @param options.chainId Expected chain ID
+ * @param options.endpoints RPC endpoints to try
+ * @param options.account Account sending the transaction, only the RPC is checked without it
+ * @param options.gas Gas of the transaction, if it cannot be estimated
+ * @param options.transaction Transaction to estimate the gas of
+ * @param options.symbol Symbol of the native currency
+ * @returns The RPC URL to send the transaction to, and the balance of the account
+ * @throws If no endpoint is usable, the transaction would fail, or the balance is too low
+ */
+export async function preflightChain(options: {
+  chainId: number;
+  endpoints: ResolvedRpcEndpoints;
+  account?: Hex;
+  gas?: bigint;
+  transaction?: { to: Hex; data: Hex };
+  symbol?: string;
+}): Promise<ChainPreflight> {
+  const { chainId, endpoints, account } = options;
+  const rpcUrl = await selectRpcUrl(endpoints, chainId);
+  if (!account) {
+    return { rpcUrl, chainId };
+  }
+
+  let gas = options.gas ?? 0n;
+  if (options.transaction) {
+    try {
+      gas = BigInt(await rpcRequest<string>(rpcUrl, 'eth_estimateGas', [{ from: account, ...options.transaction }], endpoints.timeout));
+    } catch (error) {
+      throw new Error(`The transaction from ${account} would fail, check that this account may send it: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  const [balance, gasPrice] = await Promise.all([
+    rpcRequest<string>(rpcUrl, 'eth_getBalance', [account, 'latest'], endpoints.timeout).then(BigInt),
+    rpcRequest<string>(rpcUrl, 'eth_gasPrice', [], endpoints.timeout).then(BigInt),
+  ]);
+  const requiredBalance = gas * gasPrice * GAS_PRICE_MARGIN_PERCENT / 100n;
+  if (balance < requiredBalance) {
+    throw new Error(
+      `Account ${account} has ${formatEther(balance, options.symbol)} on chain ${chainId}, the transaction needs about ${formatEther(requiredBalance, options.symbol)} for gas`
+    );
+  }
+  return { rpcUrl, chainId, account, balance, requiredBalance };
+}
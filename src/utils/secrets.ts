@@ -1,7 +1,169 @@
 import * as fs from 'node:fs';
 import type { EnvVar } from '@phala/cloud';
+import { logger } from './logger';
+
+// Env var names, dots and hyphens included as Docker Compose accepts them
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+const QUOTES = ['"', "'", '`'];
+// \$ is a literal dollar sign, otherwise ${NAME} or $NAME
+const EXPANSION_PATTERN = /\\\$|\$\{([A-Za-z_][A-Za-z0-9_]*)\}|\$([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Thrown when an env file cannot be parsed
+ */
+export class DotenvParseError extends Error {
+    readonly line: number;
+
+    constructor(message: string, line: number, source = 'env file') {
+        super(`${source}:${line}: ${message}`);
+        this.name = 'DotenvParseError';
+        this.line = line;
+    }
+}
+
+/**
+ * Options of the env file parser
+ */
+export interface DotenvOptions {
+    // Expand ${VAR} and $VAR in unquoted and double-quoted values, from earlier keys then the environment
+    expand?: boolean;
+    // Name of the file in errors and warnings
+    source?: string;
+    // Called for duplicate keys and undefined variables, logger.warn by default
+    onWarning?: (message: string) => void;
+}
+
+/**
+ * Finds the closing quote of a quoted value. In double quotes, characters escaped with a backslash
+ * are skipped. Single-quoted and backtick-quoted values are literal, they end at the first quote
+ * followed by the end of the line or a comment
+ * @param text Text after the opening quote
+ * @param quote Quote character
+ * @returns Index of the closing quote, -1 if there is none
+ */
+function findClosingQuote(text: string, quote: string): number {
+    for (let i = 0; i < text.length; i++) {
+        if (quote !== '"') {
+            if (text[i] === quote && /^\s*(#|$)/.test(text.slice(i + 1))) {
+                return i;
+            }
+        } else if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            return i;
+        }
+    }
+    return -1;
+}
+
+/**
+ * Parses the content of an env file: KEY=value lines with optional export prefixes, # comments,
+ * single, double or backtick quoted values, and double-quoted values spanning several lines
+ * @param content Env file content
+ * @param options Expansion, source name for messages and warning handler
+ * @returns The variables in file order, the last value winning for duplicate keys
+ * @throws DotenvParseError with the line number of the first invalid line
+ */
+export function parseDotenv(content: string, options: DotenvOptions = {}): EnvVar[] {
+    const source = options.source ?? 'env file';
+    const warn = options.onWarning ?? ((message: string) => logger.warn(message));
+    const values = new Map<string, string>();
+    const definedOn = new Map<string, number>();
+    const lines = content.split(/\r?\n/);
+
+    const expand = (value: string, lineNumber: number) => value.replace(EXPANSION_PATTERN, (match, braced, bare) => {
+        const name = braced ?? bare;
+        if (!name) {
+            return '$';
+        }
+        const expanded = values.get(name) ?? process.env[name];
+        if (expanded === undefined) {
+            warn(`${source}:${lineNumber}: ${match} is not defined, expanded to an empty value`);
+        }
+        return expanded ?? '';
+    });
+
+    for (let index = 0; index < lines.length; index++) {
+        const lineNumber = index + 1;
+        const line = lines[index].trim().replace(/^export\s+/, '');
+        if (!line || line.startsWith('#')) {
+            continue;
+        }
+
+        const delimiter = line.indexOf('=');
+        if (delimiter === -1) {
+            throw new DotenvParseError(`expected KEY=value, got '${line}'`, lineNumber, source);
+        }
+        const key = line.slice(0, delimiter).trim();
+        if (!KEY_PATTERN.test(key)) {
+            throw new DotenvParseError(`invalid key '${key}'`, lineNumber, source);
+        }
+
+        let rest = line.slice(delimiter + 1).trim();
+        let value: string;
+        const quote = rest.charAt(0);
+        if (QUOTES.includes(quote)) {
+            let closing = findClosingQuote(rest.slice(1), quote);
+            // Only double-quoted values may span several lines
+            while (closing === -1 && quote === '"' && index + 1 < lines.length) {
+                index++;
+                rest = `${rest}\n${lines[index]}`;
+                closing = findClosingQuote(rest.slice(1), quote);
+            }
+            if (closing === -1) {
+                throw new DotenvParseError(`unterminated ${quote} quoted value of ${key}`, lineNumber, source);
+            }
+            const trailing = rest.slice(closing + 2).trim();
+            if (trailing && !trailing.startsWith('#')) {
+                throw new DotenvParseError(`unexpected '${trailing}' after the quoted value of ${key}`, lineNumber, source);
+            }
+            value = rest.slice(1, closing + 1);
+            if (quote === '"') {
+                // In one pass, so an unescaped backslash never starts another escape: \n and, as before, \\n are
+                // newlines, \" and \\ are a quote and a backslash
+                value = value.replace(/\\\\n|\\(["\\n])/g, (_match, char?: string) => (char === undefined || char === 'n' ? '\n' : char));
+                value = options.expand ? expand(value, lineNumber) : value;
+            }
+        } else {
+            // # starts a comment at the beginning of the value or after whitespace
+            const comment = rest.search(/(^|\s)#/);
+            value = (comment === -1 ? rest : rest.slice(0, comment)).trim();
+            value = options.expand ? expand(value, lineNumber) : value;
+        }
+
+        const previous = definedOn.get(key);
+        if (previous !== undefined) {
+            warn(`${source}:${lineNumber}: ${key} is already set on line ${previous}, the last value is used`);
+        }
+        definedOn.set(key, lineNumber);
+        values.set(key, value);
+    }
 
-export const parseEnv = (envs: string[], envFile: string): EnvVar[] => {
+    return [...values].map(([key, value]) => ({ key, value }));
+}
+
+/**
+ * Reads and parses an env file
+ * @param envFile Path of the env file
+ * @param options Expansion and warning handler
+ * @returns The variables
+ * @throws If the file does not exist or cannot be parsed
+ */
+export function readEnvFile(envFile: string, options: Omit<DotenvOptions, 'source'> = {}): EnvVar[] {
+    if (!fs.existsSync(envFile)) {
+        throw new Error(`Environment file not found: ${envFile}`);
+    }
+    return parseDotenv(fs.readFileSync(envFile, 'utf8'), { ...options, source: envFile });
+}
+
+/**
+ * Merges KEY=value pairs given on the command line with the variables of an env file
+ * @param envs KEY=value pairs
+ * @param envFile Path of the env file, none if empty
+ * @param options Options of the env file parser
+ * @returns The variables, those of the env file winning
+ */
+export const parseEnv = (envs: string[], envFile: string, options: Omit<DotenvOptions, 'source'> = {}): EnvVar[] => {
     const envVars: Record<string, string> = {};
 
     // Process environment variables passed directly
@@ -18,154 +180,8 @@ export const parseEnv = (envs: string[], envFile: string): EnvVar[] => {
     }
 
     if (envFile) {
-        const envFileContent = fs.readFileSync(envFile, "utf8");
-        for (const line of envFileContent.split("\n")) {
-            // Skip empty lines
-            if (!line.trim()) {
-                continue;
-            }
-
-            // Skip comments
-            if (line.trim().startsWith('#')) {
-                continue;
-            }
-
-            // Find the first '=' that is not part of an inline comment
-            let delimiterIndex = -1;
-            let inQuotes = false;
-            let quoteChar = '';
-
-            for (let i = 0; i < line.length; i++) {
-                if ((line[i] === '"' || line[i] === "'" || line[i] === '`') && (i === 0 || line[i-1] !== '\\')) {
-                    if (inQuotes && line[i] === quoteChar) {
-                        inQuotes = false;
-                        quoteChar = '';
-                    } else if (!inQuotes) {
-                        inQuotes = true;
-                        quoteChar = line[i];
-                    }
-                } else if (line[i] === '=' && !inQuotes) {
-                    delimiterIndex = i;
-                    break;
-                } else if (line[i] === '#' && !inQuotes) {
-                    // If a comment starts before any '=', treat the whole line as a comment if no '=' found yet
-                    // Or, if '=' is found, this part is an inline comment.
-                    if (delimiterIndex === -1) { // No '=' encountered yet, so this is a full-line comment essentially or malformed
-                        // We already skip lines starting with #, this handles cases like "   #comment"
-                        // or "KEY #comment" (which is not a valid assignment according to rules)
-                        // However, the rule " # marks the beginning of a comment (unless when the value is wrapped in quotes)"
-                        // implies that "KEY=value #comment" is valid.
-                        // The current logic handles inline comments on the value side later.
-                        // If # appears before =, it's either a full comment (handled) or part of the key (unusual, but let it pass to split)
-                    }
-                    break; // Stop processing at the comment marker for the key or if it's an inline comment for the value
-                }
-            }
-
-
-            if (delimiterIndex === -1) {
-                 // Handles lines without '=' or lines that are effectively comments.
-                if (!line.trim().startsWith('#')) {
-                    // It's not a comment line, but has no '='.
-                    // According to "EMPTY= becomes {EMPTY: ''}", lines like "ONLYKEY" are not defined.
-                    // So we can skip them or treat as an error. Skipping for now.
-                }
-                continue;
-            }
-
-            const key = line.substring(0, delimiterIndex).trim();
-            let value = line.substring(delimiterIndex + 1);
-
-            // Remove inline comments from the value part
-            // A comment starts with ' #' (space followed by #)
-            // unless the # is within quotes.
-            let valueInQuotes = false;
-            let valueQuoteChar = '';
-            let commentStartIndex = -1;
-
-            for (let i = 0; i < value.length; i++) {
-                if ((value[i] === '"' || value[i] === "'" || value[i] === '`') && (i === 0 || value[i-1] !== '\\')) {
-                     if (valueInQuotes && value[i] === valueQuoteChar) {
-                        valueInQuotes = false;
-                        valueQuoteChar = '';
-                    } else if (!valueInQuotes) {
-                        valueInQuotes = true;
-                        valueQuoteChar = value[i];
-                    }
-                } else if (value[i] === '#' && !valueInQuotes && i > 0 && value[i-1] === ' ') {
-                    commentStartIndex = i -1; // Start of " #"
-                    break;
-                } else if (value[i] === '#' && !valueInQuotes && i === 0) { // Value starts directly with #
-                    commentStartIndex = i;
-                    break;
-                }
-            }
-
-            if (commentStartIndex !== -1) {
-                value = value.substring(0, commentStartIndex);
-            }
-
-
-            // Handle empty values: EMPTY= becomes {EMPTY: ''}
-            if (value === undefined) { // Should not happen if split correctly
-                value = '';
-            }
-
-
-            // Trim whitespace for unquoted values, preserve for quoted
-            const firstChar = value.charAt(0);
-            const lastChar = value.charAt(value.length - 1);
-
-            if ((firstChar === '"' && lastChar === '"') ||
-                (firstChar === "'" && lastChar === "'") ||
-                (firstChar === '`' && lastChar === '`')) {
-                // Quoted value, remove the outer quotes
-                value = value.substring(1, value.length - 1);
-
-                // Expand newlines for double-quoted values
-                if (firstChar === '"') {
-                    value = value.replace(/\\\\n/g, '\n');
-                }
-                // Unescape inner quotes for single and backtick quotes if they were escaped like \\' or \\`
-                // The rules state "inner quotes are maintained (think JSON)"
-                // and "single and double quoted values are escaped"
-                // This implies that within a string like SINGLE_QUOTE='value with \\' quote'
-                // the result should be "value with ' quote"
-                // For JSON example: JSON={"foo": "bar"} becomes {JSON:"{\"foo\": \"bar\"}"}
-                // This needs careful handling. The current approach of just slicing quotes might be too simple.
-                // Let's assume the provided examples are the source of truth.
-                // "JSON={"foo": "bar"}" -> JSON: "{\"foo\": \"bar\"}"
-                // This means the quotes *around* the JSON are stripped, but the inner quotes *within* the JSON string literal itself are preserved.
-                // The rule "single and double quoted values are escaped (SINGLE_QUOTE='quoted' becomes {SINGLE_QUOTE: "quoted"})"
-                // seems to imply that the outer quotes are removed, and the content becomes a JS string.
-                // The parsing engine should output a JS object, so values will be JS strings.
-                // SINGLE_QUOTE='quoted' -> {SINGLE_QUOTE: 'quoted'} (JS string)
-                // FOO="  some value  " -> {FOO: '  some value  '} (JS string)
-                // JSON={"foo": "bar"} -> {JSON: '{"foo": "bar"}'} (JS string)
-                // MULTILINE="new\\nline" -> {MULTILINE: 'new\\nline'} (JS string with literal \n)
-                // The rule says: MULTILINE="new\\nline" becomes {MULTILINE: 'new\nline'} (with actual newline)
-                // So, my previous .replace(/\\n/g, '\n') for double quotes is correct.
-
-                // For single quotes and backticks, the rules don't explicitly state escaped char handling other than `\\n` for double quotes.
-                // "inner quotes are maintained (think JSON)" - this is key for JSON={"foo": "bar"}
-                // Let's ensure that if a value is `'{"key": "value"}'`, it becomes `{"key": "value"}`.
-                // The current `substring(1, value.length - 1)` does this.
-                // Let's consider BACKTICK_KEY=`This has 'single' and "double" quotes inside of it.`
-                // This should become {BACKTICK_KEY: "This has 'single' and \"double\" quotes inside of it."}
-                // The current slicing handles this correctly. Escaped backticks like \` needs to be considered if they should be unescaped.
-                // The rules do not specify un-escaping for \\', \\", or \\` within their respective quotes.
-                // So, 'it\'s a test' would become "it\'s a test". If it should be "it's a test", then un-escaping is needed.
-                // Given "single and double quoted values are escaped", it seems like what's inside the quotes is the literal string value.
-                // Let's stick to the examples: SINGLE_QUOTE='quoted' becomes {SINGLE_QUOTE: "quoted"}. This means the value is 'quoted'.
-            } else {
-                // Unquoted value, trim whitespace
-                value = value.trim();
-            }
-
-
-            if (key) { // Ensure key is not empty
-                envVars[key] = value;
-            }
+        for (const { key, value } of readEnvFile(envFile, options)) {
+            envVars[key] = value;
         }
     }
 
@@ -174,4 +190,4 @@ export const parseEnv = (envs: string[], envFile: string): EnvVar[] => {
         key,
         value,
     }));
-};
\ No newline at end of file
+};
@@ -0,0 +1,154 @@
+import fs from 'node:fs';
+import { createWalletClient, http, type Chain, type WalletClient } from 'viem';
+import { normalizeAddress, rpcRequest, type Hex } from './chain';
+import { decryptKeystore, normalizePrivateKey, parseKeystore, privateKeyToAddress, readKeyFile } from './keystore';
+import { promptForPassphrase } from './prompts';
+
+export const PRIVATE_KEY_ENV = 'PRIVATE_KEY';
+export const KEYSTORE_PASSWORD_ENV = 'PHALA_KEYSTORE_PASSWORD';
+
+/**
+ * Where the key signing on-chain KMS transactions comes from, at most one source may be given
+ */
+export interface SignerOptions {
+  privateKey?: string;
+  keyFile?: string;
+  keystore?: string;
+  signerUrl?: string;
+  signerAddress?: string;
+  allowPrivateKeyArg?: boolean;
+}
+
+// Signing arguments of the SDK helpers that send transactions (safeDeployAppAuth, safeAddComposeHash)
+export type SigningArgs = { privateKey: Hex } | { walletClient: WalletClient };
+
+/**
+ * Signs the transactions of on-chain KMS operations, e.g. deploying a DstackApp contract or
+ * adding a compose hash to it
+ */
+export interface TransactionSigner {
+  // Address of the signing account
+  address: Hex;
+  // Where the key comes from, shown to the user
+  source: string;
+  // Arguments to pass to the SDK helpers for a transaction on the given chain
+  getSigningArgs(chain: unknown): SigningArgs;
+}
+
+/**
+ * Creates a signer holding a private key in memory
+ * @param privateKey Private key
+ * @param source Where the key comes from
+ * @returns The signer
+ */
+export function createPrivateKeySigner(privateKey: string, source: string): TransactionSigner {
+  const key = normalizePrivateKey(privateKey);
+  return {
+    address: privateKeyToAddress(key),
+    source,
+    getSigningArgs: () => ({ privateKey: key }),
+  };
+}
+
+/**
+ * Creates a signer delegating to an external signer process, e.g. a local signing daemon or a
+ * wallet, through its JSON-RPC endpoint. The key never reaches the CLI: transactions are sent
+ * with eth_sendTransaction and the external signer signs and broadcasts them.
+ * @param signerUrl JSON-RPC endpoint of the external signer
+ * @param address Account to sign with, required if the signer has several accounts
+ * @returns The signer
+ * @throws If the external signer is unreachable or has no matching account
+ */
+export async function createExternalSigner(signerUrl: string, address?: string): Promise<TransactionSigner> {
+  const accounts = (await rpcRequest<string[] | null>(signerUrl, 'eth_accounts', []) ?? []).map((account) => normalizeAddress(account));
+  let account: Hex;
+  if (address) {
+    account = normalizeAddress(address);
+    if (!accounts.includes(account)) {
+      throw new Error(`External signer ${signerUrl} has no account ${account}, available accounts: ${accounts.join(', ') || '(none)'}`);
+    }
+  } else if (accounts.length === 1) {
+    account = accounts[0];
+  } else if (accounts.length === 0) {
+    throw new Error(`External signer ${signerUrl} has no account, unlock one first`);
+  } else {
+    throw new Error(`External signer ${signerUrl} has several accounts, choose one with --signer-address: ${accounts.join(', ')}`);
+  }
+
+  return {
+    address: account,
+    source: `external signer ${signerUrl}`,
+    getSigningArgs: (chain) => ({
+      walletClient: createWalletClient({ account, chain: chain as Chain, transport: http(signerUrl) }),
+    }),
+  };
+}
+
+async function readKeystorePassword(keystorePath: string): Promise<string> {
+  const password = process.env[KEYSTORE_PASSWORD_ENV];
+  if (password !== undefined) {
+    return password;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(`Keystore ${keystorePath} is locked. Set ${KEYSTORE_PASSWORD_ENV} or run the command in an interactive terminal`);
+  }
+  return promptForPassphrase(`Enter the password of keystore ${keystorePath}:`);
+}
+
+/**
+ * Resolves the signer of on-chain KMS transactions from the command options, then the
+ * PRIVATE_KEY environment variable
+ * @param options Signer options of the command
+ * @param onWarning Called with warnings about insecure key sources
+ * @returns The signer, or undefined if no key source is given
+ * @throws If several sources are given, a key cannot be read, or --private-key is used in a
+ * non-interactive session without --allow-private-key-arg
+ */
+export async function resolveSigner(
+  options: SignerOptions,
+  onWarning: (message: string) => void = () => {},
+): Promise<TransactionSigner | undefined> {
+  const given = ([
+    ['--private-key', options.privateKey],
+    ['--key-file', options.keyFile],
+    ['--keystore', options.keystore],
+    ['--signer-url', options.signerUrl],
+  ] as const).filter(([, value]) => value).map(([flag]) => flag);
+  if (given.length > 1) {
+    throw new Error(`Only one signing key source can be given, got ${given.join(', ')}`);
+  }
+  if (options.signerAddress && !options.signerUrl) {
+    throw new Error('--signer-address requires --signer-url');
+  }
+
+  if (options.privateKey) {
+    // A key on the command line ends up in the shell history and the process list, where
+    // nobody notices it in scripts and CI
+    if (!process.stdin.isTTY && !options.allowPrivateKeyArg) {
+      throw new Error(
+        `Refusing --private-key in a non-interactive session, it is visible in the process list and the shell history. Use --keystore, --key-file, --signer-url or the ${PRIVATE_KEY_ENV} environment variable, or pass --allow-private-key-arg`
+      );
+    }
+    onWarning('--private-key is visible in the process list and the shell history, prefer --keystore or --key-file');
+    return createPrivateKeySigner(options.privateKey, '--private-key');
+  }
+  if (options.keyFile) {
+    return createPrivateKeySigner(readKeyFile(options.keyFile), `key file ${options.keyFile}`);
+  }
+  if (options.keystore) {
+    if (!fs.existsSync(options.keystore)) {
+      throw new Error(`Keystore ${options.keystore} not found`);
+    }
+    const keystore = parseKeystore(fs.readFileSync(options.keystore, 'utf8'));
+    const privateKey = decryptKeystore(keystore, await readKeystorePassword(options.keystore));
+    return createPrivateKeySigner(privateKey, `keystore ${options.keystore}`);
+  }
+  if (options.signerUrl) {
+    return createExternalSigner(options.signerUrl, options.signerAddress);
+  }
+  const envKey = process.env[PRIVATE_KEY_ENV];
+  if (envKey) {
+    return createPrivateKeySigner(envKey, `${PRIVATE_KEY_ENV} environment variable`);
+  }
+  return undefined;
+}
@@ -297,4 +297,15 @@ export const ComposeTemplateSchema = z.object({
   template: z.string().min(1, "Template cannot be empty")
 });
 
-export type ComposeTemplate = z.infer<typeof ComposeTemplateSchema>;
\ No newline at end of file
+export type ComposeTemplate = z.infer<typeof ComposeTemplateSchema>;
+
+/**
+ * Formats the issues of a failed schema validation on one line
+ * @param error Validation error
+ * @returns Issues as path: message, separated by semicolons
+ */
+export function formatZodIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
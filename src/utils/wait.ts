@@ -0,0 +1,203 @@
+// Default time to wait for a CVM to become ready, in seconds
+export const DEFAULT_WAIT_TIMEOUT = 600;
+
+// Time between two status polls, in ms
+export const WAIT_POLL_INTERVAL_MS = 5_000;
+
+// Time after which a CVM running since the first poll is taken as ready, in ms: until the API
+// picks up the operation, it still reports the state the CVM had before it
+export const WAIT_GRACE_PERIOD_MS = 30_000;
+
+// Time a single health probe may take, in ms
+const HEALTH_PROBE_TIMEOUT_MS = 10_000;
+
+/**
+ * Boot state of a CVM as reported by the API
+ */
+export interface CvmBootState {
+  status: string;
+  inProgress: boolean;
+  bootProgress: string | null;
+  bootError: string | null;
+}
+
+/**
+ * Result of probing the health path on the public URLs of a CVM
+ */
+export interface HealthCheckResult {
+  url: string;
+  ok: boolean;
+  status?: number;
+  error?: string;
+}
+
+export interface WaitForCvmOptions {
+  // Maximum time to wait, in seconds
+  timeout: number;
+  // Time between two polls, in ms
+  interval?: number;
+  // Time to wait for a transition when the CVM is running from the first poll, in ms
+  gracePeriod?: number;
+  // Called whenever the boot state changes
+  onProgress?: (state: CvmBootState) => void;
+}
+
+/**
+ * Thrown when a CVM fails to boot or does not become ready in time
+ */
+export class CvmWaitError extends Error {
+  readonly state?: CvmBootState;
+
+  constructor(message: string, state?: CvmBootState) {
+    super(message);
+    this.name = 'CvmWaitError';
+    this.state = state;
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses the value of --wait-timeout
+ * @param value Timeout in seconds
+ * @returns Timeout in seconds
+ * @throws If the value is not a positive number
+ */
+export function parseWaitTimeout(value: string | number | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_WAIT_TIMEOUT;
+  }
+  const timeout = Number(value);
+  if (!Number.isFinite(timeout) || timeout <= 0) {
+    throw new Error(`Invalid wait timeout '${value}', expected a number of seconds`);
+  }
+  return timeout;
+}
+
+/**
+ * Checks whether a CVM has finished booting
+ * @param state Boot state
+ * @returns True once the CVM is running and no operation is in progress
+ */
+export function isCvmReady(state: CvmBootState): boolean {
+  return state.status === 'running' && !state.inProgress;
+}
+
+/**
+ * Polls the boot state of a CVM until it is running. A running state is only final once the
+ * operation shows, as a state in progress, another status or a change of boot progress, or
+ * once the grace period has passed, or the timeout if it is shorter
+ * @param getState Fetches the current boot state
+ * @param options Wait options
+ * @returns The final boot state
+ * @throws CvmWaitError on a boot error or when the timeout expires
+ */
+export async function waitForCvmReady(
+  getState: () => Promise<CvmBootState>,
+  options: WaitForCvmOptions
+): Promise<CvmBootState> {
+  const deadline = Date.now() + options.timeout * 1000;
+  const interval = options.interval ?? WAIT_POLL_INTERVAL_MS;
+  const settledAt = Date.now() + (options.gracePeriod ?? WAIT_GRACE_PERIOD_MS);
+  let previous: string | undefined;
+  let first: CvmBootState | undefined;
+  let transitioned = false;
+
+  for (;;) {
+    const state = await getState();
+    first ??= state;
+    if (state.inProgress || state.status !== 'running' || state.bootProgress !== first.bootProgress) {
+      transitioned = true;
+    }
+    const key = `${state.status}|${state.inProgress}|${state.bootProgress}|${state.bootError}`;
+    if (key !== previous) {
+      options.onProgress?.(state);
+      previous = key;
+    }
+    if (state.bootError) {
+      throw new CvmWaitError(`CVM failed to boot: ${state.bootError}`, state);
+    }
+    if (state.status === 'error') {
+      throw new CvmWaitError('CVM is in error state', state);
+    }
+    if (isCvmReady(state) && (transitioned || Date.now() >= settledAt)) {
+      return state;
+    }
+    if (Date.now() + interval > deadline) {
+      // Still running without a transition at the deadline, e.g. with a timeout shorter than the grace period
+      if (isCvmReady(state)) {
+        return state;
+      }
+      throw new CvmWaitError(
+        `Timed out after ${options.timeout}s waiting for the CVM to become ready (status: ${state.status}${state.bootProgress ? `, boot progress: ${state.bootProgress}` : ''})`,
+        state
+      );
+    }
+    await sleep(interval);
+  }
+}
+
+/**
+ * Joins a public URL and a health path
+ * @param baseUrl Public URL of the CVM
+ * @param healthPath Health path, e.g. /healthz
+ * @returns URL to probe
+ */
+export function healthCheckUrl(baseUrl: string, healthPath: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${healthPath.replace(/^\/+/, '')}`;
+}
+
+/**
+ * Probes a health path on the public URLs of a CVM until one of them answers with a success status
+ * @param urls Public URLs of the CVM
+ * @param healthPath Health path, e.g. /healthz
+ * @param options Maximum time to keep probing in seconds, and time between two rounds in ms
+ * @returns The successful probe
+ * @throws CvmWaitError if no URL answers with a success status in time
+ */
+export async function probeHealth(
+  urls: string[],
+  healthPath: string,
+  options: Pick<WaitForCvmOptions, 'timeout' | 'interval'>
+): Promise<HealthCheckResult> {
+  if (urls.length === 0) {
+    throw new CvmWaitError('CVM has no public URLs to probe the health path on');
+  }
+  const deadline = Date.now() + options.timeout * 1000;
+  const interval = options.interval ?? WAIT_POLL_INTERVAL_MS;
+
+  for (;;) {
+    const results: HealthCheckResult[] = [];
+    for (const baseUrl of urls) {
+      const url = healthCheckUrl(baseUrl, healthPath);
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(HEALTH_PROBE_TIMEOUT_MS) });
+        const result = { url, ok: response.ok, status: response.status };
+        if (result.ok) {
+          return result;
+        }
+        results.push(result);
+      } catch (error) {
+        results.push({ url, ok: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    if (Date.now() + interval > deadline) {
+      const details = results.map((result) => `${result.url}: ${result.status ?? result.error}`).join('; ');
+      throw new CvmWaitError(`Health check failed after ${options.timeout}s: ${details}`);
+    }
+    await sleep(interval);
+  }
+}
+
+/**
+ * Formats a boot state for progress output
+ * @param state Boot state
+ * @returns One line description
+ */
+export function formatBootState(state: CvmBootState): string {
+  const parts = [`status: ${state.status}`];
+  if (state.inProgress) parts.push('in progress');
+  if (state.bootProgress) parts.push(`boot progress: ${state.bootProgress}`);
+  if (state.bootError) parts.push(`boot error: ${state.bootError}`);
+  return parts.join(', ');
+}
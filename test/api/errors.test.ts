@@ -0,0 +1,101 @@
+import {
+  API_ERROR_EXIT_CODES,
+  ApiError,
+  AuthError,
+  NotFoundError,
+  RateLimitError,
+  ValidationError,
+  getErrorExitCode,
+  isRetryableError,
+  toApiError,
+  withErrorContext,
+} from '../../src/api/errors';
+
+// Helper to build an error shaped like an ofetch FetchError
+const fetchError = (status: number, data: unknown, headers: Record<string, string> = {}) => {
+  const error = new Error(`[GET] "https://cloud-api.phala.network/api/v1/cvms": ${status}`) as Error & Record<string, unknown>;
+  error.status = status;
+  error.statusText = 'Error';
+  error.data = data;
+  error.response = { status, headers: new Headers(headers) };
+  return error;
+};
+
+describe('toApiError', () => {
+  test('should map HTTP status codes to typed errors', () => {
+    expect(toApiError(fetchError(401, { detail: 'Invalid API key' }))).toBeInstanceOf(AuthError);
+    expect(toApiError(fetchError(403, {}))).toBeInstanceOf(AuthError);
+    expect(toApiError(fetchError(404, { detail: 'CVM not found' }))).toBeInstanceOf(NotFoundError);
+    expect(toApiError(fetchError(422, {}))).toBeInstanceOf(ValidationError);
+    expect(toApiError(fetchError(429, {}))).toBeInstanceOf(RateLimitError);
+    const serverError = toApiError(fetchError(502, 'Bad Gateway'));
+    expect(serverError.constructor).toBe(ApiError);
+    expect(serverError.status).toBe(502);
+  });
+
+  test('should keep status, request id and body', () => {
+    const body = { detail: 'CVM not found' };
+    const error = toApiError(fetchError(404, body, { 'x-request-id': 'req_123' }));
+    expect(error.status).toBe(404);
+    expect(error.requestId).toBe('req_123');
+    expect(error.body).toBe(body);
+    expect(error.message).toBe('CVM not found (HTTP 404)');
+  });
+
+  test('should flatten validation details', () => {
+    const error = toApiError(fetchError(422, {
+      detail: [{ loc: ['body', 'vcpu'], msg: 'must be positive' }, { loc: ['body', 'name'], msg: 'required' }],
+    }));
+    expect(error.message).toBe('body.vcpu: must be positive; body.name: required (HTTP 422)');
+  });
+
+  test('should parse Retry-After for rate limited requests', () => {
+    const error = toApiError(fetchError(429, {}, { 'retry-after': '12' })) as RateLimitError;
+    expect(error.retryAfter).toBe(12);
+  });
+
+  test('should keep network errors without a status', () => {
+    const error = toApiError(new TypeError('fetch failed'));
+    expect(error.status).toBeUndefined();
+    expect(error.message).toBe('fetch failed');
+  });
+});
+
+describe('isRetryableError', () => {
+  test('should retry GET requests on network errors and 5xx responses', () => {
+    expect(isRetryableError(new ApiError('fetch failed'), 'GET')).toBe(true);
+    expect(isRetryableError(new ApiError('Bad Gateway', { status: 502 }), 'GET')).toBe(true);
+    expect(isRetryableError(new NotFoundError('Not found', { status: 404 }), 'GET')).toBe(false);
+  });
+
+  test('should only retry non-idempotent requests when rate limited', () => {
+    expect(isRetryableError(new ApiError('Bad Gateway', { status: 502 }), 'POST')).toBe(false);
+    expect(isRetryableError(new RateLimitError('Too many requests', { status: 429 }), 'POST')).toBe(true);
+  });
+});
+
+describe('withErrorContext', () => {
+  test('should prefix the message and keep the error type', () => {
+    const original = new NotFoundError('CVM not found (HTTP 404)', { status: 404 });
+    const error = withErrorContext(original, 'Failed to get CVM');
+    expect(error).toBe(original);
+    expect(error.message).toBe('Failed to get CVM: CVM not found (HTTP 404)');
+  });
+
+  test('should wrap plain errors', () => {
+    const error = withErrorContext('boom', 'Failed to get CVMs');
+    expect(error).not.toBeInstanceOf(ApiError);
+    expect(error.message).toBe('Failed to get CVMs: boom');
+  });
+});
+
+describe('getErrorExitCode', () => {
+  test('should map error types to exit codes', () => {
+    expect(getErrorExitCode(new AuthError('Unauthorized'))).toBe(API_ERROR_EXIT_CODES.auth);
+    expect(getErrorExitCode(new NotFoundError('Not found'))).toBe(API_ERROR_EXIT_CODES.notFound);
+    expect(getErrorExitCode(new ValidationError('Invalid'))).toBe(API_ERROR_EXIT_CODES.validation);
+    expect(getErrorExitCode(new RateLimitError('Too many requests'))).toBe(API_ERROR_EXIT_CODES.rateLimit);
+    expect(getErrorExitCode(new ApiError('Bad Gateway', { status: 502 }))).toBe(1);
+    expect(getErrorExitCode(new Error('boom'))).toBe(1);
+  });
+});
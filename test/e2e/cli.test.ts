@@ -66,6 +66,12 @@ describe('TEE Cloud CLI End-to-End Tests', () => {
     expect(stdout).toContain("resize");
     expect(stdout).toContain("upgrade");
   });
+  test('Attestation commands show help information', async () => {
+    const { stdout, exitCode } = await runCommand(['attestation', '--help']);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Work with exported attestation evidence');
+    expect(stdout).toContain('verify-bundle');
+  });
   test('Free command show opens url to join', async () => {
     const { stdout, exitCode } = await runCommand(['free']);
     expect(exitCode).toBe(0);
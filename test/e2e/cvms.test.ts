@@ -1,5 +1,5 @@
 import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
-import { createTestEnvironment } from '../utils/test-helper';
+import { createTestEnvironment, getMockApiServer } from '../utils/test-helper';
 
 describe('CVM Commands E2E Tests', () => {
   const { runCommand, setup, teardown } = createTestEnvironment('cvms');
@@ -78,6 +78,63 @@ describe('CVM Commands E2E Tests', () => {
     expect(stdout).toContain('Upgrade a CVM');
   });
 
-  
-  
+  test('CVM logs command shows help', async () => {
+    const { stdout, exitCode } = await runCommand(['cvms', 'logs', '--help']);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('Fetch container logs of a CVM');
+  });
+});
+
+describe.skipIf(!!process.env.PHALA_TEST_LIVE_API)('CVM Commands against the mock API', () => {
+  const { runCommand, setup, teardown } = createTestEnvironment('cvms-mock-api');
+
+  // App ID of the CVM seeded by the mock API
+  const seededAppId = async () => {
+    const mockApi = await getMockApiServer();
+    expect(mockApi).toBeDefined();
+    return mockApi?.state.listCvms()[0].app_id ?? '';
+  };
+
+  beforeAll(() => {
+    setup();
+  });
+
+  afterAll(() => {
+    teardown();
+  });
+
+  test('CVM list shows the CVMs of the account', async () => {
+    const { stdout, exitCode } = await runCommand(['cvms', 'list']);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain('mock-app');
+  });
+
+  test('CVM get shows the CVM details', async () => {
+    const appId = await seededAppId();
+    const { stdout, exitCode } = await runCommand(['cvms', 'get', `app_${appId}`]);
+    expect(exitCode).toBe(0);
+    expect(stdout).toContain(appId);
+  });
+
+  test('CVM attestation verifies offline', async () => {
+    const appId = await seededAppId();
+    const { stdout, exitCode } = await runCommand(['cvms', 'attestation', `app_${appId}`, '--verify', '--json']);
+    expect(exitCode).toBe(0);
+    expect(JSON.parse(stdout).verification.passed).toBe(true);
+  });
+
+  test('CVM stop and start go through status transitions', async () => {
+    const appId = await seededAppId();
+    expect((await runCommand(['cvms', 'stop', `app_${appId}`])).exitCode).toBe(0);
+    const mockApi = await getMockApiServer();
+    expect(mockApi).toBeDefined();
+    expect(mockApi?.state.findCvm(appId)?.status).toMatch(/stopping|stopped/);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    expect((await runCommand(['cvms', 'start', `app_${appId}`])).exitCode).toBe(0);
+  });
+
+  test('CVM get fails for an unknown CVM', async () => {
+    const { exitCode } = await runCommand(['cvms', 'get', 'app_unknown']);
+    expect(exitCode).not.toBe(0);
+  });
 }); 
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { createTestEnvironment, getMockApiServer } from '../utils/test-helper';
+import { createMockDir, createMockFile, deleteMockDir } from '../utils/mock';
+
+const COMPOSE_V1 = 'services:\n  web:\n    image: nginx:1.25\n';
+const COMPOSE_V2 = 'services:\n  web:\n    image: nginx:1.27\n';
+
+// The JSON result follows the progress lines printed to stdout
+const parseJsonOutput = (stdout: string) => JSON.parse(stdout.slice(stdout.indexOf('{')));
+
+describe.skipIf(!!process.env.PHALA_TEST_LIVE_API)('Deploy Commands against the mock API', () => {
+  const { runCommand, setup, teardown } = createTestEnvironment('deploy-mock-api');
+  // Each project directory has its own .phala files: CVM UUID, deploy state, history and pending approval
+  const projectDir = (name: string) => path.join(os.tmpdir(), `.phala-cloud-test-deploy-${name}`);
+  const projects = ['update', 'resume', 'approval'];
+
+  const mockApi = async () => {
+    const server = await getMockApiServer();
+    if (!server) {
+      throw new Error('The mock API is not running');
+    }
+    return server;
+  };
+
+  const findCvmByUuid = async (uuid: string) =>
+    (await mockApi()).state.listCvms().find((cvm) => cvm.vm_uuid === uuid);
+
+  beforeAll(() => {
+    setup();
+    for (const project of projects) {
+      createMockDir(projectDir(project));
+      createMockFile(path.join(projectDir(project), 'docker-compose.yml'), COMPOSE_V1);
+      createMockFile(path.join(projectDir(project), 'docker-compose.v2.yml'), COMPOSE_V2);
+    }
+  });
+
+  afterAll(() => {
+    teardown();
+    for (const project of projects) {
+      deleteMockDir(projectDir(project));
+    }
+  });
+
+  describe('a CVM with a centralized KMS', () => {
+    const cwd = projectDir('update');
+    let vmUuid = '';
+
+    test('deploy provisions and commits a new CVM', async () => {
+      const { stdout, exitCode } = await runCommand(['deploy', 'docker-compose.yml', '--node-id', '1', '--name', 'e2e-app', '--json'], { cwd });
+      expect(exitCode).toBe(0);
+      const result = parseJsonOutput(stdout);
+      expect(result).toMatchObject({ success: true, name: 'e2e-app' });
+      vmUuid = result.vm_uuid;
+      expect((await findCvmByUuid(vmUuid))?.app_compose.docker_compose_file).toBe(COMPOSE_V1);
+    });
+
+    test('deploy --dry-run shows the update without committing it', async () => {
+      const { stdout, exitCode } = await runCommand(['deploy', 'docker-compose.v2.yml', '--dry-run', '--json'], { cwd });
+      expect(exitCode).toBe(0);
+      const plan = parseJsonOutput(stdout);
+      expect(plan).toMatchObject({ dry_run: true, action: 'update', vm_uuid: vmUuid });
+      expect(plan.compose_diff).toContain('+    image: nginx:1.27');
+      expect((await findCvmByUuid(vmUuid))?.app_compose.docker_compose_file).toBe(COMPOSE_V1);
+    });
+
+    test('deploy updates the compose file of the CVM', async () => {
+      const { exitCode } = await runCommand(['deploy', 'docker-compose.v2.yml', '--json'], { cwd });
+      expect(exitCode).toBe(0);
+      expect((await findCvmByUuid(vmUuid))?.app_compose.docker_compose_file).toBe(COMPOSE_V2);
+    });
+
+    test('rollback restores the previous deployment and records it', async () => {
+      const { exitCode } = await runCommand(['deploy', 'rollback'], { cwd });
+      expect(exitCode).toBe(0);
+      expect((await findCvmByUuid(vmUuid))?.app_compose.docker_compose_file).toBe(COMPOSE_V1);
+
+      const history = await runCommand(['deploy', 'history', '--json'], { cwd });
+      expect(history.exitCode).toBe(0);
+      const entries = JSON.parse(history.stdout);
+      expect(entries).toHaveLength(3);
+      expect(entries[0]).toMatchObject({ id: 3, cvm_uuid: vmUuid, rollback_of: 1 });
+    });
+  });
+
+  test('deploy --resume commits a deployment that failed after provisioning', async () => {
+    const cwd = projectDir('resume');
+    const statePath = path.join(cwd, '.phala', 'deploy-state.json');
+
+    // The node list and the provision go through, the commit fails
+    (await mockApi()).injectFailures(0, 0, 500);
+    const failed = await runCommand(['deploy', 'docker-compose.yml', '--node-id', '1', '--name', 'e2e-resume', '--json'], { cwd });
+    expect(failed.exitCode).not.toBe(0);
+    expect(fs.existsSync(statePath)).toBe(true);
+
+    const { stdout, exitCode } = await runCommand(['deploy', '--resume', '--json'], { cwd });
+    expect(exitCode).toBe(0);
+    const result = parseJsonOutput(stdout);
+    expect(result).toMatchObject({ success: true, name: 'e2e-resume' });
+    expect(await findCvmByUuid(result.vm_uuid)).toBeDefined();
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+
+  test('deploy --prepare-approval outputs the addComposeHash transaction without committing', async () => {
+    const cwd = projectDir('approval');
+    const cvm = (await mockApi()).state.createCvm({
+      name: 'e2e-onchain',
+      teepod_id: 2,
+      image: 'dstack-0.3.6',
+      vcpu: 1,
+      memory: 2048,
+      disk_size: 40,
+      app_compose: { name: 'e2e-onchain', runner: 'docker-compose', docker_compose_file: COMPOSE_V1, allowed_envs: [] },
+      kms_id: 'kms-base-prod',
+      immediate: true,
+    });
+
+    const { stdout, exitCode } = await runCommand(['deploy', 'docker-compose.v2.yml', '--uuid', cvm.vm_uuid, '--prepare-approval'], { cwd });
+    expect(exitCode).toBe(0);
+    const approval = JSON.parse(stdout);
+    expect(approval).toMatchObject({ chain_id: 8453, function: 'addComposeHash(bytes32)', cvm_uuid: cvm.vm_uuid });
+    expect(approval.to.toLowerCase()).toBe(`0x${cvm.app_id}`);
+    expect(fs.existsSync(path.join(cwd, '.phala', 'pending-approval.json'))).toBe(true);
+    expect(cvm.app_compose.docker_compose_file).toBe(COMPOSE_V1);
+
+    // The approval is checked on-chain before committing, which fails without a reachable RPC
+    const commit = await runCommand(['deploy', '--commit-after-approval', '--rpc-url', 'http://127.0.0.1:9'], { cwd });
+    expect(commit.exitCode).not.toBe(0);
+    expect(cvm.app_compose.docker_compose_file).toBe(COMPOSE_V1);
+    expect(fs.existsSync(path.join(cwd, '.phala', 'pending-approval.json'))).toBe(true);
+  }, 30000);
+});
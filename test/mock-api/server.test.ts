@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import {
+  cvmAttestationResponseSchema,
+  getCvmByAppIdResponseSchema,
+  getCvmNetworkResponseSchema,
+  postCvmResponseSchema,
+} from '../../src/api/types';
+import { verifyAttestation } from '../../src/utils/attestation';
+import { hostnamesFromPublicUrls, validateCertificateChain } from '../../src/utils/certificates';
+import { z } from 'zod';
+import { MOCK_API_KEY, startMockApiServer, type MockApiServer } from './server';
+import { hashAppCompose, pythonJsonDumps } from './state';
+
+describe('Mock Phala Cloud API', () => {
+  let server: MockApiServer;
+
+  // Helper to call the mock API like the CLI does
+  const call = async (method: string, path: string, body?: unknown, apiKey = MOCK_API_KEY) => {
+    const response = await fetch(`${server.url}/${path}`, {
+      method,
+      headers: { 'x-api-key': apiKey, 'content-type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    let data: unknown = text;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Plain text responses (logs)
+    }
+    return { status: response.status, data, headers: response.headers };
+  };
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  beforeAll(async () => {
+    server = await startMockApiServer({ stepDelayMs: 20 });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('should reject requests without a valid API key', async () => {
+    const { status, data, headers } = await call('GET', 'auth/me', undefined, 'invalid');
+    expect(status).toBe(401);
+    expect(data).toMatchObject({ detail: 'Invalid API key' });
+    expect(headers.get('x-request-id')).toBeTruthy();
+  });
+
+  test('should list the seeded CVM', async () => {
+    const { status, data } = await call('GET', 'cvms?user_id=0');
+    expect(status).toBe(200);
+    expect(data).toMatchObject([{ hosted: { status: 'running' } }]);
+  });
+
+  test('should go through status transitions on stop and start', async () => {
+    const [cvm] = server.state.listCvms();
+    const stopped = await call('POST', `cvms/app_${cvm.app_id}/stop`);
+    expect(postCvmResponseSchema.parse(stopped.data).status).toBe('stopping');
+    expect((await call('POST', `cvms/app_${cvm.app_id}/stop`)).status).toBe(409);
+
+    await sleep(50);
+    const detail = await call('GET', `cvms/app_${cvm.app_id}`);
+    expect(getCvmByAppIdResponseSchema.parse(detail.data).status).toBe('stopped');
+
+    await call('POST', `cvms/app_${cvm.app_id}/start`);
+    await sleep(50);
+    expect((await call('GET', `cvms/${cvm.vm_uuid}`)).data).toMatchObject({ status: 'running' });
+  });
+
+  test('should provision and commit a new CVM', async () => {
+    const provision = await call('POST', 'cvms/provision', {
+      name: 'offline-app',
+      compose_file: { docker_compose_file: 'services: {}', allowed_envs: ['FOO'] },
+      vcpu: 1,
+      memory: 1024,
+      disk_size: 20,
+      node_id: 1,
+      image: 'dstack-0.3.6',
+    });
+    expect(provision.status).toBe(200);
+    const { app_id, compose_hash } = z.object({ app_id: z.string(), compose_hash: z.string() }).parse(provision.data);
+    expect(compose_hash).toMatch(/^[0-9a-f]{64}$/);
+
+    const commit = await call('POST', 'cvms', { app_id, compose_hash, encrypted_env: 'deadbeef' });
+    expect(commit.status).toBe(200);
+    const created = postCvmResponseSchema.parse(commit.data);
+    expect(created.status).toBe('creating');
+    expect(server.state.findCvm(created.app_id)?.env_keys).toEqual(['FOO']);
+  });
+
+  test('should answer validation errors in FastAPI format', async () => {
+    const [cvm] = server.state.listCvms();
+    const { status, data } = await call('PATCH', `cvms/app_${cvm.app_id}/resources`, {});
+    expect(status).toBe(422);
+    expect(data).toMatchObject({ detail: [{ msg: 'At least one resource parameter must be provided' }] });
+    expect((await call('GET', 'cvms/app_unknown')).status).toBe(404);
+  });
+
+  test('should serve a verifiable attestation', async () => {
+    const [cvm] = server.state.listCvms().filter((candidate) => candidate.status === 'running');
+    const attestation = cvmAttestationResponseSchema.parse((await call('GET', `cvms/app_${cvm.app_id}/attestation`)).data);
+    expect(verifyAttestation(attestation).passed).toBe(true);
+
+    const network = getCvmNetworkResponseSchema.parse((await call('GET', `cvms/app_${cvm.app_id}/network`)).data);
+    const chain = validateCertificateChain(attestation.app_certificates || [], {
+      now: new Date('2030-01-01T00:00:00Z'),
+      hostnames: hostnamesFromPublicUrls(network.public_urls),
+    });
+    expect(chain.passed).toBe(true);
+  });
+
+  test('should serve logs as text', async () => {
+    const [cvm] = server.state.listCvms();
+    const { status, data } = await call('GET', `cvms/app_${cvm.app_id}/logs?tail=1&timestamps=true`);
+    expect(status).toBe(200);
+    expect(typeof data).toBe('string');
+    expect(String(data).trim().split('\n')).toHaveLength(1);
+    expect(String(data)).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  test('should answer injected failures', async () => {
+    server.injectFailures(503);
+    expect((await call('GET', 'auth/me')).status).toBe(503);
+    expect((await call('GET', 'auth/me')).status).toBe(200);
+  });
+});
+
+describe('Mock compose hash', () => {
+  // Reference hashes computed with json.dumps(sort_keys=True, separators=(",", ":"), ensure_ascii=False), as dstack does
+  test('should match the hashes recorded with Python', () => {
+    expect(hashAppCompose({
+      allowed_envs: ['API_KEY'],
+      docker_compose_file: 'services:\n  web:\n    image: nginx\n',
+      features: ['kms', 'tproxy-net'],
+      gateway_enabled: true,
+      kms_enabled: true,
+      local_key_provider_enabled: false,
+      manifest_version: 2,
+      name: 'my-app',
+      no_instance_id: false,
+      public_logs: true,
+      public_sysinfo: true,
+      runner: 'docker-compose',
+      secure_time: false,
+    })).toBe('6f737ef113de477e09bda7f557470b102f3209ad38c8a96357f31dc038f07b8f');
+
+    // Non-ASCII text, control characters and keys sorted by code point rather than UTF-16 code unit
+    const unusual = { name: 'café ☕', 'z\u{1F600}': 1, 'zﬀ': 2.5, docker_compose_file: 'a\tb\u0001"\\/', pre_launch_script: null };
+    expect(pythonJsonDumps(unusual)).toBe('{"docker_compose_file":"a\\tb\\u0001\\"\\\\/","name":"café ☕","pre_launch_script":null,"zﬀ":2.5,"z\u{1F600}":1}');
+    expect(hashAppCompose(unusual)).toBe('2017a38db75c24c1b010b0e340216faba4c0c6d30b40df78447c15d9626fab67');
+  });
+});
@@ -0,0 +1,770 @@
+import crypto, { X509Certificate } from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { z } from 'zod';
+import {
+  cvmAttestationResponseSchema,
+  cvmComposeConfigSchema,
+  cvmInstanceSchema,
+  getCvmByAppIdResponseSchema,
+  getCvmNetworkResponseSchema,
+  getPubkeyFromCvmResponseSchema,
+  getUserInfoResponseSchema,
+  postCvmResponseSchema,
+  replicateCvmResponseSchema,
+  teepodResponseSchema,
+  upgradeCvmResponseSchema,
+} from '../../src/api/types';
+import {
+  COMPOSE_HASH_EVENT,
+  DSTACK_RUNTIME_EVENT_TYPE,
+  computeComposeHash,
+  computeRuntimeEventDigest,
+  replayRtmrs,
+} from '../../src/utils/attestation';
+import { CA_PEM, LEAF_PEM } from '../utils/certificate-fixtures';
+import {
+  MOCK_IMAGES,
+  MOCK_KMS_LIST,
+  MOCK_NODES,
+  MOCK_USER,
+  MockApiState,
+  generateEnvPubkey,
+  pythonJsonDumps,
+  type MockCvm,
+  type MockStateOptions,
+} from './state';
+
+export const MOCK_API_KEY = 'phak_mock_api_key';
+export const MOCK_API_PREFIX = '/api/v1';
+
+// Domain of the public URLs, covered by the SAN of the fixture leaf certificate
+const GATEWAY_DOMAIN = 'app.example.com';
+
+export interface MockApiServerOptions extends MockStateOptions {
+  port?: number;
+  host?: string;
+  apiKey?: string;
+  // Do not keep the process alive for the server, e.g. when shared by test suites
+  unref?: boolean;
+}
+
+export interface MockApiServer {
+  // Base URL to use as PHALA_CLOUD_API_PREFIX
+  url: string;
+  apiKey: string;
+  state: MockApiState;
+  // Responds to the next requests with the given HTTP status codes, 0 lets a request through, e.g. to test retries
+  injectFailures(...statuses: number[]): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Error answered with the given status and a FastAPI style body
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, readonly body: unknown) {
+    super(typeof body === 'string' ? body : JSON.stringify(body));
+  }
+}
+
+interface RequestContext {
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  res: http.ServerResponse;
+}
+
+type Handler = (ctx: RequestContext) => unknown | Promise<unknown>;
+
+/**
+ * Validates a request body, answering 422 with FastAPI style details on failure
+ */
+function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body ?? {});
+  if (!result.success) {
+    throw new HttpError(422, {
+      detail: result.error.issues.map((issue) => ({
+        loc: ['body', ...issue.path],
+        msg: issue.message,
+        type: 'value_error',
+      })),
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Checks a response against the CLI schema, so the mock cannot drift from src/api/types.ts.
+ * The full object is returned since some responses carry more fields than the schema.
+ */
+function respond<T>(schema: z.ZodTypeAny, value: T): T {
+  schema.parse(value);
+  return value;
+}
+
+// Request body schemas
+const vmConfigSchema = z.object({
+  name: z.string().min(1),
+  teepod_id: z.number().optional(),
+  node_id: z.number().optional(),
+  image: z.string().min(1),
+  vcpu: z.number().int().positive(),
+  memory: z.number().int().positive(),
+  disk_size: z.number().int().positive(),
+}).passthrough();
+
+const createFromConfigurationSchema = vmConfigSchema.extend({
+  compose_manifest: z.object({ docker_compose_file: z.string().min(1) }).passthrough(),
+  encrypted_env: z.string().optional(),
+  app_env_encrypt_pubkey: z.string().optional(),
+});
+
+const provisionSchema = vmConfigSchema.extend({
+  compose_file: z.object({ docker_compose_file: z.string().min(1) }).passthrough(),
+  kms_id: z.string().nullable().optional(),
+});
+
+const commitProvisionSchema = z.object({
+  app_id: z.string().min(1),
+  compose_hash: z.string().min(1),
+  encrypted_env: z.string().nullable().optional(),
+  kms_id: z.string().nullable().optional(),
+  env_keys: z.array(z.string()).nullable().optional(),
+}).passthrough();
+
+const composeUpdateSchema = z.object({
+  docker_compose_file: z.string().min(1),
+}).passthrough();
+
+const updateCvmSchema = z.object({
+  name: z.string().optional(),
+}).passthrough();
+
+const commitComposeUpdateSchema = z.object({
+  compose_hash: z.string().min(1),
+  encrypted_env: z.string().nullable().optional(),
+  env_keys: z.array(z.string()).nullable().optional(),
+}).passthrough();
+
+const upgradeSchema = z.object({
+  compose_manifest: z.object({ docker_compose_file: z.string().min(1) }).passthrough(),
+  encrypted_env: z.string().nullable().optional(),
+  env_keys: z.array(z.string()).nullable().optional(),
+}).passthrough();
+
+const resizeSchema = z.object({
+  vcpu: z.number().int().positive().optional(),
+  memory: z.number().int().positive().optional(),
+  disk_size: z.number().int().positive().optional(),
+  allow_restart: z.number().int().min(0).max(1).optional(),
+}).refine(
+  (body) => body.vcpu !== undefined || body.memory !== undefined || body.disk_size !== undefined,
+  'At least one resource parameter must be provided'
+);
+
+const replicateSchema = z.object({
+  teepod_id: z.number().optional(),
+  encrypted_env: z.string().optional(),
+}).passthrough();
+
+function findNode(nodeId: number | undefined) {
+  const node = nodeId === undefined ? MOCK_NODES[0] : MOCK_NODES.find((candidate) => candidate.teepod_id === nodeId);
+  if (!node) {
+    throw new HttpError(404, { detail: `Node ${nodeId} not found` });
+  }
+  return node;
+}
+
+function findImage(name: string) {
+  const image = MOCK_IMAGES.find((candidate) => candidate.name === name);
+  if (!image) {
+    throw new HttpError(422, { detail: `Image ${name} not found` });
+  }
+  return image;
+}
+
+function findKms(kmsId: string | null | undefined) {
+  if (!kmsId) {
+    return null;
+  }
+  const kms = MOCK_KMS_LIST.find((candidate) => candidate.id === kmsId || candidate.slug === kmsId);
+  if (!kms) {
+    throw new HttpError(404, { detail: `KMS ${kmsId} not found` });
+  }
+  return kms;
+}
+
+function nodeSummary(cvm: MockCvm) {
+  const node = findNode(cvm.teepod_id);
+  return { id: node.teepod_id, name: node.name };
+}
+
+function appUrl(cvm: MockCvm): string {
+  return `https://${cvm.app_id}-80.${GATEWAY_DOMAIN}`;
+}
+
+// Response builders, shaped after the schemas in src/api/types.ts
+function toCvmInstance(state: MockApiState, cvm: MockCvm) {
+  const node = findNode(cvm.teepod_id);
+  return respond(cvmInstanceSchema, {
+    hosted: {
+      id: cvm.vm_uuid,
+      name: cvm.name,
+      status: cvm.status,
+      uptime: cvm.status === 'running' ? '1h' : '',
+      app_url: appUrl(cvm),
+      app_id: cvm.app_id,
+      instance_id: cvm.instance_id,
+      configuration: null,
+      exited_at: cvm.status === 'stopped' ? new Date().toISOString() : null,
+      boot_progress: cvm.status === 'running' ? 'done' : null,
+      boot_error: null,
+      shutdown_progress: null,
+      image_version: cvm.base_image,
+    },
+    name: cvm.name,
+    managed_user: { id: MOCK_USER.id, username: MOCK_USER.username },
+    node: { id: node.teepod_id, name: node.name, region_identifier: node.region_identifier },
+    listed: false,
+    status: cvm.status,
+    in_progress: state.inProgress(cvm),
+    dapp_dashboard_url: null,
+    syslog_endpoint: `https://syslog.${GATEWAY_DOMAIN}/${cvm.app_id}`,
+    allow_upgrade: true,
+  });
+}
+
+function toCvmDetail(state: MockApiState, cvm: MockCvm) {
+  const kms = findKms(cvm.kms_id);
+  return respond(getCvmByAppIdResponseSchema, {
+    id: cvm.id,
+    teepod_id: cvm.teepod_id,
+    teepod: nodeSummary(cvm),
+    name: cvm.name,
+    status: cvm.status,
+    in_progress: state.inProgress(cvm),
+    app_id: cvm.app_id,
+    vm_uuid: cvm.vm_uuid,
+    instance_id: cvm.instance_id,
+    vcpu: cvm.vcpu,
+    memory: cvm.memory,
+    disk_size: cvm.disk_size,
+    base_image: cvm.base_image,
+    encrypted_env_pubkey: cvm.encrypted_env_pubkey,
+    listed: false,
+    project_id: cvm.app_id,
+    project_type: null,
+    boot_progress: cvm.status === 'running' ? 'done' : null,
+    boot_error: null,
+    app_url: appUrl(cvm),
+    kms_info: kms,
+    env_keys: cvm.env_keys,
+  });
+}
+
+function toPostCvmResponse(cvm: MockCvm) {
+  return respond(postCvmResponseSchema, {
+    id: cvm.id,
+    name: cvm.name,
+    status: cvm.status,
+    teepod_id: cvm.teepod_id,
+    teepod: nodeSummary(cvm),
+    user_id: MOCK_USER.id,
+    app_id: cvm.app_id,
+    vm_uuid: cvm.vm_uuid,
+    instance_id: cvm.instance_id,
+    app_url: appUrl(cvm),
+    base_image: cvm.base_image,
+    vcpu: cvm.vcpu,
+    memory: cvm.memory,
+    disk_size: cvm.disk_size,
+    manifest_version: 2,
+    version: '1.0.0',
+    runner: 'docker-compose',
+    docker_compose_file: String(cvm.app_compose.docker_compose_file ?? ''),
+    features: ['kms', 'tproxy-net'],
+    created_at: cvm.created_at,
+    encrypted_env_pubkey: cvm.encrypted_env_pubkey,
+  });
+}
+
+function certificateInfo(pem: string, position: number) {
+  const x509 = new X509Certificate(pem);
+  const commonName = (dn: string) => dn.split('\n').find((part) => part.startsWith('CN='))?.slice(3) ?? null;
+  return {
+    subject: { common_name: commonName(x509.subject), organization: null, country: null },
+    issuer: { common_name: commonName(x509.issuer), organization: null, country: null },
+    serial_number: x509.serialNumber,
+    not_before: new Date(x509.validFrom).toISOString(),
+    not_after: new Date(x509.validTo).toISOString(),
+    version: 'v3',
+    fingerprint: x509.fingerprint256,
+    signature_algorithm: 'ecdsa-with-SHA256',
+    sans: x509.subjectAltName ?? null,
+    is_ca: x509.ca,
+    position_in_chain: position,
+    quote: position === 0 ? crypto.createHash('sha512').update(pem).digest('hex') : null,
+  };
+}
+
+/**
+ * Builds an attestation whose event log replays to the reported RTMRs and
+ * whose compose-hash event matches the compose file
+ */
+function toAttestation(cvm: MockCvm) {
+  if (cvm.status !== 'running') {
+    return respond(cvmAttestationResponseSchema, {
+      is_online: false,
+      is_public: true,
+      error: 'CVM is not running',
+      app_certificates: null,
+      tcb_info: null,
+      compose_file: null,
+    });
+  }
+  const composeFile = pythonJsonDumps(cvm.app_compose);
+  const runtimeEvent = (event: string, payload: string) => {
+    const entry = { imr: 3, event_type: DSTACK_RUNTIME_EVENT_TYPE, event, event_payload: payload, digest: '' };
+    entry.digest = computeRuntimeEventDigest(entry);
+    return entry;
+  };
+  const bootEvents = [0, 1, 2].map((imr) => ({
+    imr,
+    event_type: 1,
+    event: '',
+    event_payload: '',
+    digest: crypto.createHash('sha384').update(`${cvm.base_image}:${imr}`).digest('hex'),
+  }));
+  const eventLog = [
+    ...bootEvents,
+    runtimeEvent('app-id', cvm.app_id),
+    runtimeEvent(COMPOSE_HASH_EVENT, computeComposeHash(composeFile)),
+    runtimeEvent('instance-id', cvm.instance_id),
+  ];
+  const [rtmr0, rtmr1, rtmr2, rtmr3] = replayRtmrs(eventLog);
+  const image = findImage(cvm.base_image);
+  return respond(cvmAttestationResponseSchema, {
+    is_online: true,
+    is_public: true,
+    error: null,
+    app_certificates: [certificateInfo(LEAF_PEM, 0), certificateInfo(CA_PEM, 1)],
+    tcb_info: {
+      mrtd: crypto.createHash('sha384').update(image.name).digest('hex'),
+      rootfs_hash: image.rootfs_hash,
+      rtmr0,
+      rtmr1,
+      rtmr2,
+      rtmr3,
+      event_log: eventLog,
+    },
+    compose_file: composeFile,
+  });
+}
+
+/**
+ * Registers the routes of the mock API. Paths are relative to MOCK_API_PREFIX and
+ * cover API_ENDPOINTS plus the provision/commit endpoints used by the SDK.
+ */
+function createRoutes(state: MockApiState): Array<[string, RegExp, Handler]> {
+  const requireCvm = (id: string) => {
+    const cvm = state.findCvm(id);
+    if (!cvm) {
+      throw new HttpError(404, { detail: 'CVM not found' });
+    }
+    return cvm;
+  };
+  const requireStatus = (cvm: MockCvm, expected: string, action: string) => {
+    if (cvm.status !== expected) {
+      throw new HttpError(409, { detail: `Cannot ${action} CVM in status ${cvm.status}` });
+    }
+  };
+
+  return [
+    // Auth
+    ['GET', /^auth\/me$/, () => respond(getUserInfoResponseSchema, MOCK_USER)],
+
+    // Nodes and KMS
+    ['GET', /^teepods\/available$/, () => respond(teepodResponseSchema, {
+      tier: 'free',
+      capacity: { max_instances: 10, max_vcpu: 16, max_memory: 32768, max_disk: 500 },
+      nodes: MOCK_NODES,
+      kms_list: MOCK_KMS_LIST,
+    })],
+    ['GET', /^teepods\/([^/]+)\/images$/, ({ params }) => findNode(Number(params[0])).images],
+    ['GET', /^kms$/, () => ({
+      items: MOCK_KMS_LIST,
+      total: MOCK_KMS_LIST.length,
+      page: 1,
+      page_size: 100,
+      pages: 1,
+    })],
+    ['GET', /^kms\/([^/]+)\/pubkey\/([^/]+)$/, ({ params }) => {
+      findKms(params[0]);
+      return { public_key: generateEnvPubkey(), signature: `0x${'0'.repeat(130)}` };
+    }],
+
+    // CVM creation (legacy flow used by `cvms create`)
+    ['POST', /^cvms\/pubkey\/from_cvm_configuration$/, ({ body }) => {
+      parseBody(createFromConfigurationSchema.omit({ encrypted_env: true, app_env_encrypt_pubkey: true }), body);
+      return respond(getPubkeyFromCvmResponseSchema, {
+        app_env_encrypt_pubkey: generateEnvPubkey(),
+        app_id_salt: crypto.randomBytes(16).toString('hex'),
+      });
+    }],
+    ['POST', /^cvms\/from_cvm_configuration$/, ({ body }) => {
+      const config = parseBody(createFromConfigurationSchema, body);
+      const node = findNode(config.teepod_id ?? config.node_id);
+      findImage(config.image);
+      const cvm = state.createCvm({
+        name: config.name,
+        teepod_id: node.teepod_id,
+        image: config.image,
+        vcpu: config.vcpu,
+        memory: config.memory,
+        disk_size: config.disk_size,
+        app_compose: { ...config.compose_manifest, name: config.name, runner: 'docker-compose' },
+        encrypted_env: config.encrypted_env,
+        encrypted_env_pubkey: config.app_env_encrypt_pubkey,
+      });
+      return toPostCvmResponse(cvm);
+    }],
+
+    // CVM creation (provision/commit flow used by `deploy`)
+    ['POST', /^cvms\/provision$/, ({ body }) => {
+      const request = parseBody(provisionSchema, body);
+      const node = findNode(request.node_id ?? request.teepod_id);
+      const image = findImage(request.image);
+      const kms = findKms(request.kms_id);
+      const appCompose = { ...request.compose_file, name: request.name, runner: 'docker-compose' };
+      // With an on-chain KMS the app id comes from the deployed contract
+      const pending = state.provision({
+        app_id: kms?.chain_id ? '' : crypto.randomBytes(20).toString('hex'),
+        app_compose: appCompose,
+        teepod_id: node.teepod_id,
+        image: image.name,
+        vcpu: request.vcpu,
+        memory: request.memory,
+        disk_size: request.disk_size,
+        kms_id: kms?.slug ?? null,
+        encrypted_env_pubkey: generateEnvPubkey(),
+      });
+      return {
+        app_id: pending.app_id || null,
+        app_env_encrypt_pubkey: kms?.chain_id ? null : pending.encrypted_env_pubkey,
+        compose_hash: pending.compose_hash,
+        fmspc: node.fmspc,
+        device_id: node.device_id,
+        os_image_hash: image.os_image_hash,
+        teepod_id: node.teepod_id,
+        kms_id: pending.kms_id,
+        kms_info: kms,
+      };
+    }],
+    ['POST', /^cvms$/, ({ body }) => {
+      const request = parseBody(commitProvisionSchema, body);
+      const pending = state.provisions.get(request.compose_hash);
+      if (!pending) {
+        throw new HttpError(404, { detail: 'Provision not found or expired' });
+      }
+      if (pending.app_id && pending.app_id !== request.app_id.replace(/^0x/, '')) {
+        throw new HttpError(400, { detail: 'App ID does not match the provision' });
+      }
+      state.provisions.delete(request.compose_hash);
+      const cvm = state.createCvm({
+        name: String(pending.app_compose.name),
+        teepod_id: pending.teepod_id,
+        image: pending.image,
+        vcpu: pending.vcpu,
+        memory: pending.memory,
+        disk_size: pending.disk_size,
+        app_compose: pending.app_compose,
+        app_id: request.app_id.replace(/^0x/, ''),
+        encrypted_env: request.encrypted_env,
+        env_keys: request.env_keys ?? (pending.app_compose.allowed_envs as string[] | undefined),
+        encrypted_env_pubkey: pending.encrypted_env_pubkey,
+        kms_id: request.kms_id ?? pending.kms_id,
+      });
+      return {
+        ...toPostCvmResponse(cvm),
+        app_auth_contract_address: request.contract_address ?? null,
+        deployer_address: request.deployer_address ?? null,
+      };
+    }],
+
+    // CVM listing
+    ['GET', /^cvms$/, () => state.listCvms().map((cvm) => toCvmInstance(state, cvm))],
+
+    // Compose file updates (provision/commit flow used by `deploy --uuid`)
+    ['GET', /^cvms\/([^/]+)\/compose_file$/, ({ params }) => requireCvm(params[0]).app_compose],
+    ['POST', /^cvms\/([^/]+)\/compose_file\/provision$/, ({ params, body }) => {
+      const cvm = requireCvm(params[0]);
+      const { update_env_vars: _, ...appCompose } = parseBody(composeUpdateSchema, body);
+      const pending = state.provision({
+        app_id: cvm.app_id,
+        app_compose: appCompose,
+        teepod_id: cvm.teepod_id,
+        image: cvm.base_image,
+        vcpu: cvm.vcpu,
+        memory: cvm.memory,
+        disk_size: cvm.disk_size,
+        kms_id: cvm.kms_id,
+        encrypted_env_pubkey: cvm.encrypted_env_pubkey,
+      });
+      return {
+        app_id: cvm.app_id,
+        device_id: findNode(cvm.teepod_id).device_id,
+        compose_hash: pending.compose_hash,
+        kms_info: findKms(cvm.kms_id),
+      };
+    }],
+    ['PATCH', /^cvms\/([^/]+)\/compose_file$/, ({ params, body, res }) => {
+      const cvm = requireCvm(params[0]);
+      const request = parseBody(commitComposeUpdateSchema, body);
+      const pending = state.provisions.get(request.compose_hash);
+      if (!pending || pending.app_id !== cvm.app_id) {
+        throw new HttpError(404, { detail: 'Compose update not provisioned' });
+      }
+      state.provisions.delete(request.compose_hash);
+      cvm.app_compose = pending.app_compose;
+      if (request.encrypted_env) {
+        cvm.encrypted_env = request.encrypted_env;
+      }
+      if (request.env_keys) {
+        cvm.env_keys = request.env_keys;
+      }
+      state.transition(cvm, ['restarting', 'running']);
+      res.statusCode = 202;
+      return {};
+    }],
+
+    // Legacy compose endpoints (upgrade and replicate)
+    ['GET', /^cvms\/([^/]+)\/compose$/, ({ params }) => {
+      const cvm = requireCvm(params[0]);
+      const compose = cvm.app_compose;
+      return respond(cvmComposeConfigSchema, {
+        compose_file: {
+          bash_script: null,
+          docker_compose_file: String(compose.docker_compose_file ?? ''),
+          docker_config: { password: '', registry: null, username: '' },
+          features: (compose.features as string[] | undefined) ?? ['kms', 'tproxy-net'],
+          kms_enabled: true,
+          manifest_version: 2,
+          name: cvm.name,
+          pre_launch_script: String(compose.pre_launch_script ?? ''),
+          public_logs: true,
+          public_sysinfo: true,
+          runner: 'docker-compose',
+          salt: cvm.app_id.slice(0, 16),
+          tproxy_enabled: true,
+          version: '1.0.0',
+        },
+        env_pubkey: cvm.encrypted_env_pubkey,
+        salt: cvm.app_id.slice(0, 16),
+      });
+    }],
+    ['PUT', /^cvms\/([^/]+)\/compose$/, ({ params, body }) => {
+      const cvm = requireCvm(params[0]);
+      const request = parseBody(upgradeSchema, body);
+      cvm.app_compose = {
+        ...cvm.app_compose,
+        docker_compose_file: request.compose_manifest.docker_compose_file,
+        allowed_envs: request.env_keys ?? cvm.app_compose.allowed_envs ?? [],
+      };
+      if (request.encrypted_env) {
+        cvm.encrypted_env = request.encrypted_env;
+      }
+      if (request.env_keys) {
+        cvm.env_keys = request.env_keys;
+      }
+      state.transition(cvm, ['restarting', 'running']);
+      return respond(upgradeCvmResponseSchema, { detail: 'Upgrade scheduled' });
+    }],
+    ['POST', /^cvms\/([^/]+)\/replicas$/, ({ params, body }) => {
+      const source = requireCvm(params[0]);
+      const request = parseBody(replicateSchema, body);
+      const node = findNode(request.teepod_id ?? source.teepod_id);
+      const replica = state.createCvm({
+        name: source.name,
+        teepod_id: node.teepod_id,
+        image: source.base_image,
+        vcpu: source.vcpu,
+        memory: source.memory,
+        disk_size: source.disk_size,
+        app_compose: source.app_compose,
+        app_id: source.app_id,
+        encrypted_env: request.encrypted_env ?? source.encrypted_env,
+        env_keys: source.env_keys,
+        encrypted_env_pubkey: source.encrypted_env_pubkey,
+        kms_id: source.kms_id,
+      });
+      return respond(replicateCvmResponseSchema, toPostCvmResponse(replica));
+    }],
+
+    // CVM operations
+    ['POST', /^cvms\/([^/]+)\/start$/, ({ params }) => {
+      const cvm = requireCvm(params[0]);
+      requireStatus(cvm, 'stopped', 'start');
+      state.transition(cvm, ['starting', 'running']);
+      return toPostCvmResponse(cvm);
+    }],
+    ['POST', /^cvms\/([^/]+)\/stop$/, ({ params }) => {
+      const cvm = requireCvm(params[0]);
+      requireStatus(cvm, 'running', 'stop');
+      state.transition(cvm, ['stopping', 'stopped']);
+      return toPostCvmResponse(cvm);
+    }],
+    ['POST', /^cvms\/([^/]+)\/restart$/, ({ params }) => {
+      const cvm = requireCvm(params[0]);
+      requireStatus(cvm, 'running', 'restart');
+      state.transition(cvm, ['restarting', 'running']);
+      return toPostCvmResponse(cvm);
+    }],
+    ['PATCH', /^cvms\/([^/]+)\/resources$/, ({ params, body, res }) => {
+      const cvm = requireCvm(params[0]);
+      const request = parseBody(resizeSchema, body);
+      if (cvm.status === 'running' && !request.allow_restart) {
+        throw new HttpError(409, { detail: 'Resizing a running CVM requires allow_restart' });
+      }
+      cvm.vcpu = request.vcpu ?? cvm.vcpu;
+      cvm.memory = request.memory ?? cvm.memory;
+      cvm.disk_size = request.disk_size ?? cvm.disk_size;
+      if (cvm.status === 'running') {
+        state.transition(cvm, ['restarting', 'running']);
+      }
+      res.statusCode = 202;
+      return {};
+    }],
+    ['GET', /^cvms\/([^/]+)\/network$/, ({ params }) => {
+      const cvm = requireCvm(params[0]);
+      return respond(getCvmNetworkResponseSchema, {
+        is_online: cvm.status === 'running',
+        is_public: true,
+        error: null,
+        internal_ip: `10.0.0.${cvm.id + 1}`,
+        latest_handshake: new Date().toISOString(),
+        public_urls: [{ app: appUrl(cvm), instance: `https://${cvm.instance_id}-80.${GATEWAY_DOMAIN}` }],
+      });
+    }],
+    ['GET', /^cvms\/([^/]+)\/attestation$/, ({ params }) => toAttestation(requireCvm(params[0]))],
+    ['GET', /^cvms\/([^/]+)\/logs$/, ({ params, query, res }) => {
+      const cvm = requireCvm(params[0]);
+      const service = query.get('service');
+      const since = query.get('since');
+      const tail = query.get('tail');
+      let lines = cvm.logs.filter((line) =>
+        (!service || line.service === service) && (!since || line.timestamp >= since)
+      );
+      if (tail !== null) {
+        lines = Number(tail) > 0 ? lines.slice(-Number(tail)) : [];
+      }
+      const timestamps = query.get('timestamps') === 'true';
+      res.writeHead(200, { 'content-type': 'text/plain; charset=utf-8' });
+      res.end(lines.map((line) => `${timestamps ? `${line.timestamp} ` : ''}${line.message}\n`).join(''));
+      return undefined;
+    }],
+    ['GET', /^cvms\/([^/]+)$/, ({ params }) => toCvmDetail(state, requireCvm(params[0]))],
+    ['PUT', /^cvms\/([^/]+)$/, ({ params, body }) => {
+      const cvm = requireCvm(params[0]);
+      const { name } = parseBody(updateCvmSchema, body);
+      if (name) {
+        cvm.name = name;
+      }
+      return toCvmDetail(state, cvm);
+    }],
+    ['DELETE', /^cvms\/([^/]+)$/, ({ params, res }) => {
+      state.deleteCvm(requireCvm(params[0]));
+      res.statusCode = 204;
+      res.end();
+      return undefined;
+    }],
+  ];
+}
+
+async function readBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, { detail: 'Request body is not valid JSON' });
+  }
+}
+
+/**
+ * Starts the mock Phala Cloud API on a local port
+ * @param options Server and state options
+ * @returns The running server
+ */
+export async function startMockApiServer(options: MockApiServerOptions = {}): Promise<MockApiServer> {
+  const state = new MockApiState(options);
+  const apiKey = options.apiKey ?? MOCK_API_KEY;
+  const host = options.host ?? '127.0.0.1';
+  const routes = createRoutes(state);
+  const failures: number[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    res.setHeader('x-request-id', crypto.randomUUID());
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    try {
+      const url = new URL(req.url || '/', `http://${host}`);
+      if (!url.pathname.startsWith(`${MOCK_API_PREFIX}/`)) {
+        throw new HttpError(404, { detail: 'Not Found' });
+      }
+      if (req.headers['x-api-key'] !== apiKey) {
+        throw new HttpError(401, { detail: 'Invalid API key' });
+      }
+      const failure = failures.shift();
+      if (failure) {
+        throw new HttpError(failure, { detail: `Injected failure ${failure}` });
+      }
+
+      const path = url.pathname.slice(MOCK_API_PREFIX.length + 1).replace(/\/$/, '');
+      const method = req.method || 'GET';
+      const route = routes.find(([routeMethod, pattern]) => routeMethod === method && pattern.test(path));
+      if (!route) {
+        throw new HttpError(404, { detail: `No route for ${method} /${path}` });
+      }
+      const params = (route[1].exec(path) || []).slice(1).map(decodeURIComponent);
+      const body = await readBody(req);
+      const result = await route[2]({ params, query: url.searchParams, body, res });
+      if (result !== undefined && !res.writableEnded) {
+        sendJson(res.statusCode || 200, result);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendJson(error.status, error.body);
+      } else {
+        sendJson(500, { detail: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port ?? 0, host, resolve));
+  const { port } = server.address() as AddressInfo;
+  if (options.unref) {
+    server.unref();
+  }
+
+  return {
+    url: `http://${host}:${port}${MOCK_API_PREFIX}`,
+    apiKey,
+    state,
+    injectFailures: (...statuses) => {
+      failures.push(...statuses);
+    },
+    close: () => new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
@@ -0,0 +1,10 @@
+import { startMockApiServer } from './server';
+
+// Runs the mock API for offline development: bun run mock-api
+const port = Number(process.env.PORT || 8000);
+const server = await startMockApiServer({ port });
+
+console.log(`Mock Phala Cloud API listening on ${server.url}`);
+console.log('Point the CLI at it with:');
+console.log(`  export PHALA_CLOUD_API_PREFIX=${server.url}`);
+console.log(`  export PHALA_CLOUD_API_KEY=${server.apiKey}`);
@@ -0,0 +1,365 @@
+import crypto from 'node:crypto';
+
+/**
+ * Status steps applied to a CVM after an operation, e.g. ['starting', 'running']
+ */
+export type StatusTransition = { status: string; at: number };
+
+/**
+ * A CVM stored by the mock API
+ */
+export interface MockCvm {
+  id: number;
+  vm_uuid: string;
+  app_id: string;
+  instance_id: string;
+  name: string;
+  status: string;
+  transitions: StatusTransition[];
+  teepod_id: number;
+  base_image: string;
+  vcpu: number;
+  memory: number;
+  disk_size: number;
+  app_compose: Record<string, unknown>;
+  encrypted_env: string | null;
+  env_keys: string[];
+  encrypted_env_pubkey: string;
+  kms_id: string | null;
+  created_at: string;
+  logs: Array<{ timestamp: string; service: string; message: string }>;
+}
+
+/**
+ * A provisioned but not yet committed deployment or compose update
+ */
+export interface PendingProvision {
+  app_id: string;
+  compose_hash: string;
+  app_compose: Record<string, unknown>;
+  teepod_id: number;
+  image: string;
+  vcpu: number;
+  memory: number;
+  disk_size: number;
+  kms_id: string | null;
+  encrypted_env_pubkey: string;
+}
+
+export interface MockStateOptions {
+  // Delay between two status steps in ms, 0 applies them immediately
+  stepDelayMs?: number;
+  // Seed a running CVM so read-only commands have something to show
+  seed?: boolean;
+}
+
+export const MOCK_USER = {
+  id: 1,
+  username: 'mock-user',
+  email: 'mock-user@example.com',
+  credits: '100.00',
+  granted_credits: '0.00',
+  avatar: '',
+  team_name: 'mock-team',
+  team_tier: 'free',
+};
+
+export const MOCK_IMAGES = [
+  {
+    name: 'dstack-0.3.6',
+    description: 'dstack 0.3.6',
+    version: [0, 3, 6],
+    is_dev: false,
+    os_image_hash: 'a'.repeat(64),
+    rootfs_hash: 'b'.repeat(96),
+    shared_ro: true,
+    cmdline: 'console=ttyS0',
+    kernel: 'bzImage',
+    initrd: 'initramfs.cpio.gz',
+    hda: null,
+    rootfs: 'rootfs.img.verity',
+    bios: 'ovmf.fd',
+  },
+  {
+    name: 'dstack-dev-0.3.6',
+    description: 'dstack 0.3.6 (dev)',
+    version: [0, 3, 6],
+    is_dev: true,
+    os_image_hash: 'c'.repeat(64),
+    rootfs_hash: 'd'.repeat(96),
+    shared_ro: true,
+    cmdline: 'console=ttyS0',
+    kernel: 'bzImage',
+    initrd: 'initramfs.cpio.gz',
+    hda: null,
+    rootfs: 'rootfs.img.verity',
+    bios: 'ovmf.fd',
+  },
+];
+
+export const MOCK_KMS_LIST = [
+  {
+    id: 'kms-base-prod',
+    slug: 'kms-base-prod',
+    url: 'https://kms.base.example.com',
+    version: 'v0.5.0',
+    chain_id: 8453,
+    kms_contract_address: '0x2f83172A49584C017F2B256F0FB2Dca14126Ba9C',
+    gateway_app_id: '0x'.padEnd(42, '1'),
+  },
+];
+
+export const MOCK_NODES = [
+  {
+    teepod_id: 1,
+    id: 1,
+    name: 'mock-node-us',
+    listed: true,
+    resource_score: 1,
+    remaining_vcpu: 64,
+    remaining_memory: 131072,
+    remaining_cvm_slots: 32,
+    images: MOCK_IMAGES,
+    region_identifier: 'us-west',
+    dedicated_for_team_id: null,
+    support_onchain_kms: false,
+    fmspc: '00806f050000',
+    device_id: 'e'.repeat(64),
+  },
+  {
+    teepod_id: 2,
+    id: 2,
+    name: 'mock-node-eu',
+    listed: true,
+    resource_score: 0.5,
+    remaining_vcpu: 32,
+    remaining_memory: 65536,
+    remaining_cvm_slots: 16,
+    images: MOCK_IMAGES,
+    region_identifier: 'eu-central',
+    dedicated_for_team_id: null,
+    support_onchain_kms: true,
+    fmspc: '00806f050000',
+    device_id: 'f'.repeat(64),
+  },
+];
+
+const randomHex = (bytes: number) => crypto.randomBytes(bytes).toString('hex');
+
+// Escapes of Python's json module; other control characters become \u00XX
+const PYTHON_JSON_ESCAPES: Record<string, string> = {
+  '"': '\\"',
+  '\\': '\\\\',
+  '\b': '\\b',
+  '\f': '\\f',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+};
+
+// Python sorts keys by code point, JavaScript's default sort by UTF-16 code unit
+const compareCodePoints = (a: string, b: string): number => {
+  const left = Array.from(a, (char) => char.codePointAt(0) ?? 0);
+  const right = Array.from(b, (char) => char.codePointAt(0) ?? 0);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return left.length - right.length;
+};
+
+/**
+ * Serializes a value like Python's json.dumps(value, sort_keys=True, separators=(",", ":"),
+ * ensure_ascii=False), which dstack uses for the compose hash. Written independently of
+ * the CLI's serializer, so the tests cross-check it instead of repeating it.
+ */
+export function pythonJsonDumps(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return String(value);
+  if (typeof value === 'string') {
+    const escaped = Array.from(value, (char) =>
+      PYTHON_JSON_ESCAPES[char] ?? (char < ' ' ? `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}` : char)
+    );
+    return `"${escaped.join('')}"`;
+  }
+  if (Array.isArray(value)) return `[${value.map(pythonJsonDumps).join(',')}]`;
+  const record = value as Record<string, unknown>;
+  const keys = Object.keys(record).filter((key) => record[key] !== undefined).sort(compareCodePoints);
+  return `{${keys.map((key) => `${pythonJsonDumps(key)}:${pythonJsonDumps(record[key])}`).join(',')}}`;
+}
+
+/**
+ * SHA-256 of the app compose serialized as dstack does, as measured into the compose-hash event
+ */
+export function hashAppCompose(appCompose: Record<string, unknown>): string {
+  return crypto.createHash('sha256').update(pythonJsonDumps(appCompose)).digest('hex');
+}
+
+/**
+ * Generates an X25519 public key in the hex format used for env encryption
+ */
+export function generateEnvPubkey(): string {
+  const { publicKey } = crypto.generateKeyPairSync('x25519');
+  return publicKey.export({ type: 'spki', format: 'der' }).subarray(-32).toString('hex');
+}
+
+/**
+ * In-memory state of the mock API: CVMs, pending provisions and status transitions
+ */
+export class MockApiState {
+  readonly cvms = new Map<string, MockCvm>();
+  readonly provisions = new Map<string, PendingProvision>();
+  readonly stepDelayMs: number;
+  private nextId = 1;
+
+  constructor(options: MockStateOptions = {}) {
+    this.stepDelayMs = options.stepDelayMs ?? 500;
+    if (options.seed ?? true) {
+      this.createCvm({
+        name: 'mock-app',
+        teepod_id: MOCK_NODES[0].teepod_id,
+        image: MOCK_IMAGES[0].name,
+        vcpu: 1,
+        memory: 2048,
+        disk_size: 40,
+        app_compose: {
+          name: 'mock-app',
+          runner: 'docker-compose',
+          docker_compose_file: 'services:\n  app:\n    image: nginx:latest\n    ports:\n      - "80:80"\n',
+          allowed_envs: [],
+          features: ['kms', 'tproxy-net'],
+          kms_enabled: true,
+          manifest_version: 2,
+          public_logs: true,
+          public_sysinfo: true,
+          tproxy_enabled: true,
+        },
+        immediate: true,
+      });
+    }
+  }
+
+  /**
+   * Creates a CVM which goes through creating -> starting -> running
+   */
+  createCvm(input: {
+    name: string;
+    teepod_id: number;
+    image: string;
+    vcpu: number;
+    memory: number;
+    disk_size: number;
+    app_compose: Record<string, unknown>;
+    app_id?: string;
+    encrypted_env?: string | null;
+    env_keys?: string[];
+    encrypted_env_pubkey?: string;
+    kms_id?: string | null;
+    immediate?: boolean;
+  }): MockCvm {
+    const cvm: MockCvm = {
+      id: this.nextId++,
+      vm_uuid: crypto.randomUUID(),
+      app_id: input.app_id || randomHex(20),
+      instance_id: randomHex(20),
+      name: input.name,
+      status: 'creating',
+      transitions: [],
+      teepod_id: input.teepod_id,
+      base_image: input.image,
+      vcpu: input.vcpu,
+      memory: input.memory,
+      disk_size: input.disk_size,
+      app_compose: input.app_compose,
+      encrypted_env: input.encrypted_env ?? null,
+      env_keys: input.env_keys || [],
+      encrypted_env_pubkey: input.encrypted_env_pubkey || generateEnvPubkey(),
+      kms_id: input.kms_id ?? null,
+      created_at: new Date().toISOString(),
+      logs: [],
+    };
+    this.cvms.set(cvm.vm_uuid, cvm);
+    this.log(cvm, 'dstack-guest-agent', `Booting ${input.image}`);
+    this.transition(cvm, input.immediate ? ['running'] : ['creating', 'starting', 'running']);
+    return cvm;
+  }
+
+  /**
+   * Finds a CVM by app_<app_id>, app id, vm uuid (with or without dashes), instance id or numeric id.
+   * Replicas share an app id, the first CVM created wins.
+   */
+  findCvm(identifier: string): MockCvm | undefined {
+    const id = identifier.replace(/^app_/, '').replace(/^instance_/, '');
+    for (const cvm of this.cvms.values()) {
+      if (
+        cvm.app_id === id ||
+        cvm.vm_uuid === id ||
+        cvm.vm_uuid.replace(/-/g, '') === id ||
+        cvm.instance_id === id ||
+        String(cvm.id) === id
+      ) {
+        this.refresh(cvm);
+        return cvm;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns all CVMs with their current status
+   */
+  listCvms(): MockCvm[] {
+    const cvms = [...this.cvms.values()];
+    for (const cvm of cvms) {
+      this.refresh(cvm);
+    }
+    return cvms;
+  }
+
+  deleteCvm(cvm: MockCvm): void {
+    this.cvms.delete(cvm.vm_uuid);
+  }
+
+  /**
+   * Schedules status steps: the first one applies now, the next ones after stepDelayMs each
+   */
+  transition(cvm: MockCvm, steps: string[]): void {
+    const now = Date.now();
+    cvm.transitions = steps.map((status, index) => ({ status, at: now + index * this.stepDelayMs }));
+    this.refresh(cvm);
+  }
+
+  /**
+   * Applies the status steps that are due
+   */
+  refresh(cvm: MockCvm): void {
+    const now = Date.now();
+    while (cvm.transitions.length > 0 && cvm.transitions[0].at <= now) {
+      const [step] = cvm.transitions.splice(0, 1);
+      if (step.status !== cvm.status) {
+        cvm.status = step.status;
+        this.log(cvm, 'dstack-guest-agent', `CVM is ${step.status}`);
+      }
+    }
+  }
+
+  /**
+   * True while the CVM has status steps left
+   */
+  inProgress(cvm: MockCvm): boolean {
+    return cvm.transitions.length > 0;
+  }
+
+  log(cvm: MockCvm, service: string, message: string): void {
+    cvm.logs.push({ timestamp: new Date().toISOString(), service, message });
+  }
+
+  /**
+   * Stores a provision and returns its compose hash
+   */
+  provision(provision: Omit<PendingProvision, 'compose_hash'>): PendingProvision {
+    const pending = { ...provision, compose_hash: hashAppCompose(provision.app_compose) };
+    this.provisions.set(pending.compose_hash, pending);
+    return pending;
+  }
+}
@@ -0,0 +1,87 @@
+import { verifyAttestationBundle, writeAttestationBundle } from '../../src/utils/attestation-bundle';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+const NOW = new Date('2025-03-01T00:00:00Z');
+const ZERO_RTMR = '00'.repeat(48);
+
+const attestation = {
+  is_online: true,
+  is_public: true,
+  error: null,
+  compose_file: null,
+  app_certificates: [
+    {
+      subject: { common_name: 'app.example.com', organization: null, country: null },
+      issuer: { common_name: 'Dstack CA', organization: null, country: null },
+      serial_number: '01',
+      not_before: '2025-01-01T00:00:00Z',
+      not_after: '2025-07-01T00:00:00Z',
+      version: 'v3',
+      fingerprint: 'aa',
+      signature_algorithm: 'ecdsa-with-SHA256',
+      sans: null,
+      is_ca: false,
+      position_in_chain: 0,
+      quote: '0400020081000000',
+    },
+  ],
+  tcb_info: {
+    mrtd: 'aa'.repeat(48),
+    rootfs_hash: 'bb'.repeat(48),
+    rtmr0: ZERO_RTMR,
+    rtmr1: ZERO_RTMR,
+    rtmr2: ZERO_RTMR,
+    rtmr3: ZERO_RTMR,
+    event_log: [],
+  },
+};
+
+// Helper to create a unique temporary path
+const tempPath = (suffix = ''): string =>
+  path.join(os.tmpdir(), `test-bundle-${Date.now()}-${Math.random().toString(36).substring(2, 7)}${suffix}`);
+
+describe('attestation bundles', () => {
+  test('should write a directory bundle with checksums', async () => {
+    const dir = tempPath();
+    try {
+      const manifest = await writeAttestationBundle(attestation, dir, 'abc');
+      expect(Object.keys(manifest.files).sort()).toEqual(['attestation.json', 'event_log.json', 'quotes/cert-0.hex']);
+      expect(fs.readFileSync(path.join(dir, 'quotes/cert-0.hex'), 'utf8')).toBe('0400020081000000');
+
+      const result = await verifyAttestationBundle(dir, NOW);
+      const failed = result.checks.filter((check) => !check.passed).map((check) => check.name);
+      // The synthetic report has no compose-hash event
+      expect(failed).toEqual(['Compose Hash']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should detect tampered files', async () => {
+    const dir = tempPath();
+    try {
+      await writeAttestationBundle(attestation, dir, 'abc');
+      fs.writeFileSync(path.join(dir, 'quotes/cert-0.hex'), 'ff');
+      const result = await verifyAttestationBundle(dir, NOW);
+      expect(result.passed).toBe(false);
+      expect(result.checks.find((check) => check.name === 'Checksum quotes/cert-0.hex')?.passed).toBe(false);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should round-trip a tarball and check certificate dates', async () => {
+    const tarball = tempPath('.tar.gz');
+    try {
+      await writeAttestationBundle(attestation, tarball, 'abc');
+      const result = await verifyAttestationBundle(tarball, new Date('2026-01-01T00:00:00Z'));
+      expect(result.manifest?.app_id).toBe('abc');
+      expect(result.checks.find((check) => check.name === 'Checksum attestation.json')?.passed).toBe(true);
+      expect(result.checks.find((check) => check.name === 'Certificate Validity')?.passed).toBe(false);
+    } finally {
+      fs.rmSync(tarball, { force: true });
+    }
+  });
+});
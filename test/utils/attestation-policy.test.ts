@@ -0,0 +1,140 @@
+import {
+  collectNodeImageHashes,
+  evaluateAttestationPolicy,
+  loadAttestationPolicy,
+} from '../../src/utils/attestation-policy';
+import { COMPOSE_HASH_EVENT } from '../../src/utils/attestation';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+
+// Helper to create a temporary policy file for testing
+const createTempPolicy = (content: string): string => {
+  const tempFilePath = path.join(os.tmpdir(), `test-policy-${Date.now()}-${Math.random().toString(36).substring(2, 7)}.yaml`);
+  fs.writeFileSync(tempFilePath, content);
+  return tempFilePath;
+};
+
+const buildAttestation = () => ({
+  is_online: true,
+  is_public: true,
+  error: null,
+  compose_file: null,
+  app_certificates: [
+    {
+      subject: { common_name: 'app.example.com', organization: null, country: null },
+      issuer: { common_name: 'Dstack CA', organization: null, country: null },
+      serial_number: '01',
+      not_before: '2025-01-01T00:00:00Z',
+      not_after: '2025-07-01T00:00:00Z',
+      version: 'v3',
+      fingerprint: 'aa',
+      signature_algorithm: 'ecdsa-with-SHA256',
+      sans: null,
+      is_ca: false,
+      position_in_chain: 0,
+      quote: null,
+    },
+  ],
+  tcb_info: {
+    mrtd: 'AA'.repeat(48),
+    rootfs_hash: 'bb'.repeat(48),
+    rtmr0: '', rtmr1: '', rtmr2: '', rtmr3: '',
+    event_log: [{ imr: 3, event_type: 0x08000001, event: COMPOSE_HASH_EVENT, event_payload: 'cc'.repeat(32), digest: '' }],
+  },
+});
+
+describe('evaluateAttestationPolicy', () => {
+  test('should pass when all measurements match', () => {
+    const report = evaluateAttestationPolicy({
+      mrtd: `0x${'aa'.repeat(48)}`,
+      rootfs_hash: 'bb'.repeat(48),
+      compose_hash: 'cc'.repeat(32),
+      os_image_hash: { allowed: ['dd'.repeat(32)] },
+      certificates: { min_days_until_expiry: 14 },
+    }, { attestation: buildAttestation(), osImageHash: 'dd'.repeat(32), now: NOW });
+    expect(report.passed).toBe(true);
+    expect(report.rules).toHaveLength(5);
+  });
+
+  test('should fail on drifted measurements', () => {
+    const report = evaluateAttestationPolicy({ mrtd: '00'.repeat(48), compose_hash: 'cc'.repeat(32) }, {
+      attestation: buildAttestation(),
+      now: NOW,
+    });
+    expect(report.passed).toBe(false);
+    expect(report.rules.find((rule) => rule.rule === 'mrtd')?.passed).toBe(false);
+    expect(report.rules.find((rule) => rule.rule === 'compose_hash')?.passed).toBe(true);
+  });
+
+  test('should accept OS image hashes published by the nodes', () => {
+    const report = evaluateAttestationPolicy({ os_image_hash: { from_node_images: true } }, {
+      attestation: buildAttestation(),
+      osImageHash: '0xDD',
+      nodeImageHashes: ['dd'],
+    });
+    expect(report.passed).toBe(true);
+  });
+
+  test('should fail when the OS image hash cannot be resolved', () => {
+    const report = evaluateAttestationPolicy({ os_image_hash: { from_node_images: true } }, {
+      attestation: buildAttestation(),
+      nodeImageHashes: ['dd'],
+    });
+    expect(report.passed).toBe(false);
+  });
+
+  test('should fail when certificates expire too soon', () => {
+    const report = evaluateAttestationPolicy({ certificates: { min_days_until_expiry: 60 } }, {
+      attestation: buildAttestation(),
+      now: NOW,
+    });
+    expect(report.passed).toBe(false);
+    expect(report.rules[0].actual).toBe('30 days');
+  });
+});
+
+describe('collectNodeImageHashes', () => {
+  test('should collect unique hashes across nodes', () => {
+    const hashes = collectNodeImageHashes({
+      tier: 'free',
+      capacity: { max_instances: null, max_vcpu: null, max_memory: null, max_disk: null },
+      nodes: [
+        { teepod_id: 1, name: 'a', images: [{ name: 'dstack-0.3.6', os_image_hash: '0xAB' }, { name: 'dev' }] },
+        { teepod_id: 2, name: 'b', images: [{ name: 'dstack-0.3.6', os_image_hash: 'ab' }] },
+      ],
+    });
+    expect(hashes).toEqual(['ab']);
+  });
+});
+
+describe('loadAttestationPolicy', () => {
+  test('should load a YAML policy', () => {
+    const policyPath = createTempPolicy(`mrtd: "0xaa"
+os_image_hash:
+  from_node_images: true
+certificates:
+  min_days_until_expiry: 7
+`);
+    try {
+      expect(loadAttestationPolicy(policyPath)).toEqual({
+        mrtd: '0xaa',
+        os_image_hash: { from_node_images: true },
+        certificates: { min_days_until_expiry: 7 },
+      });
+    } finally {
+      fs.unlinkSync(policyPath);
+    }
+  });
+
+  test('should reject unknown rules', () => {
+    const policyPath = createTempPolicy('mrtdd: aa\n');
+    try {
+      expect(() => loadAttestationPolicy(policyPath)).toThrow('Invalid policy file');
+    } finally {
+      fs.unlinkSync(policyPath);
+    }
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  COMPOSE_HASH_EVENT,
+  DSTACK_RUNTIME_EVENT_TYPE,
+  computeComposeHash,
+  computeRuntimeEventDigest,
+  replayRtmrs,
+  verifyAttestation,
+} from '../../src/utils/attestation';
+import * as crypto from 'node:crypto';
+
+const ZERO_RTMR = '00'.repeat(48);
+const COMPOSE_FILE = '{"docker_compose_file":"services: {}","runner":"docker-compose"}';
+
+// Helper to build a runtime event the same way dstack does
+const runtimeEvent = (event: string, payload: string) => {
+  const entry = { imr: 3, event_type: DSTACK_RUNTIME_EVENT_TYPE, event, event_payload: payload, digest: '' };
+  entry.digest = computeRuntimeEventDigest(entry);
+  return entry;
+};
+
+const extend = (rtmr: string, digest: string): string =>
+  crypto.createHash('sha384').update(Buffer.from(rtmr + digest, 'hex')).digest('hex');
+
+// Helper to build a consistent attestation report
+const buildAttestation = () => {
+  const bootEvent = { imr: 0, event_type: 1, event: '', event_payload: '', digest: 'ab'.repeat(48) };
+  const events = [
+    bootEvent,
+    runtimeEvent('app-id', 'cd'.repeat(20)),
+    runtimeEvent(COMPOSE_HASH_EVENT, computeComposeHash(COMPOSE_FILE)),
+  ];
+  const rtmr0 = extend(ZERO_RTMR, bootEvent.digest);
+  const rtmr3 = extend(extend(ZERO_RTMR, events[1].digest), events[2].digest);
+  return {
+    compose_file: COMPOSE_FILE,
+    tcb_info: {
+      mrtd: 'ff'.repeat(48),
+      rootfs_hash: 'ee'.repeat(48),
+      rtmr0,
+      rtmr1: ZERO_RTMR,
+      rtmr2: ZERO_RTMR,
+      rtmr3,
+      event_log: events,
+    },
+  };
+};
+
+describe('replayRtmrs', () => {
+  test('should return zeroed registers for an empty event log', () => {
+    expect(replayRtmrs([])).toEqual([ZERO_RTMR, ZERO_RTMR, ZERO_RTMR, ZERO_RTMR]);
+  });
+
+  test('should pad short digests to 48 bytes before extending', () => {
+    const [rtmr0] = replayRtmrs([{ imr: 0, event_type: 1, event: '', event_payload: '', digest: '0x01' }]);
+    expect(rtmr0).toBe(extend(ZERO_RTMR, `01${'00'.repeat(47)}`));
+  });
+
+  test('should reject invalid IMR indexes', () => {
+    expect(() => replayRtmrs([{ imr: 4, event_type: 1, event: '', event_payload: '', digest: '00' }])).toThrow();
+  });
+});
+
+describe('verifyAttestation', () => {
+  test('should pass for a consistent attestation report', () => {
+    const result = verifyAttestation(buildAttestation());
+    expect(result.passed).toBe(true);
+    expect(result.checks.map((check) => check.name)).toEqual([
+      'RTMR0', 'RTMR1', 'RTMR2', 'RTMR3', 'Runtime Event Digests', 'Compose Hash',
+    ]);
+  });
+
+  test('should fail when a reported RTMR does not match the replay', () => {
+    const attestation = buildAttestation();
+    attestation.tcb_info.rtmr3 = ZERO_RTMR;
+    const result = verifyAttestation(attestation);
+    expect(result.passed).toBe(false);
+    expect(result.checks.find((check) => check.name === 'RTMR3')?.passed).toBe(false);
+  });
+
+  test('should fail when a runtime event payload was tampered with', () => {
+    const attestation = buildAttestation();
+    attestation.tcb_info.event_log[1].event_payload = 'ef'.repeat(20);
+    const result = verifyAttestation(attestation);
+    expect(result.passed).toBe(false);
+    expect(result.checks.find((check) => check.name === 'Runtime Event Digests')?.message).toContain('app-id');
+  });
+
+  test('should fail when the compose file does not match the compose-hash event', () => {
+    const attestation = buildAttestation();
+    attestation.compose_file = `${COMPOSE_FILE} `;
+    const result = verifyAttestation(attestation);
+    expect(result.passed).toBe(false);
+    expect(result.checks.find((check) => check.name === 'Compose Hash')?.passed).toBe(false);
+  });
+
+  test('should fail without TCB information', () => {
+    const result = verifyAttestation({ tcb_info: null, compose_file: null });
+    expect(result.passed).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+// Test chain generated with openssl: a self-signed CA issuing a leaf for
+// app.example.com and *.app.example.com, plus an unrelated self-signed CA.
+// The certificates are valid from 2026-10-19 until 2126.
+export const CA_PEM = `-----BEGIN CERTIFICATE-----
+MIIBuDCCAV2gAwIBAgIUQpZYCbbmqvJ82voZ2TOmW01IbiIwCgYIKoZIzj0EAwIw
+KDEXMBUGA1UEAwwOVGVzdCBEc3RhY2sgQ0ExDTALBgNVBAoMBFRlc3QwIBcNMjYx
+MDE5MDYwMjMxWhgPMjEyNjA5MjUwNjAyMzFaMCgxFzAVBgNVBAMMDlRlc3QgRHN0
+YWNrIENBMQ0wCwYDVQQKDARUZXN0MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE
+Vq1cB0sE5K1yzoYkXjBgI61MXxSM2cqNN+eUBpLftDDuImJvr8sm6LRBw6q0uo7X
+Zv6/5JqOErqgNeQmd38icKNjMGEwHQYDVR0OBBYEFFJGhm3KFI0NyNIguJn7VWQk
+FJabMB8GA1UdIwQYMBaAFFJGhm3KFI0NyNIguJn7VWQkFJabMA8GA1UdEwEB/wQF
+MAMBAf8wDgYDVR0PAQH/BAQDAgIEMAoGCCqGSM49BAMCA0kAMEYCIQCHPqGPVS0i
+dQQQEXsi8fT2wrw3aDD6XDO6SFtwdgXR9gIhAJtDeiPNLBm2bf/bzX1p3VmCfPBe
+Ur6kRq3YD0jPQFYT
+-----END CERTIFICATE-----`;
+
+export const LEAF_PEM = `-----BEGIN CERTIFICATE-----
+MIIBwjCCAWigAwIBAgIUbvLmhOkXtc6PH/1RUrV+Imo1NZIwCgYIKoZIzj0EAwIw
+KDEXMBUGA1UEAwwOVGVzdCBEc3RhY2sgQ0ExDTALBgNVBAoMBFRlc3QwIBcNMjYx
+MDE5MDYwMjMxWhgPMjEyNjA5MjUwNjAyMzFaMBoxGDAWBgNVBAMMD2FwcC5leGFt
+cGxlLmNvbTBZMBMGByqGSM49AgEGCCqGSM49AwEHA0IABGbQxcBEknEf/Sp9060x
+ScxduLQLNSP+/AV9/fdJCiajBd/Tm80jh/GHqJ/ig0LjEZGrHwa4VvAhS8pgGdER
+fR+jfDB6MC0GA1UdEQQmMCSCESouYXBwLmV4YW1wbGUuY29tgg9hcHAuZXhhbXBs
+ZS5jb20wCQYDVR0TBAIwADAdBgNVHQ4EFgQUWT9TJAboZK0tMbPnN2A26NDJaTQw
+HwYDVR0jBBgwFoAUUkaGbcoUjQ3I0iC4mftVZCQUlpswCgYIKoZIzj0EAwIDSAAw
+RQIhAMnK+/L7SrGVF5OWZzUAJMe8PeWPQqJY0z4IDNydX1MtAiAr82FkoRhv7LuW
+qUiQn0zGLp180Y8lD+GmYg2b/zSsLQ==
+-----END CERTIFICATE-----`;
+
+export const OTHER_CA_PEM = `-----BEGIN CERTIFICATE-----
+MIIBmjCCAUGgAwIBAgIUeab/3ObpdTwxxh417SCiMNj+V0owCgYIKoZIzj0EAwIw
+IjERMA8GA1UEAwwIT3RoZXIgQ0ExDTALBgNVBAoMBFRlc3QwIBcNMjYxMDE5MDYw
+MjMxWhgPMjEyNjA5MjUwNjAyMzFaMCIxETAPBgNVBAMMCE90aGVyIENBMQ0wCwYD
+VQQKDARUZXN0MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEa+itcg3KuVKsHHFb
+MMuxaRPvwjbrJb5QBR2w5VFScT+bNstZhaFB2PQFDAh77+x7D0pQws3+qqLO1MH0
+Rc+GzKNTMFEwHQYDVR0OBBYEFDNLyWIg8WknNpvUq1DmD01PfGnoMB8GA1UdIwQY
+MBaAFDNLyWIg8WknNpvUq1DmD01PfGnoMA8GA1UdEwEB/wQFMAMBAf8wCgYIKoZI
+zj0EAwIDRwAwRAIgFPCt32lXuHRb98dNonrdb+SbsyCAKBHiy4RqIozKV8gCICq4
+nixpCDvOy7kRW6ewOhctFlpNUUJD/Pag6xLJucvK
+-----END CERTIFICATE-----`;
@@ -0,0 +1,111 @@
+import { hostnamesFromPublicUrls, parseSanDnsNames, validateCertificateChain } from '../../src/utils/certificates';
+import { CA_PEM, LEAF_PEM, OTHER_CA_PEM } from './certificate-fixtures';
+
+const NOW = new Date('2030-01-01T00:00:00Z');
+
+const name = (commonName: string, organization: string | null = 'Test') => ({ common_name: commonName, organization, country: null });
+
+// Helper to build an app certificate entry as returned by the attestation API
+const appCertificate = (pem: string, position: number, commonName: string, overrides: Record<string, unknown> = {}) => ({
+  subject: name(commonName, position > 0 ? 'Test' : null),
+  issuer: name('Test Dstack CA'),
+  serial_number: String(position),
+  not_before: '2026-10-19T06:02:31.000Z',
+  not_after: '2126-09-25T06:02:31.000Z',
+  version: 'v3',
+  fingerprint: '',
+  signature_algorithm: 'ecdsa-with-SHA256',
+  sans: position === 0 ? 'DNS:app.example.com, DNS:*.app.example.com' : null,
+  is_ca: position > 0,
+  position_in_chain: position,
+  quote: null,
+  pem,
+  ...overrides,
+});
+
+describe('validateCertificateChain', () => {
+  test('should pass for a linked, valid chain', () => {
+    const result = validateCertificateChain(
+      [appCertificate(CA_PEM, 1, 'Test Dstack CA'), appCertificate(LEAF_PEM, 0, 'app.example.com')],
+      { now: NOW, hostnames: ['app.example.com', 'abc.app.example.com'] }
+    );
+    expect(result.passed).toBe(true);
+    expect(result.certificates.map((cert) => cert.position_in_chain)).toEqual([0, 1]);
+    expect(result.certificates[0]).toMatchObject({ linkage: 'pass', signature: 'pass', validity: 'pass', san: 'pass' });
+    expect(result.certificates[1]).toMatchObject({ linkage: 'pass', signature: 'pass', san: 'skip' });
+  });
+
+  test('should report broken linkage and signature per certificate', () => {
+    const result = validateCertificateChain(
+      [appCertificate(LEAF_PEM, 0, 'app.example.com'), appCertificate(OTHER_CA_PEM, 1, 'Other CA', { issuer: name('Other CA') })],
+      { now: NOW }
+    );
+    expect(result.passed).toBe(false);
+    expect(result.certificates[0]).toMatchObject({ linkage: 'fail', signature: 'fail', passed: false });
+    expect(result.certificates[1].passed).toBe(true);
+  });
+
+  test('should report SAN mismatches and expired certificates', () => {
+    const result = validateCertificateChain(
+      [appCertificate(LEAF_PEM, 0, 'app.example.com'), appCertificate(CA_PEM, 1, 'Test Dstack CA')],
+      { now: new Date('2200-01-01T00:00:00Z'), hostnames: ['other.example.org'] }
+    );
+    expect(result.certificates[0].san).toBe('fail');
+    expect(result.certificates[0].validity).toBe('fail');
+    expect(result.certificates[0].errors.join(' ')).toContain('other.example.org');
+  });
+
+  test('should check a chain without raw PEM data from the certificate details', () => {
+    const result = validateCertificateChain([appCertificate('', 0, 'app.example.com'), appCertificate('', 1, 'Test Dstack CA')], {
+      now: NOW,
+      hostnames: ['app.example.com', 'abc.app.example.com'],
+    });
+    expect(result.passed).toBe(true);
+    expect(result.certificates[0]).toMatchObject({ linkage: 'pass', signature: 'skip', validity: 'pass', san: 'pass', errors: [] });
+    expect(result.certificates[1]).toMatchObject({ linkage: 'pass', signature: 'skip', validity: 'pass', san: 'skip' });
+  });
+
+  test('should report linkage, validity and SAN failures from the certificate details', () => {
+    const mismatched = validateCertificateChain([appCertificate('', 0, 'app.example.com'), appCertificate('', 1, 'Other CA')], {
+      now: new Date('2200-01-01T00:00:00Z'),
+      hostnames: ['a.b.app.example.com'],
+    });
+    expect(mismatched.passed).toBe(false);
+    expect(mismatched.certificates[0]).toMatchObject({ linkage: 'fail', validity: 'fail', san: 'fail' });
+    expect(mismatched.certificates[0].errors.join(' ')).toContain('does not match subject of next certificate "Other CA, Test"');
+    // The last certificate is not self-issued
+    expect(mismatched.certificates[1].errors.join(' ')).toContain('Chain ends before its root');
+
+    const notCa = validateCertificateChain(
+      [appCertificate('', 0, 'app.example.com'), appCertificate('', 1, 'Test Dstack CA', { is_ca: false })],
+      { now: NOW }
+    );
+    expect(notCa.certificates[0].errors).toEqual(['Issuer "Test Dstack CA, Test" is not a CA']);
+  });
+
+  test('should fail certificates with invalid PEM data', () => {
+    const result = validateCertificateChain([appCertificate('not a certificate', 0, 'app.example.com')], { now: NOW });
+    expect(result.passed).toBe(false);
+    expect(result.certificates[0].linkage).toBe('fail');
+  });
+
+  test('should fail an empty chain', () => {
+    expect(validateCertificateChain([]).passed).toBe(false);
+  });
+});
+
+describe('parseSanDnsNames', () => {
+  test('should keep the DNS names only', () => {
+    expect(parseSanDnsNames('DNS:App.example.com, IP Address:10.0.0.1, DNS:*.app.example.com')).toEqual(['app.example.com', '*.app.example.com']);
+    expect(parseSanDnsNames(null)).toEqual([]);
+  });
+});
+
+describe('hostnamesFromPublicUrls', () => {
+  test('should extract unique hostnames', () => {
+    expect(hostnamesFromPublicUrls([
+      { app: 'https://abc-3000.app.example.com', instance: 'https://def-3000.app.example.com/' },
+      { app: 'abc-3000.app.example.com', instance: '' },
+    ])).toEqual(['abc-3000.app.example.com', 'def-3000.app.example.com']);
+  });
+});
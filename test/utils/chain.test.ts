@@ -0,0 +1,69 @@
+import { DSTACK_APP_SELECTORS, getChainRpcUrl, getDstackAppStatus, normalizeAddress, normalizeBytes32 } from '../../src/utils/chain';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+const APP = '0x1111111111111111111111111111111111111111';
+const OWNER = '0x2222222222222222222222222222222222222222';
+const ALLOWED_HASH = 'ab'.repeat(32);
+
+const word = (hex: string) => `0x${hex.replace(/^0x/, '').padStart(64, '0')}`;
+
+describe('Chain', () => {
+  let server: http.Server;
+  let rpcUrl: string;
+
+  // Minimal JSON-RPC node with a single DstackApp contract
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => {
+        body += chunk;
+      });
+      req.on('end', () => {
+        const { id, method, params } = JSON.parse(body);
+        let result: string | undefined;
+        if (method === 'eth_getCode') {
+          result = params[0] === APP ? '0x6080' : '0x';
+        } else if (method === 'eth_call') {
+          const data: string = params[0].data;
+          if (data === DSTACK_APP_SELECTORS.owner) {
+            result = word(OWNER);
+          } else if (data.startsWith(DSTACK_APP_SELECTORS.allowedComposeHashes)) {
+            result = word(data.endsWith(ALLOWED_HASH) ? '1' : '0');
+          }
+        }
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(result === undefined
+          ? { jsonrpc: '2.0', id, error: { code: -32601, message: `Unsupported ${method}` } }
+          : { jsonrpc: '2.0', id, result }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('normalizes addresses and hashes', () => {
+    expect(normalizeAddress(APP.slice(2).toUpperCase())).toBe(APP);
+    expect(normalizeBytes32(ALLOWED_HASH)).toBe(`0x${ALLOWED_HASH}`);
+    expect(() => normalizeAddress('0x1234')).toThrow("Invalid address '0x1234'");
+    expect(() => normalizeBytes32(APP)).toThrow('expected 32 bytes of hex');
+  });
+
+  test('reads the default RPC URL of a chain', () => {
+    expect(getChainRpcUrl({ rpcUrls: { default: { http: ['https://mainnet.base.org'] } } })).toBe('https://mainnet.base.org');
+    expect(getChainRpcUrl(undefined)).toBeUndefined();
+  });
+
+  test('checks the owner and allowed compose hashes of a DstackApp contract', async () => {
+    expect(await getDstackAppStatus(rpcUrl, APP, ALLOWED_HASH)).toEqual({ address: APP, owner: OWNER, composeHashAllowed: true });
+    expect((await getDstackAppStatus(rpcUrl, APP, `0x${'cd'.repeat(32)}`)).composeHashAllowed).toBe(false);
+  });
+
+  test('fails without a contract at the app ID', async () => {
+    await expect(getDstackAppStatus(rpcUrl, OWNER, ALLOWED_HASH)).rejects.toThrow(`No contract found at ${OWNER}`);
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  buildComposeHashApproval,
+  buildSafeTransactionBatch,
+  clearPendingApproval,
+  formatComposeHashApproval,
+  getPendingApprovalPath,
+  loadPendingApproval,
+  parseApprovalFormat,
+  savePendingApproval,
+} from '../../src/utils/compose-approval';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+const COMPOSE_HASH = 'ab'.repeat(32);
+
+const pendingUpdate = (environment?: string) => ({
+  environment,
+  cvm_uuid: 'cvm-1',
+  app_id: '0xAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  chain_id: 8453,
+  compose_hash: COMPOSE_HASH,
+  app_compose: { docker_compose_file: 'services: {}\n', allowed_envs: ['TOKEN'], name: 'app' },
+});
+
+describe('Compose hash approval', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-approval-'));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('builds the unsigned addComposeHash transaction', () => {
+    const approval = buildComposeHashApproval(savePendingApproval(pendingUpdate()));
+
+    expect(approval).toEqual({
+      chain_id: 8453,
+      to: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa',
+      value: '0',
+      data: `0xdfc77223${COMPOSE_HASH}`,
+      function: 'addComposeHash(bytes32)',
+      compose_hash: `0x${COMPOSE_HASH}`,
+      cvm_uuid: 'cvm-1',
+    });
+    expect(JSON.parse(formatComposeHashApproval(approval, 'json'))).toEqual(approval);
+  });
+
+  test('builds a Safe Transaction Builder batch', () => {
+    const approval = buildComposeHashApproval(savePendingApproval(pendingUpdate()));
+    const batch = buildSafeTransactionBatch(approval, new Date(1_700_000_000_000));
+
+    expect(batch).toMatchObject({ version: '1.0', chainId: '8453', createdAt: 1_700_000_000_000 });
+    expect(batch.transactions).toEqual([
+      expect.objectContaining({
+        to: approval.to,
+        value: '0',
+        data: approval.data,
+        contractInputsValues: { composeHash: approval.compose_hash },
+      }),
+    ]);
+    expect(JSON.parse(formatComposeHashApproval(approval, 'safe')).transactions[0].data).toBe(approval.data);
+  });
+
+  test('parses the approval format', () => {
+    expect(parseApprovalFormat(undefined)).toBe('json');
+    expect(parseApprovalFormat('safe')).toBe('safe');
+    expect(() => parseApprovalFormat('csv')).toThrow("Invalid approval format 'csv', expected one of: json, safe");
+  });
+
+  test('saves, loads and clears the pending update per environment', () => {
+    expect(loadPendingApproval()).toBeUndefined();
+
+    savePendingApproval(pendingUpdate());
+    savePendingApproval({ ...pendingUpdate('production'), rollback_of: 3 });
+
+    expect(loadPendingApproval()).toMatchObject({ version: 1, cvm_uuid: 'cvm-1', compose_hash: COMPOSE_HASH });
+    // Unknown fields of the provision request are kept for provisioning it again
+    expect(loadPendingApproval()?.app_compose.name).toBe('app');
+    expect(loadPendingApproval('production')?.rollback_of).toBe(3);
+    expect(getPendingApprovalPath('production')).toBe(path.join(process.cwd(), '.phala', 'pending-approval.production.json'));
+
+    clearPendingApproval('production');
+    expect(loadPendingApproval('production')).toBeUndefined();
+    expect(loadPendingApproval()).toBeDefined();
+  });
+
+  test('rejects an invalid pending approval file', () => {
+    fs.mkdirSync(path.join(dir, '.phala'));
+    fs.writeFileSync(getPendingApprovalPath(), JSON.stringify({ version: 1, cvm_uuid: 'cvm-1' }));
+
+    expect(() => loadPendingApproval()).toThrow(/Invalid pending approval file .*app_id/);
+  });
+});
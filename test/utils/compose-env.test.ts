@@ -0,0 +1,61 @@
+import {
+  checkComposeEnv,
+  findPassthroughEnvKeys,
+  formatComposeEnvReport,
+  hasComposeEnvIssues,
+} from '../../src/utils/compose-env';
+
+const COMPOSE = `
+services:
+  app:
+    image: me/app:\${TAG:-latest}
+    environment:
+      - DATABASE_URL=\${DATABASE_URL}
+      - OPENAI_API_KEY
+      - LOG_LEVEL=info
+  worker:
+    image: me/worker
+    command: sh -c 'echo $$HOME && run --token $WORKER_TOKEN'
+    environment:
+      SENTRY_DSN:
+      REGION: eu
+`;
+
+describe('Compose env check', () => {
+  test('finds keys passed through to containers', () => {
+    expect(findPassthroughEnvKeys({
+      services: {
+        app: { environment: ['A', 'B=1'] },
+        db: { environment: { C: null, D: 'x' } },
+        cache: null,
+      },
+    })).toEqual(['A', 'C']);
+  });
+
+  test('reports undefined variables and unused env keys of a new CVM', () => {
+    const report = checkComposeEnv(COMPOSE, ['DATABASE_URL', 'OPENAI_API_KEY', 'SENTRY_DSN', 'STRIPE_KEY']);
+
+    expect(report).toEqual({ undefined_variables: ['WORKER_TOKEN'], unused_keys: ['STRIPE_KEY'], removed_keys: [] });
+    expect(hasComposeEnvIssues(report)).toBe(true);
+    expect(formatComposeEnvReport(report)).toEqual([
+      'Undefined variables, empty in the CVM: WORKER_TOKEN',
+      'Env keys not referenced by the compose file: STRIPE_KEY',
+    ]);
+  });
+
+  test('reports env keys removed by an update', () => {
+    const keys = ['DATABASE_URL', 'WORKER_TOKEN'];
+    const report = checkComposeEnv(COMPOSE, keys, ['DATABASE_URL', 'WORKER_TOKEN', 'OPENAI_API_KEY']);
+
+    expect(report).toEqual({ undefined_variables: [], unused_keys: [], removed_keys: ['OPENAI_API_KEY'] });
+    expect(formatComposeEnvReport(report)).toEqual(['Env keys removed from the CVM by this update: OPENAI_API_KEY']);
+  });
+
+  test('reports nothing when the compose file and the env keys match', () => {
+    const report = checkComposeEnv(COMPOSE, ['DATABASE_URL', 'WORKER_TOKEN']);
+
+    expect(hasComposeEnvIssues(report)).toBe(false);
+    expect(formatComposeEnvReport(report)).toEqual([]);
+    expect(hasComposeEnvIssues(checkComposeEnv('services: [', ['A']))).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  buildAppCompose,
+  canonicalizeAppCompose,
+  composeHashesEqual,
+  computeAppComposeHash,
+  getDefaultCvmName,
+} from '../../src/utils/compose-hash';
+import {
+  COMPOSE_HASH_EVENT,
+  DSTACK_RUNTIME_EVENT_TYPE,
+  computeComposeHash,
+  getComposeHashFromEventLog,
+} from '../../src/utils/attestation';
+
+const DOCKER_COMPOSE = 'services:\n  web:\n    image: nginx\n';
+
+describe('Compose hash', () => {
+  test('builds the app compose with the defaults of the provision step', () => {
+    expect(buildAppCompose({ name: 'my-app', dockerComposeFile: DOCKER_COMPOSE })).toEqual({
+      manifest_version: 2,
+      name: 'my-app',
+      runner: 'docker-compose',
+      docker_compose_file: DOCKER_COMPOSE,
+      allowed_envs: [],
+      features: ['kms', 'tproxy-net'],
+      kms_enabled: true,
+      gateway_enabled: true,
+      public_logs: true,
+      public_sysinfo: true,
+      local_key_provider_enabled: false,
+      no_instance_id: false,
+      secure_time: false,
+    });
+
+    const appCompose = buildAppCompose({ name: 'my-app', dockerComposeFile: DOCKER_COMPOSE, kmsEnabled: false, gatewayEnabled: false, preLaunchScript: '' });
+    expect(appCompose.features).toEqual([]);
+    expect(appCompose).not.toHaveProperty('pre_launch_script');
+  });
+
+  test('serializes with sorted keys and no whitespace', () => {
+    expect(canonicalizeAppCompose({ name: 'a', allowed_envs: ['B', 'A'], nested: { z: 1, a: null } }))
+      .toBe('{"allowed_envs":["B","A"],"name":"a","nested":{"a":null,"z":1}}');
+  });
+
+  // Reference hashes computed with json.dumps(sort_keys=True, separators=(",", ":"), ensure_ascii=False), as dstack does
+  test('matches the hash of the canonical app compose', () => {
+    const options = { name: 'my-app', dockerComposeFile: DOCKER_COMPOSE, allowedEnvs: ['API_KEY'] };
+    expect(computeAppComposeHash(buildAppCompose(options)))
+      .toBe('6f737ef113de477e09bda7f557470b102f3209ad38c8a96357f31dc038f07b8f');
+    expect(computeAppComposeHash(buildAppCompose({ ...options, preLaunchScript: '#!/bin/sh\necho héllo\n' })))
+      .toBe('d2fa78342e4c1e10a979c79cd25d5f26604f0305a8ccafdbb0b79cb2c09a195d');
+  });
+
+  test('matches the compose-hash event of an attestation', () => {
+    const appCompose = buildAppCompose({ name: 'my-app', dockerComposeFile: DOCKER_COMPOSE });
+    const eventLog = [
+      { imr: 3, event_type: DSTACK_RUNTIME_EVENT_TYPE, event: 'app-id', event_payload: 'cd'.repeat(20), digest: '' },
+      {
+        imr: 3,
+        event_type: DSTACK_RUNTIME_EVENT_TYPE,
+        event: COMPOSE_HASH_EVENT,
+        event_payload: computeComposeHash(canonicalizeAppCompose(appCompose)).toUpperCase(),
+        digest: '',
+      },
+    ];
+
+    const attested = getComposeHashFromEventLog(eventLog);
+    expect(attested).toBe(computeAppComposeHash(appCompose));
+    expect(getComposeHashFromEventLog(eventLog.slice(0, 1))).toBeUndefined();
+    expect(composeHashesEqual(`0x${attested?.toUpperCase()}`, computeAppComposeHash(appCompose))).toBe(true);
+  });
+
+  test('derives the default CVM name from the directory', () => {
+    expect(getDefaultCvmName('/home/me/My Project')).toBe('my-project');
+    expect(getDefaultCvmName('/srv/ab')).toBe('ab-cvm');
+    expect(getDefaultCvmName('/srv/a-very-long-project-directory')).toBe('a-very-long-project-');
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  findComposeVariables,
+  formatLintIssue,
+  lintCompose,
+  parseDstackImageVersion,
+  resolveComposePath,
+} from '../../src/utils/compose-lint';
+import { DOCKER_COMPOSE_BASIC_TEMPLATE, DOCKER_COMPOSE_ELIZA_V2_TEMPLATE } from '../../src/utils/constants';
+import Handlebars from 'handlebars';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+// Renders a template the same way phala docker generate does
+const render = (template: string) =>
+  Handlebars.compile(template)({ imageName: 'me/agent:latest', envVars: ['API_KEY=${API_KEY}', 'MODEL=${MODEL:-gpt}'] });
+
+describe('Compose lint', () => {
+  test('checks the basic template', () => {
+    const compose = render(DOCKER_COMPOSE_BASIC_TEMPLATE);
+
+    expect(lintCompose(compose, { envKeys: ['API_KEY'], dstackImage: 'dstack-0.3.6' })).toEqual([
+      expect.objectContaining({ rule: 'unpinned-image', service: 'app' }),
+    ]);
+    expect(lintCompose(compose, { envKeys: [], dstackImage: 'dstack-dev-0.5.3' })).toEqual([
+      {
+        rule: 'dstack-socket',
+        service: 'app',
+        message: 'mounts /var/run/tappd.sock, the legacy socket of dstack before 0.5: mount /var/run/dstack.sock and use an SDK version for it',
+      },
+      expect.objectContaining({ rule: 'unpinned-image' }),
+      { rule: 'undefined-variable', message: '${API_KEY} is not set by the env file, so it is empty in the CVM' },
+    ]);
+  });
+
+  test('checks the Eliza template', () => {
+    const issues = lintCompose(render(DOCKER_COMPOSE_ELIZA_V2_TEMPLATE), { envKeys: ['API_KEY'] });
+
+    expect(issues.map((issue) => [issue.rule, issue.service])).toEqual([
+      ['unpinned-image', 'postgres'],
+      ['host-port', 'postgres'],
+      ['unpinned-image', 'eliza'],
+    ]);
+    expect(formatLintIssue(issues[0])).toBe(
+      'postgres: image ankane/pgvector:latest is not pinned to a digest, so the compose hash does not fix what runs: use ankane/pgvector@sha256:<digest>'
+    );
+    expect(issues[1].message).toContain('port 127.0.0.1:5432:5432 is bound to 127.0.0.1');
+  });
+
+  test('flags builds, env files, dstack sockets on old images and host IPs', () => {
+    const compose = `
+services:
+  api:
+    build: .
+    env_file:
+      - .env
+      - path: ./secrets.env
+    volumes:
+      - type: bind
+        source: /var/run/dstack.sock
+        target: /var/run/dstack.sock
+    ports:
+      - "8080:80"
+      - "0.0.0.0:8443:443"
+      - target: 9000
+        host_ip: 10.0.0.1
+  db:
+    image: postgres@sha256:${'ab'.repeat(32)}
+    ports:
+      - "[::1]:5432:5432/tcp"
+`;
+    expect(lintCompose(compose, { dstackImage: 'dstack-0.3.6' }).map((issue) => formatLintIssue(issue))).toEqual([
+      'api: mounts /var/run/dstack.sock, which dstack 0.3 does not provide: mount /var/run/tappd.sock and use an SDK version for it',
+      'api: has a build section, images cannot be built in the CVM: push the image to a registry and reference it',
+      expect.stringContaining('api: port {"target":9000,"host_ip":"10.0.0.1"} is bound to 10.0.0.1'),
+      'api: env_file .env does not exist in the CVM: pass its variables with --env-file so they are encrypted',
+      'api: env_file ./secrets.env does not exist in the CVM: pass its variables with --env-file so they are encrypted',
+      expect.stringContaining('db: port [::1]:5432:5432/tcp is bound to [::1]'),
+    ]);
+  });
+
+  test('reports invalid YAML', () => {
+    expect(lintCompose('services: [')[0].rule).toBe('invalid-yaml');
+    expect(lintCompose('version: "3"')).toEqual([{ rule: 'invalid-yaml', message: 'No services defined' }]);
+  });
+
+  test('finds interpolated variables', () => {
+    const compose = {
+      services: {
+        app: {
+          image: '${REGISTRY}/app:${TAG:-latest}',
+          command: 'sh -c "echo $$HOME $GREETING ${NAME:?name is required}"',
+          environment: { URL: '${BASE_URL+https://x}', TAG_AGAIN: '${TAG}' },
+        },
+      },
+    };
+    expect(findComposeVariables(compose)).toEqual([
+      { name: 'REGISTRY', optional: false },
+      { name: 'TAG', optional: false },
+      { name: 'GREETING', optional: false },
+      { name: 'NAME', optional: false },
+      { name: 'BASE_URL', optional: true },
+    ]);
+  });
+
+  test('parses dstack image versions', () => {
+    expect(parseDstackImageVersion('dstack-0.3.6')).toEqual([0, 3]);
+    expect(parseDstackImageVersion('dstack-nvidia-dev-0.5.1')).toEqual([0, 5]);
+    expect(parseDstackImageVersion('custom')).toBeUndefined();
+  });
+
+  test('finds the compose file of the working directory', () => {
+    const cwd = process.cwd();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-lint-'));
+    try {
+      process.chdir(dir);
+      expect(() => resolveComposePath()).toThrow('Docker compose file not found: docker-compose.yml or docker-compose.yaml');
+      fs.writeFileSync('docker-compose.yaml', 'services: {}\n');
+      expect(resolveComposePath()).toBe('docker-compose.yaml');
+      expect(() => resolveComposePath('other.yml')).toThrow('Docker compose file not found: other.yml');
+    } finally {
+      process.chdir(cwd);
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  applyConfigEnvironment,
+  getCloudUrl,
+  getConfigFilePath,
+  getCvmUuid,
+  getDeployEnvironment,
+  getDeployEnvironments,
+  saveCvmUuid,
+  getConfigValue,
+  listConfigValues,
+  parseConfigValue,
+  resetConfig,
+  setConfigValue,
+  unsetConfigValue,
+  validateConfig,
+} from '../../src/utils/config';
+import { DEFAULT_DISK_SIZE, DEFAULT_MEMORY, DEFAULT_VCPU } from '../../src/utils/constants';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+describe('Configuration', () => {
+  const DIR_ENV = 'PHALA_CLOUD_DIR';
+  const savedDir = process.env[DIR_ENV];
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-config-'));
+    process.env[DIR_ENV] = dir;
+  });
+
+  afterEach(() => {
+    if (savedDir === undefined) {
+      delete process.env[DIR_ENV];
+    } else {
+      process.env[DIR_ENV] = savedDir;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('defaults match the built-in resource defaults', () => {
+    expect(listConfigValues()).toMatchObject({
+      defaultVcpu: DEFAULT_VCPU,
+      defaultMemory: DEFAULT_MEMORY,
+      defaultDiskSize: DEFAULT_DISK_SIZE,
+    });
+    expect(getConfigValue('defaultTeepodId')).toBeUndefined();
+  });
+
+  test('applies the API and dashboard URLs unless the environment sets them', () => {
+    const saved = { PHALA_CLOUD_API_PREFIX: process.env.PHALA_CLOUD_API_PREFIX, CLOUD_URL: process.env.CLOUD_URL };
+    try {
+      for (const key of Object.keys(saved)) {
+        delete process.env[key];
+      }
+      setConfigValue('apiUrl', 'https://api.example.com/api/v1');
+      setConfigValue('cloudUrl', 'https://cloud.example.com');
+      applyConfigEnvironment();
+      expect(process.env.PHALA_CLOUD_API_PREFIX).toBe('https://api.example.com/api/v1');
+      expect(getCloudUrl()).toBe('https://cloud.example.com');
+
+      process.env.PHALA_CLOUD_API_PREFIX = 'https://profile.example.com/api/v1';
+      process.env.CLOUD_URL = 'https://env.example.com';
+      applyConfigEnvironment();
+      expect(process.env.PHALA_CLOUD_API_PREFIX).toBe('https://profile.example.com/api/v1');
+      expect(getCloudUrl()).toBe('https://env.example.com');
+    } finally {
+      for (const [key, value] of Object.entries(saved)) {
+        if (value === undefined) {
+          delete process.env[key];
+        } else {
+          process.env[key] = value;
+        }
+      }
+    }
+  });
+
+  test('parses values with units and coerces numbers', () => {
+    expect(parseConfigValue('defaultMemory', '4G')).toBe(4096);
+    expect(parseConfigValue('defaultMemory', 8192)).toBe(8192);
+    expect(parseConfigValue('defaultDiskSize', '100GB')).toBe(100);
+    expect(parseConfigValue('defaultTeepodId', '6')).toBe(6);
+    expect(() => parseConfigValue('defaultMemory', '1500MB')).toThrow('multiple of 1GB');
+    expect(() => parseConfigValue('defaultVcpu', 'many')).toThrow("Invalid value for 'defaultVcpu'");
+    expect(() => parseConfigValue('apiUrl', 'not a url')).toThrow("Invalid value for 'apiUrl'");
+  });
+
+  test('sets, unsets and resets values', () => {
+    expect(setConfigValue('defaultMemory', '4G')).toBe(4096);
+    setConfigValue('defaultVcpu', '2');
+    expect(JSON.parse(fs.readFileSync(getConfigFilePath(), 'utf8'))).toEqual({ defaultMemory: 4096, defaultVcpu: 2 });
+
+    expect(unsetConfigValue('defaultMemory')).toBe(true);
+    expect(unsetConfigValue('defaultMemory')).toBe(false);
+    expect(getConfigValue('defaultMemory')).toBe(DEFAULT_MEMORY);
+    expect(getConfigValue('defaultVcpu')).toBe(2);
+
+    resetConfig();
+    expect(getConfigValue('defaultVcpu')).toBe(DEFAULT_VCPU);
+  });
+
+  test('rejects unknown keys', () => {
+    expect(() => setConfigValue('defaultCpu', '2')).toThrow("Unknown configuration key 'defaultCpu'");
+    expect(() => getConfigValue('defaultCpu')).toThrow('Known keys');
+  });
+
+  test('ignores invalid values in the configuration file', () => {
+    fs.writeFileSync(getConfigFilePath(), JSON.stringify({ defaultVcpu: -1, defaultDiskSize: '60G', legacy: true }));
+
+    expect(getConfigValue('defaultVcpu')).toBe(DEFAULT_VCPU);
+    expect(getConfigValue('defaultDiskSize')).toBe(60);
+    expect(validateConfig(JSON.parse(fs.readFileSync(getConfigFilePath(), 'utf8')))).toEqual([
+      expect.stringContaining("Invalid value for 'defaultVcpu'"),
+      "Unknown configuration key 'legacy'",
+    ]);
+  });
+});
+
+describe('Deployment environments', () => {
+  const cwd = process.cwd();
+  const UUID_ENV = 'PHALA_CLOUD_CVM_UUID';
+  const savedUuid = process.env[UUID_ENV];
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-project-'));
+    process.chdir(dir);
+    delete process.env[UUID_ENV];
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    if (savedUuid !== undefined) {
+      process.env[UUID_ENV] = savedUuid;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps one CVM per environment next to the project default', () => {
+    expect(getCvmUuid()).toBeUndefined();
+    expect(fs.existsSync(path.join(dir, '.phala'))).toBe(false);
+
+    saveCvmUuid('default-uuid');
+    saveCvmUuid('staging-uuid', 'staging');
+    saveCvmUuid('production-uuid', 'production');
+
+    expect(getCvmUuid()).toBe('default-uuid');
+    expect(getCvmUuid('staging')).toBe('staging-uuid');
+    expect(getCvmUuid('production')).toBe('production-uuid');
+    expect(getCvmUuid('preview')).toBeUndefined();
+    expect(Object.keys(getDeployEnvironments())).toEqual(['staging', 'production']);
+  });
+
+  test('keeps the overrides of an environment when recording its CVM', () => {
+    fs.mkdirSync(path.join(dir, '.phala'));
+    fs.writeFileSync(path.join(dir, '.phala', 'config'), JSON.stringify({
+      environments: { staging: { envFile: '.env.staging', memory: '4G' } },
+    }));
+
+    saveCvmUuid('staging-uuid', 'staging');
+    expect(getDeployEnvironment('staging')).toEqual({ envFile: '.env.staging', memory: '4G', cvmUuid: 'staging-uuid' });
+  });
+
+  test('rejects invalid environments', () => {
+    fs.mkdirSync(path.join(dir, '.phala'));
+    fs.writeFileSync(path.join(dir, '.phala', 'config'), JSON.stringify({
+      environments: { staging: { cvm_uuid: 'typo' } },
+    }));
+
+    expect(() => getDeployEnvironments()).toThrow(/Invalid environment 'staging'.*cvm_uuid/);
+    expect(() => getDeployEnvironment('../prod')).toThrow('Invalid environment name');
+  });
+});
@@ -0,0 +1,140 @@
+import {
+  CREDENTIAL_FILE_VERSION,
+  getApiKey,
+  getCredentialStoreStatus,
+  lockCredentials,
+  needsCredentialPassphrase,
+  saveApiKey,
+  setCredentialPassphrase,
+  unlockCredentials,
+} from '../../src/utils/credentials';
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+const unsetEnv = (...keys: string[]) => {
+  for (const key of keys) {
+    delete process.env[key];
+  }
+};
+
+// Writes an API key the way versions before the GCM format did
+function writeLegacyApiKey(file: string, apiKey: string): void {
+  const machineKey = crypto.createHash('sha256').update([
+    os.hostname(),
+    os.platform(),
+    os.arch(),
+    os.cpus()[0]?.model || '',
+    os.userInfo().username,
+  ].join('|')).digest();
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', machineKey, iv);
+  const encrypted = cipher.update(apiKey, 'utf8', 'hex') + cipher.final('hex');
+  fs.writeFileSync(file, `${iv.toString('hex')}:${encrypted}`);
+}
+
+describe('Credential store', () => {
+  const saved = {
+    PHALA_CLOUD_DIR: process.env.PHALA_CLOUD_DIR,
+    PHALA_PROFILE: process.env.PHALA_PROFILE,
+    PHALA_CLOUD_API_KEY: process.env.PHALA_CLOUD_API_KEY,
+    PHALA_CLOUD_PASSPHRASE: process.env.PHALA_CLOUD_PASSPHRASE,
+  };
+  let dir: string;
+  let apiKeyFile: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-credentials-'));
+    apiKeyFile = path.join(dir, 'api-key');
+    process.env.PHALA_CLOUD_DIR = dir;
+    unsetEnv('PHALA_PROFILE', 'PHALA_CLOUD_API_KEY', 'PHALA_CLOUD_PASSPHRASE');
+    setCredentialPassphrase(undefined);
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        unsetEnv(key);
+      } else {
+        process.env[key] = value;
+      }
+    }
+    setCredentialPassphrase(undefined);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('stores the API key in the versioned GCM format', async () => {
+    await saveApiKey('phak_test');
+
+    const file = JSON.parse(fs.readFileSync(apiKeyFile, 'utf8'));
+    expect(file).toMatchObject({ version: CREDENTIAL_FILE_VERSION, mode: 'machine', kdf: 'scrypt' });
+    expect(file.ciphertext).not.toContain('phak_test');
+    expect(getApiKey()).toBe('phak_test');
+  });
+
+  test('migrates legacy iv:ciphertext files on read', () => {
+    writeLegacyApiKey(apiKeyFile, 'phak_legacy');
+    expect(getCredentialStoreStatus()).toEqual({ exists: true, format: 'legacy', mode: 'machine' });
+
+    expect(getApiKey()).toBe('phak_legacy');
+    expect(getCredentialStoreStatus()).toEqual({ exists: true, format: 'v2', mode: 'machine' });
+    expect(getApiKey()).toBe('phak_legacy');
+  });
+
+  test('detects a modified credential file', async () => {
+    await saveApiKey('phak_test');
+    const file = JSON.parse(fs.readFileSync(apiKeyFile, 'utf8'));
+    const flipped = (Number.parseInt(file.ciphertext[0], 16) ^ 1).toString(16);
+    file.ciphertext = flipped + file.ciphertext.slice(1);
+    fs.writeFileSync(apiKeyFile, JSON.stringify(file));
+
+    expect(getApiKey()).toBeNull();
+  });
+
+  test('locks and unlocks the store with a passphrase', async () => {
+    await saveApiKey('phak_test');
+    await expect(lockCredentials('short')).rejects.toThrow('at least 8 characters');
+
+    await lockCredentials('correct horse battery');
+    expect(getCredentialStoreStatus().mode).toBe('passphrase');
+    expect(needsCredentialPassphrase()).toBe(true);
+    expect(getApiKey()).toBeNull();
+
+    process.env.PHALA_CLOUD_PASSPHRASE = 'wrong passphrase';
+    expect(getApiKey()).toBeNull();
+    await expect(unlockCredentials('wrong passphrase')).rejects.toThrow('Wrong passphrase');
+
+    process.env.PHALA_CLOUD_PASSPHRASE = 'correct horse battery';
+    expect(needsCredentialPassphrase()).toBe(false);
+    expect(getApiKey()).toBe('phak_test');
+
+    await unlockCredentials('correct horse battery');
+    unsetEnv('PHALA_CLOUD_PASSPHRASE');
+    expect(getCredentialStoreStatus().mode).toBe('machine');
+    expect(getApiKey()).toBe('phak_test');
+  });
+
+  test('keeps a locked store locked when saving a new key with the passphrase', async () => {
+    await saveApiKey('phak_old');
+    await lockCredentials('correct horse battery');
+
+    setCredentialPassphrase('correct horse battery');
+    await saveApiKey('phak_new');
+
+    expect(getCredentialStoreStatus().mode).toBe('passphrase');
+    expect(getApiKey()).toBe('phak_new');
+  });
+
+  test('refuses to overwrite a locked store without its passphrase', async () => {
+    await saveApiKey('phak_old');
+    await lockCredentials('correct horse battery');
+
+    await expect(saveApiKey('phak_new')).rejects.toThrow('The credential store is locked');
+    setCredentialPassphrase('wrong passphrase');
+    await expect(saveApiKey('phak_new')).rejects.toThrow('Wrong passphrase');
+
+    setCredentialPassphrase('correct horse battery');
+    expect(getApiKey()).toBe('phak_old');
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  getHistoryDir,
+  listDeployments,
+  readDeploymentCompose,
+  recordDeployment,
+  resolveRollbackTarget,
+} from '../../src/utils/deploy-history';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+describe('Deployment history', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  const deploy = (composeHash: string, composeFile: string, cvmUuid = 'cvm-1') =>
+    recordDeployment({ cvmUuid, composeHash, composeFile, allowedEnvs: ['TOKEN'] });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-history-'));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('records deployments with their compose file', () => {
+    const first = deploy('0xaaa', 'services: {}\n');
+    deploy('0xbbb', 'services:\n  app: {}\n');
+    deploy('0xaaa', 'services: {}\n', 'cvm-2');
+
+    expect(first).toMatchObject({ id: 1, cvm_uuid: 'cvm-1', compose_hash: '0xaaa', allowed_envs: ['TOKEN'] });
+    expect(first.pre_launch_script).toBeUndefined();
+    expect(Date.parse(first.deployed_at)).not.toBeNaN();
+    // Outside a git repository there is no revision to record
+    expect(first.git_commit).toBeUndefined();
+
+    expect(listDeployments().map((entry) => entry.id)).toEqual([1, 2, 3]);
+    expect(listDeployments('cvm-1').map((entry) => entry.compose_hash)).toEqual(['0xaaa', '0xbbb']);
+    expect(readDeploymentCompose(listDeployments('cvm-1')[1])).toBe('services:\n  app: {}\n');
+    // Compose files are stored once per compose hash
+    expect(fs.readdirSync(path.join(getHistoryDir(), 'compose')).sort()).toEqual(['aaa.yml', 'bbb.yml']);
+  });
+
+  test('records the pre-launch script restored by a rollback', () => {
+    const entry = recordDeployment({
+      cvmUuid: 'cvm-1',
+      composeHash: '0xccc',
+      composeFile: 'v3',
+      allowedEnvs: [],
+      preLaunchScript: '#!/bin/sh\necho ready\n',
+    });
+
+    expect(listDeployments('cvm-1')).toEqual([entry]);
+    expect(entry).toMatchObject({ allowed_envs: [], pre_launch_script: '#!/bin/sh\necho ready\n' });
+  });
+
+  test('rolls back to the previous compose by default', () => {
+    deploy('0xaaa', 'v1');
+    deploy('0xbbb', 'v2');
+    deploy('0xbbb', 'v2');
+    const entries = listDeployments('cvm-1');
+
+    expect(resolveRollbackTarget(entries).id).toBe(1);
+    expect(resolveRollbackTarget(entries, 2).id).toBe(2);
+    expect(() => resolveRollbackTarget(entries, 7)).toThrow('Deployment #7 not found, recorded deployments: 1, 2, 3');
+    expect(() => resolveRollbackTarget(entries.slice(1))).toThrow('No previous deployment');
+    expect(() => resolveRollbackTarget([])).toThrow('No deployments recorded');
+  });
+
+  test('rejects an invalid history file', () => {
+    fs.mkdirSync(getHistoryDir(), { recursive: true });
+    fs.writeFileSync(path.join(getHistoryDir(), 'index.json'), JSON.stringify([{ id: 'one' }]));
+
+    expect(() => listDeployments()).toThrow(/Invalid deployment history .*0\.id/);
+  });
+});
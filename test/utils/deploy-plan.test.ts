@@ -0,0 +1,44 @@
+import { diffAllowedEnvs, diffComposeFile, diffPreLaunchScript, diffResources } from '../../src/utils/deploy-plan';
+
+describe('Deploy plan', () => {
+  test('diffs the docker compose file', () => {
+    const current = 'services:\n  app:\n    image: nginx:1.25\n';
+    const next = 'services:\n  app:\n    image: nginx:1.27\n';
+
+    expect(diffComposeFile(current, current)).toBe('');
+    const patch = diffComposeFile(current, next);
+    expect(patch).toContain('--- current/docker-compose.yml');
+    expect(patch).toContain('+++ new/docker-compose.yml');
+    expect(patch).toContain('-    image: nginx:1.25');
+    expect(patch).toContain('+    image: nginx:1.27');
+  });
+
+  test('diffs the pre-launch script', () => {
+    const script = '#!/bin/sh\necho ready\n';
+
+    expect(diffPreLaunchScript(script, script)).toBe('');
+    const patch = diffPreLaunchScript('', script);
+    expect(patch).toContain('+++ new/pre-launch.sh');
+    expect(patch).toContain('+echo ready');
+  });
+
+  test('lists added and removed environment keys', () => {
+    expect(diffAllowedEnvs(['TOKEN', 'DEBUG'], ['TOKEN', 'API_URL', 'API_KEY'])).toEqual({
+      added: ['API_KEY', 'API_URL'],
+      removed: ['DEBUG'],
+    });
+    expect(diffAllowedEnvs(undefined, [])).toEqual({ added: [], removed: [] });
+  });
+
+  test('reports only requested resources that change', () => {
+    const current = { vcpu: 2, memory: 4096, disk_size: 40, image: 'dstack-0.3.6' };
+
+    expect(diffResources(current, { vcpu: 2, memory: 8192, image: undefined })).toEqual([
+      { resource: 'memory', current: 4096, requested: 8192 },
+    ]);
+    expect(diffResources({ vcpu: 2 }, { disk_size: 80 })).toEqual([
+      { resource: 'disk_size', current: null, requested: 80 },
+    ]);
+    expect(diffResources(current, {})).toEqual([]);
+  });
+});
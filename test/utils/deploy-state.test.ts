@@ -0,0 +1,66 @@
+import {
+  clearDeployState,
+  describeDeployStep,
+  getDeployStatePath,
+  loadDeployState,
+  saveDeployState,
+} from '../../src/utils/deploy-state';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+const PROVISIONED = {
+  started_at: '2026-10-01T00:00:00.000Z',
+  app_compose: {
+    name: 'my-app',
+    compose_file: { docker_compose_file: 'services: {}', allowed_envs: ['TOKEN'] },
+    vcpu: 2,
+  },
+  node: { id: 6, name: 'prod5', device_id: 'abcd' },
+  kms: { slug: 'kms-base-prod', chain_id: 8453, kms_contract_address: '0x01' },
+  provision: { app_id: null, compose_hash: 'c0ffee', app_env_encrypt_pubkey: null },
+};
+
+describe('Deploy state', () => {
+  const cwd = process.cwd();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-deploy-state-'));
+    process.chdir(dir);
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('saves the progress of each step per environment', () => {
+    expect(loadDeployState()).toBeUndefined();
+
+    const provisioned = saveDeployState(PROVISIONED);
+    expect(describeDeployStep(provisioned)).toBe('CVM provisioned with compose hash c0ffee');
+    saveDeployState({
+      ...provisioned,
+      contract: { app_id: '0xapp', app_auth_address: '0xauth', deployer: '0xme' },
+    });
+    saveDeployState({ ...PROVISIONED, environment: 'staging' });
+
+    const loaded = loadDeployState();
+    expect(loaded).toMatchObject({ version: 1, app_compose: { name: 'my-app', vcpu: 2 }, contract: { app_id: '0xapp' } });
+    expect(loaded && describeDeployStep(loaded)).toBe('DstackApp contract 0xauth deployed');
+    expect(loadDeployState('staging')?.contract).toBeUndefined();
+    expect(path.basename(getDeployStatePath('staging'))).toBe('deploy-state.staging.json');
+
+    clearDeployState();
+    expect(loadDeployState()).toBeUndefined();
+    expect(loadDeployState('staging')).toBeDefined();
+  });
+
+  test('rejects an invalid state file', () => {
+    fs.mkdirSync(path.join(dir, '.phala'));
+    fs.writeFileSync(getDeployStatePath(), JSON.stringify({ version: 1, provision: {} }));
+
+    expect(() => loadDeployState()).toThrow(/Invalid deploy state file .*provision\.compose_hash: Required/);
+  });
+});
@@ -0,0 +1,81 @@
+import { decryptKeystore, normalizePrivateKey, parseKeystore, privateKeyToAddress, readKeyFile } from '../../src/utils/keystore';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+// Test vectors of the Web3 Secret Storage definition
+const PRIVATE_KEY = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+const ADDRESS = '0x008aeeda4d805471df9b2a5b0f38a0c3bcba786b';
+const PASSWORD = 'testpassword';
+
+const PBKDF2_KEYSTORE = {
+  version: 3,
+  address: ADDRESS.slice(2),
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: { c: 262144, dklen: 32, prf: 'hmac-sha256', salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd' },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+};
+
+const SCRYPT_KEYSTORE = {
+  version: 3,
+  Crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '83dbcc02d8ccb40e466191a123791e0e' },
+    ciphertext: 'd172bf743a674da9cdad04534d56926ef8358534d458fffccd4e6ad2fbde479c',
+    kdf: 'scrypt',
+    kdfparams: { dklen: 32, n: 262144, r: 1, p: 8, salt: 'ab0c7876052600dd703518d6fc3fe8984592145b591fc8fb5c6d43190334ba19' },
+    mac: '2103ac29920d71da29f15d75b4a16dbe95cfd7ff8faea1056c33131d846e3097',
+  },
+};
+
+describe('Keystore', () => {
+  test('decrypts pbkdf2 and scrypt keystores', () => {
+    expect(decryptKeystore(parseKeystore(JSON.stringify(PBKDF2_KEYSTORE)), PASSWORD)).toBe(PRIVATE_KEY);
+    expect(decryptKeystore(parseKeystore(JSON.stringify(SCRYPT_KEYSTORE)), PASSWORD)).toBe(PRIVATE_KEY);
+  }, 30_000);
+
+  test('rejects a wrong password or a modified keystore', () => {
+    const keystore = parseKeystore(JSON.stringify(PBKDF2_KEYSTORE));
+    expect(() => decryptKeystore(keystore, 'wrong')).toThrow('Wrong keystore password');
+
+    const modified = { ...keystore, crypto: { ...keystore.crypto, ciphertext: `00${keystore.crypto.ciphertext.slice(2)}` } };
+    expect(() => decryptKeystore(modified, PASSWORD)).toThrow('Wrong keystore password');
+
+    const otherAddress = { ...keystore, address: '1111111111111111111111111111111111111111' };
+    expect(() => decryptKeystore(otherAddress, PASSWORD)).toThrow('does not match its address');
+  });
+
+  test('rejects unsupported keystores', () => {
+    expect(() => parseKeystore('not json')).toThrow('expected a JSON file');
+    expect(() => parseKeystore(JSON.stringify({ ...PBKDF2_KEYSTORE, version: 1 }))).toThrow(/version 3: version/);
+    expect(() => parseKeystore(JSON.stringify({ ...PBKDF2_KEYSTORE, crypto: { ...PBKDF2_KEYSTORE.crypto, cipher: 'aes-128-cbc' } })))
+      .toThrow(/crypto\.cipher/);
+  });
+
+  test('derives the address of a private key', () => {
+    expect(privateKeyToAddress(PRIVATE_KEY)).toBe(ADDRESS);
+  });
+
+  test('reads and validates private keys', () => {
+    expect(normalizePrivateKey(` ${PRIVATE_KEY.slice(2).toUpperCase()}\n`)).toBe(PRIVATE_KEY);
+    expect(() => normalizePrivateKey('0x1234')).toThrow('Invalid private key');
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-keystore-'));
+    try {
+      const keyFile = path.join(dir, 'key');
+      fs.writeFileSync(keyFile, `${PRIVATE_KEY}\n`);
+      expect(readKeyFile(keyFile)).toBe(PRIVATE_KEY);
+
+      fs.writeFileSync(keyFile, 'not a key');
+      expect(() => readKeyFile(keyFile)).toThrow(`Key file ${keyFile}: Invalid private key`);
+      expect(() => readKeyFile(path.join(dir, 'missing'))).toThrow('not found');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
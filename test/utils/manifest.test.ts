@@ -0,0 +1,78 @@
+import { applyManifest, findManifest, loadManifest, manifestToDeployOptions } from '../../src/utils/manifest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+const MANIFEST = `
+name: my-app
+compose: docker-compose.yml
+resources:
+  vcpu: 2
+  memory: 4G
+  disk_size: 50
+node:
+  region: us-west
+kms: kms-base-prod
+env_file: config/.env
+`;
+
+describe('Project manifest', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-manifest-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('loads a manifest and maps it to deploy options', () => {
+    const manifestPath = path.join(dir, 'phala.yaml');
+    fs.writeFileSync(manifestPath, MANIFEST);
+
+    expect(findManifest(dir)).toBe(manifestPath);
+    const options = manifestToDeployOptions(loadManifest(manifestPath), dir);
+    expect(options).toMatchObject({
+      name: 'my-app',
+      compose: path.join(dir, 'docker-compose.yml'),
+      vcpu: '2',
+      memory: '4G',
+      diskSize: '50',
+      region: 'us-west',
+      kmsId: 'kms-base-prod',
+      envFile: path.join(dir, 'config', '.env'),
+    });
+    expect(options.nodeId).toBeUndefined();
+  });
+
+  test('rejects unknown keys and invalid values', () => {
+    const manifestPath = path.join(dir, 'phala.yaml');
+    fs.writeFileSync(manifestPath, 'name: x\nresources:\n  cpus: 2\n');
+
+    expect(() => loadManifest(manifestPath)).toThrow(/name: CVM name must be at least 3 characters/);
+    expect(() => loadManifest(manifestPath)).toThrow(/resources: Unrecognized key\(s\) in object: 'cpus'/);
+    expect(() => loadManifest(path.join(dir, 'missing.yaml'))).toThrow('Manifest file not found');
+  });
+
+  test('command line options override the manifest', () => {
+    const manifestPath = path.join(dir, 'phala.yml');
+    fs.writeFileSync(manifestPath, MANIFEST);
+
+    const { options, manifestPath: applied } = applyManifest({ vcpu: '4', json: true }, manifestPath);
+    expect(applied).toBe(manifestPath);
+    expect(options.vcpu).toBe('4');
+    expect(options.memory).toBe('4G');
+    expect(options.json).toBe(true);
+  });
+
+  test('leaves options untouched without a manifest', () => {
+    const cwd = process.cwd();
+    process.chdir(dir);
+    try {
+      expect(applyManifest({ vcpu: '4' })).toEqual({ options: { vcpu: '4' } });
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+});
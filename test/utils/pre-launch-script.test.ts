@@ -0,0 +1,48 @@
+import { getScriptShell, loadPreLaunchScript, MAX_PRE_LAUNCH_SCRIPT_SIZE } from '../../src/utils/pre-launch-script';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+describe('Pre-launch script', () => {
+  let dir: string;
+
+  const writeScript = (content: string) => {
+    const scriptPath = path.join(dir, 'pre-launch.sh');
+    fs.writeFileSync(scriptPath, content);
+    return scriptPath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-pre-launch-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('reads the shell of the shebang', () => {
+    expect(getScriptShell('#!/bin/sh\necho')).toBe('sh');
+    expect(getScriptShell('#!/bin/bash -e\necho')).toBe('bash');
+    expect(getScriptShell('#!/usr/bin/env bash\necho')).toBe('bash');
+    expect(getScriptShell('#!/usr/bin/env python3\nprint()')).toBeUndefined();
+    expect(getScriptShell('echo no shebang')).toBeUndefined();
+  });
+
+  test('loads a valid script', () => {
+    const script = '#!/bin/sh\nset -e\nif [ -n "$TOKEN" ]; then\n  echo "token set"\nfi\n';
+    expect(loadPreLaunchScript(writeScript(script))).toBe(script);
+
+    const bashScript = '#!/usr/bin/env bash\nitems=(a b)\necho "${items[@]}"\n';
+    expect(loadPreLaunchScript(writeScript(bashScript))).toBe(bashScript);
+  });
+
+  test('rejects invalid scripts', () => {
+    expect(() => loadPreLaunchScript(path.join(dir, 'missing.sh'))).toThrow('not found');
+    expect(() => loadPreLaunchScript(writeScript(''))).toThrow('is empty');
+    expect(() => loadPreLaunchScript(writeScript(`#!/bin/sh\n${'#'.repeat(MAX_PRE_LAUNCH_SCRIPT_SIZE)}\n`)))
+      .toThrow(`the limit is ${MAX_PRE_LAUNCH_SCRIPT_SIZE} bytes`);
+    expect(() => loadPreLaunchScript(writeScript('echo "no shebang"\n'))).toThrow('must start with a shebang for sh or bash');
+    expect(() => loadPreLaunchScript(writeScript('#!/bin/sh\r\necho\r\n'))).toThrow('Windows line endings');
+    expect(() => loadPreLaunchScript(writeScript('#!/bin/sh\nif true; then\n  echo\n'))).toThrow('has syntax errors');
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  DEFAULT_PROFILE,
+  applyProfileEnvironment,
+  getActiveProfile,
+  getProfileDir,
+  listProfiles,
+  loadProfileSettings,
+  profileExists,
+  saveProfileSettings,
+  setActiveProfile,
+} from '../../src/utils/profiles';
+import { getApiKey, removeApiKey, saveApiKey } from '../../src/utils/credentials';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+
+const unsetEnv = (...keys: string[]) => {
+  for (const key of keys) {
+    delete process.env[key];
+  }
+};
+
+describe('Profiles', () => {
+  const saved = {
+    PHALA_CLOUD_DIR: process.env.PHALA_CLOUD_DIR,
+    PHALA_PROFILE: process.env.PHALA_PROFILE,
+    PHALA_CLOUD_API_KEY: process.env.PHALA_CLOUD_API_KEY,
+    PHALA_CLOUD_API_PREFIX: process.env.PHALA_CLOUD_API_PREFIX,
+  };
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-profiles-'));
+    process.env.PHALA_CLOUD_DIR = dir;
+    unsetEnv('PHALA_PROFILE', 'PHALA_CLOUD_API_KEY', 'PHALA_CLOUD_API_PREFIX');
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) {
+        unsetEnv(key);
+      } else {
+        process.env[key] = value;
+      }
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('the default profile uses the legacy credential location', () => {
+    expect(getActiveProfile()).toBe(DEFAULT_PROFILE);
+    expect(getProfileDir()).toBe(dir);
+    expect(profileExists(DEFAULT_PROFILE)).toBe(true);
+  });
+
+  test('stores API keys per profile', async () => {
+    await saveApiKey('phak_default');
+    process.env.PHALA_PROFILE = 'prod';
+    await saveApiKey('phak_prod');
+
+    expect(getApiKey()).toBe('phak_prod');
+    expect(fs.existsSync(path.join(dir, 'profiles', 'prod', 'api-key'))).toBe(true);
+
+    unsetEnv('PHALA_PROFILE');
+    expect(getApiKey()).toBe('phak_default');
+
+    process.env.PHALA_PROFILE = 'prod';
+    await removeApiKey();
+    expect(getApiKey()).toBeNull();
+    unsetEnv('PHALA_PROFILE');
+    expect(getApiKey()).toBe('phak_default');
+  });
+
+  test('switches the active profile, with PHALA_PROFILE taking precedence', () => {
+    expect(() => setActiveProfile('staging')).toThrow('does not exist');
+
+    saveProfileSettings('staging', { apiPrefix: 'https://staging.example.com/api/v1' });
+    setActiveProfile('staging');
+    expect(getActiveProfile()).toBe('staging');
+
+    process.env.PHALA_PROFILE = DEFAULT_PROFILE;
+    expect(getActiveProfile()).toBe(DEFAULT_PROFILE);
+  });
+
+  test('merges and lists profile settings', () => {
+    saveProfileSettings('prod', { apiPrefix: 'https://prod.example.com/api/v1', defaultNodeId: 2 });
+    saveProfileSettings('prod', { defaultKmsId: 'kms-base-prod', apiPrefix: undefined });
+
+    expect(loadProfileSettings('prod')).toEqual({
+      apiPrefix: 'https://prod.example.com/api/v1',
+      defaultNodeId: 2,
+      defaultKmsId: 'kms-base-prod',
+    });
+
+    const profiles = listProfiles();
+    expect(profiles.map((profile) => profile.name)).toEqual([DEFAULT_PROFILE, 'prod']);
+    expect(profiles[0]).toMatchObject({ active: true, hasApiKey: false });
+    expect(profiles[1]).toMatchObject({ active: false, defaultNodeId: 2 });
+  });
+
+  test('applies the API prefix of the active profile unless one is set', () => {
+    saveProfileSettings('staging', { apiPrefix: 'https://staging.example.com/api/v1' });
+    process.env.PHALA_PROFILE = 'staging';
+
+    applyProfileEnvironment();
+    expect(process.env.PHALA_CLOUD_API_PREFIX).toBe('https://staging.example.com/api/v1');
+
+    process.env.PHALA_CLOUD_API_PREFIX = 'http://localhost:8000/api/v1';
+    applyProfileEnvironment();
+    expect(process.env.PHALA_CLOUD_API_PREFIX).toBe('http://localhost:8000/api/v1');
+  });
+
+  test('rejects profile names that are not plain directory names', () => {
+    expect(() => getProfileDir('../escape')).toThrow('Invalid profile name');
+    expect(profileExists('../escape')).toBe(false);
+  });
+});
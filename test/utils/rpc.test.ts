@@ -0,0 +1,159 @@
+import {
+  formatEther,
+  getConfiguredRpcEndpoint,
+  preflightChain,
+  resolveRpcEndpoints,
+  selectRpcUrl,
+  setRpcEndpoint,
+  unsetRpcEndpoint,
+} from '../../src/utils/rpc';
+import { validateConfig } from '../../src/utils/config';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+
+const OWNER = '0x2222222222222222222222222222222222222222';
+const POOR = '0x3333333333333333333333333333333333333333';
+const APP = '0x1111111111111111111111111111111111111111';
+const GWEI = 10n ** 9n;
+
+// Minimal JSON-RPC node of a chain, where OWNER holds 1 ETH and may call APP
+const startNode = async (chainId: number) => {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      let result: string | undefined;
+      let error: string | undefined;
+      if (method === 'eth_chainId') {
+        result = `0x${chainId.toString(16)}`;
+      } else if (method === 'eth_gasPrice') {
+        result = `0x${GWEI.toString(16)}`;
+      } else if (method === 'eth_getBalance') {
+        result = params[0] === OWNER ? `0x${(10n ** 18n).toString(16)}` : '0x0';
+      } else if (method === 'eth_estimateGas') {
+        if (params[0].to === APP && params[0].from !== OWNER) {
+          error = 'execution reverted: Ownable: caller is not the owner';
+        } else {
+          result = '0xc350';
+        }
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(result === undefined
+        ? { jsonrpc: '2.0', id, error: { code: -32000, message: error ?? `Unsupported ${method}` } }
+        : { jsonrpc: '2.0', id, result }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+};
+
+describe('RPC endpoints', () => {
+  const DIR_ENV = 'PHALA_CLOUD_DIR';
+  const savedDir = process.env[DIR_ENV];
+  let dir: string;
+  let base: Awaited<ReturnType<typeof startNode>>;
+  let mainnet: Awaited<ReturnType<typeof startNode>>;
+
+  beforeAll(async () => {
+    base = await startNode(8453);
+    mainnet = await startNode(1);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => base.server.close(resolve));
+    await new Promise((resolve) => mainnet.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'phala-rpc-'));
+    process.env[DIR_ENV] = dir;
+  });
+
+  afterEach(() => {
+    if (savedDir === undefined) {
+      delete process.env[DIR_ENV];
+    } else {
+      process.env[DIR_ENV] = savedDir;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('configures endpoints per chain', () => {
+    setRpcEndpoint(8453, ['https://base.example', 'https://base-backup.example'], 5);
+    setRpcEndpoint(1, ['https://eth.example']);
+
+    expect(getConfiguredRpcEndpoint(8453)).toEqual({ urls: ['https://base.example', 'https://base-backup.example'], timeout: 5 });
+    expect(getConfiguredRpcEndpoint(1)).toEqual({ urls: ['https://eth.example'] });
+    expect(() => setRpcEndpoint(8453, ['not a url'])).toThrow("Invalid value for 'rpcEndpoints'");
+    expect(() => setRpcEndpoint(8453, [])).toThrow("Invalid value for 'rpcEndpoints'");
+
+    expect(unsetRpcEndpoint(1)).toBe(true);
+    expect(unsetRpcEndpoint(1)).toBe(false);
+    expect(getConfiguredRpcEndpoint(1)).toBeUndefined();
+    expect(getConfiguredRpcEndpoint(8453)).toBeDefined();
+  });
+
+  test('validates endpoints given as JSON in the configuration file', () => {
+    expect(validateConfig({ rpcEndpoints: JSON.stringify({ 8453: { urls: ['https://base.example'] } }) })).toEqual([]);
+    expect(validateConfig({ rpcEndpoints: { base: { urls: ['https://base.example'] } } })[0]).toContain('Chain IDs must be numbers');
+  });
+
+  test('resolves --rpc-url, then the configuration, then the chain defaults', () => {
+    const chain = { rpcUrls: { default: { http: ['https://mainnet.base.org', 'https://base.llamarpc.com'] } } };
+    expect(resolveRpcEndpoints(8453, { chain })).toEqual({
+      urls: ['https://mainnet.base.org', 'https://base.llamarpc.com'],
+      timeout: 15_000,
+      source: 'chain',
+    });
+
+    setRpcEndpoint(8453, ['https://base.example'], 5);
+    expect(resolveRpcEndpoints(8453, { chain })).toEqual({ urls: ['https://base.example'], timeout: 5000, source: 'config' });
+    expect(resolveRpcEndpoints(8453, { chain, rpcUrl: 'https://flag.example' })).toEqual({
+      urls: ['https://flag.example'],
+      timeout: 5000,
+      source: 'option',
+    });
+    expect(resolveRpcEndpoints(10).urls).toEqual([]);
+  });
+
+  test('falls back to the next endpoint of the expected chain', async () => {
+    const endpoints = { urls: ['http://127.0.0.1:1', mainnet.url, base.url], timeout: 2000, source: 'config' as const };
+    expect(await selectRpcUrl(endpoints, 8453)).toBe(base.url);
+
+    const failure = selectRpcUrl({ ...endpoints, urls: ['http://127.0.0.1:1', mainnet.url] }, 8453);
+    await expect(failure).rejects.toThrow('No RPC endpoint of chain 8453 is usable');
+    await expect(selectRpcUrl({ ...endpoints, urls: [mainnet.url] }, 8453)).rejects.toThrow(`${mainnet.url}: reports chain 1`);
+    await expect(selectRpcUrl({ ...endpoints, urls: [] }, 8453)).rejects.toThrow('phala kms rpc set 8453 <url>');
+  });
+
+  test('checks the gas balance of the sending account', async () => {
+    const endpoints = { urls: [base.url], timeout: 2000, source: 'option' as const };
+
+    expect(await preflightChain({ chainId: 8453, endpoints })).toEqual({ rpcUrl: base.url, chainId: 8453 });
+    // 50000 gas at 1 gwei, with a 20% margin
+    expect(await preflightChain({ chainId: 8453, endpoints, account: OWNER, transaction: { to: APP, data: '0x' } })).toEqual({
+      rpcUrl: base.url,
+      chainId: 8453,
+      account: OWNER,
+      balance: 10n ** 18n,
+      requiredBalance: 60_000n * GWEI,
+    });
+
+    await expect(preflightChain({ chainId: 8453, endpoints, account: POOR, gas: 1_500_000n }))
+      .rejects.toThrow(`Account ${POOR} has 0 ETH on chain 8453, the transaction needs about 0.0018 ETH for gas`);
+    await expect(preflightChain({ chainId: 8453, endpoints, account: POOR, transaction: { to: APP, data: '0x' } }))
+      .rejects.toThrow('caller is not the owner');
+  });
+
+  test('formats amounts of wei', () => {
+    expect(formatEther(0n)).toBe('0 ETH');
+    expect(formatEther(1_234_567_890_000_000_000n, 'MATIC')).toBe('1.234567 MATIC');
+    expect(formatEther(10n ** 18n * 3n)).toBe('3 ETH');
+  });
+});
@@ -1,4 +1,4 @@
-import { parseEnv } from '../../src/utils/secrets';
+import { DotenvParseError, parseDotenv, parseEnv, readEnvFile } from '../../src/utils/secrets';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
@@ -394,7 +394,8 @@ FOO_SQ='  some value  '`;
         { key: 'BACKTICK_QUOTED', value: '  backtick quoted value with spaces and # hash and newline \\\\\\\\n not expanded ' },
         { key: 'JSON_LIKE', value: '{\"key\": \"value with \\\"inner\\\" quotes\"}' },
         { key: 'WEIRD_CHARS', value: '!@#$%^&*()_+-=[]{}\\\\;\\\\\\\':\\\\\\\",./<>?' },
-        { key: 'WEIRD_QUOTES_DQ', value: '!@#$%^&*()_+-=[]{}\\\\;\\\\\\\':\\\\\\\",./<>?' },
+        // Double quotes unescape \\ and \"
+        { key: 'WEIRD_QUOTES_DQ', value: '!@#$%^&*()_+-=[]{}\\;\\\\\':\\",./<>?' },
         { key: 'WEIRD_QUOTES_SQ', value: '.!@#$%^&*()_+-=[]{}\\\\;\\\\\\\':\\\\\\\",./<>?' },
         { key: 'WEIRD_QUOTES_BT', value: '!@#$%^&*()_+-=[]{}\\\\;\\\\\\\':\\\\\\\",./<>?' },
         { key: 'VALUE_WITH_HASH_IN_IT', value: 'foo#bar' },
@@ -404,4 +405,86 @@ FOO_SQ='  some value  '`;
       cleanupTempFile(tempFile);
     }
   });
-}); 
\ No newline at end of file
+}); 
+
+describe('parseDotenv', () => {
+  const SHELL_VAR = 'PHALA_DOTENV_TEST';
+  const parse = (content: string, options = {}) =>
+    Object.fromEntries(parseDotenv(content, { onWarning: () => {}, ...options }).map(({ key, value }) => [key, value]));
+
+  test.each([
+    ['export prefix', 'export TOKEN=abc\nexport  URL="https://x"', { TOKEN: 'abc', URL: 'https://x' }],
+    ['CRLF line endings', 'A=1\r\nB="2"\r\n', { A: '1', B: '2' }],
+    ['multi-line double-quoted value', 'KEY="-----BEGIN KEY-----\nabc\n-----END KEY-----"\nNEXT=1', { KEY: '-----BEGIN KEY-----\nabc\n-----END KEY-----', NEXT: '1' }],
+    ['escaped newline in double quotes', 'A="one\\ntwo"', { A: 'one\ntwo' }],
+    ['escaped backslash in double quotes', 'A="C:\\\\dir"', { A: 'C:\\dir' }],
+    ['backslash at the end of a single-quoted value', "A='C:\\'\nB=1", { A: 'C:\\', B: '1' }],
+    ['escaped quote does not close the value', 'A="say \\"hi\\"" # comment', { A: 'say "hi"' }],
+    ['comment after a quoted value', "A='x' # note", { A: 'x' }],
+    ['hash without whitespace is kept', 'A=x#y', { A: 'x#y' }],
+    ['hash at the start of a value is a comment', 'A=#x', { A: '' }],
+    ['dots and hyphens in keys', 'app.name=x\nAPP-ID=y', { 'app.name': 'x', 'APP-ID': 'y' }],
+    ['no expansion by default', 'A=1\nB=${A}', { A: '1', B: '${A}' }],
+  ])('%s', (_name, content, expected) => {
+    expect(parse(content)).toEqual(expected);
+  });
+
+  test.each([
+    ['braced and bare references', 'HOST=db\nURL=postgres://${HOST}:5432/$HOST', { HOST: 'db', URL: 'postgres://db:5432/db' }],
+    ['double-quoted values', 'A=1\nB="${A} and ${A}"', { A: '1', B: '1 and 1' }],
+    ['single-quoted values are literal', "A=1\nB='${A}'", { A: '1', B: '${A}' }],
+    ['escaped dollar sign', 'A=1\nB=\\$A', { A: '1', B: '$A' }],
+    ['shell environment', 'B=${PHALA_DOTENV_TEST}', { B: 'from-shell' }],
+    ['undefined variable', 'B=x${MISSING_DOTENV_VAR}y', { B: 'xy' }],
+  ])('expands %s when enabled', (_name, content, expected) => {
+    process.env[SHELL_VAR] = 'from-shell';
+    try {
+      expect(parse(content, { expand: true })).toEqual(expected);
+    } finally {
+      delete process.env[SHELL_VAR];
+    }
+  });
+
+  test.each([
+    ['a line without =', 'A=1\nJUST_A_KEY', 2, "expected KEY=value, got 'JUST_A_KEY'"],
+    ['an invalid key', '\n1ABC=x', 2, "invalid key '1ABC'"],
+    ['an unterminated double quote', 'A=1\nB="open\nstill open', 2, 'unterminated " quoted value of B'],
+    ['an unterminated single quote', "A='open\nB=1", 1, "unterminated ' quoted value of A"],
+    ['text after a closing quote', 'A="x"y', 1, "unexpected 'y' after the quoted value of A"],
+  ])('reports %s with its line number', (_name, content, line, message) => {
+    let error: unknown;
+    try {
+      parseDotenv(content, { source: 'app.env' });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(DotenvParseError);
+    expect((error as DotenvParseError).line).toBe(line);
+    expect((error as DotenvParseError).message).toBe(`app.env:${line}: ${message}`);
+  });
+
+  test('warns about duplicate keys and keeps the last value in place', () => {
+    const warnings: string[] = [];
+    const result = parseDotenv('A=1\nB=2\n\nA=3', { source: '.env', onWarning: (message) => warnings.push(message) });
+
+    expect(result).toEqual([{ key: 'A', value: '3' }, { key: 'B', value: '2' }]);
+    expect(warnings).toEqual(['.env:4: A is already set on line 1, the last value is used']);
+  });
+
+  test('warns about undefined variables when expanding', () => {
+    const warnings: string[] = [];
+    parseDotenv('A=${MISSING_DOTENV_VAR}', { expand: true, onWarning: (message) => warnings.push(message) });
+
+    expect(warnings).toEqual(['env file:1: ${MISSING_DOTENV_VAR} is not defined, expanded to an empty value']);
+  });
+
+  test('reads env files by path', () => {
+    const tempFile = createTempFile('export A="multi\nline"\n');
+    try {
+      expect(readEnvFile(tempFile)).toEqual([{ key: 'A', value: 'multi\nline' }]);
+      expect(() => readEnvFile(`${tempFile}.missing`)).toThrow('Environment file not found');
+    } finally {
+      cleanupTempFile(tempFile);
+    }
+  });
+});
@@ -2,9 +2,27 @@ import { execa } from 'execa';
 import * as path from 'path';
 import * as os from 'os';
 import { createMockDir, deleteMockDir } from './mock';
+import { startMockApiServer, type MockApiServer } from '../mock-api/server';
 
 const CLI_PATH = './dist/index.js';
 
+let mockApiServer: Promise<MockApiServer> | undefined;
+
+/**
+ * Returns the mock API shared by all test suites, starting it on first use.
+ * Set PHALA_TEST_LIVE_API=1 to run the tests against the API configured in the environment instead.
+ * @returns The mock API server, or undefined when testing against the live API
+ */
+export async function getMockApiServer(): Promise<MockApiServer | undefined> {
+  if (process.env.PHALA_TEST_LIVE_API) {
+    return undefined;
+  }
+  if (!mockApiServer) {
+    mockApiServer = startMockApiServer({ stepDelayMs: 200, unref: true });
+  }
+  return mockApiServer;
+}
+
 /**
  * Creates a test environment for a specific test suite
  * @param testName The name of the test suite
@@ -16,13 +34,20 @@ export function createTestEnvironment(testName: string) {
   /**
    * Helper function to run CLI commands
    * @param args The command line arguments
+   * @param options.cwd Working directory of the command, where deploy keeps its .phala files
    * @returns The command output
    */
-  async function runCommand(args: string[]): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+  async function runCommand(args: string[], options: { cwd?: string } = {}): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+    const mockApi = await getMockApiServer();
     try {
-      const { stdout, stderr } = await execa('node', [CLI_PATH, ...args], {
+      const { stdout, stderr } = await execa('node', [path.resolve(CLI_PATH), ...args], {
+        cwd: options.cwd,
         env: {
           TEE_CLOUD_CONFIG_DIR: testConfigDir,
+          ...(mockApi && {
+            PHALA_CLOUD_API_PREFIX: mockApi.url,
+            PHALA_CLOUD_API_KEY: mockApi.apiKey,
+          }),
         },
       });
       return { stdout, stderr, exitCode: 0 };
@@ -0,0 +1,124 @@
+import {
+  CvmWaitError,
+  DEFAULT_WAIT_TIMEOUT,
+  healthCheckUrl,
+  parseWaitTimeout,
+  probeHealth,
+  waitForCvmReady,
+  type CvmBootState,
+} from '../../src/utils/wait';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+const state = (status: string, overrides: Partial<CvmBootState> = {}): CvmBootState => ({
+  status,
+  inProgress: status !== 'running',
+  bootProgress: null,
+  bootError: null,
+  ...overrides,
+});
+
+// Returns the given states one per call, repeating the last one
+const sequence = (...states: CvmBootState[]) => {
+  let index = 0;
+  return async () => states[Math.min(index++, states.length - 1)];
+};
+
+describe('Waiting for a CVM', () => {
+  test('polls until the CVM is running and reports changes', async () => {
+    const reported: string[] = [];
+    const final = await waitForCvmReady(
+      sequence(
+        state('starting', { bootProgress: 'booting' }),
+        state('starting', { bootProgress: 'booting' }),
+        state('running', { inProgress: true, bootProgress: 'done' }),
+        state('running', { bootProgress: 'done' }),
+      ),
+      { timeout: 5, interval: 1, onProgress: (current) => reported.push(`${current.status}:${current.inProgress}`) }
+    );
+
+    expect(final.status).toBe('running');
+    expect(reported).toEqual(['starting:true', 'running:true', 'running:false']);
+  });
+
+  test('waits for the operation to show before taking a running CVM as ready', async () => {
+    let polls = 0;
+    const states = sequence(
+      state('running'),
+      state('running'),
+      state('running', { inProgress: true }),
+      state('running'),
+    );
+    await waitForCvmReady(async () => {
+      polls++;
+      return states();
+    }, { timeout: 5, interval: 1 });
+    expect(polls).toBe(4);
+
+    const final = await waitForCvmReady(sequence(state('running')), { timeout: 5, interval: 1, gracePeriod: 5 });
+    expect(final.status).toBe('running');
+  });
+
+  test('takes a CVM running until a timeout shorter than the grace period as ready', async () => {
+    const final = await waitForCvmReady(sequence(state('running')), { timeout: 0.05, interval: 10 });
+    expect(final.status).toBe('running');
+  });
+
+  test('fails on a boot error', async () => {
+    const promise = waitForCvmReady(sequence(state('starting', { bootError: 'image pull failed' })), { timeout: 5, interval: 1 });
+    await expect(promise).rejects.toBeInstanceOf(CvmWaitError);
+    await expect(waitForCvmReady(sequence(state('starting', { bootError: 'image pull failed' })), { timeout: 5, interval: 1 }))
+      .rejects.toThrow('CVM failed to boot: image pull failed');
+  });
+
+  test('fails when the timeout expires', async () => {
+    await expect(waitForCvmReady(sequence(state('starting', { bootProgress: 'pulling images' })), { timeout: 0.05, interval: 10 }))
+      .rejects.toThrow(/Timed out after 0.05s .*boot progress: pulling images/);
+  });
+
+  test('parses the timeout', () => {
+    expect(parseWaitTimeout(undefined)).toBe(DEFAULT_WAIT_TIMEOUT);
+    expect(parseWaitTimeout('90')).toBe(90);
+    expect(() => parseWaitTimeout('soon')).toThrow("Invalid wait timeout 'soon'");
+    expect(() => parseWaitTimeout('0')).toThrow('Invalid wait timeout');
+  });
+});
+
+describe('Health probe', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let healthy = false;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.writeHead(req.url === '/healthz' && healthy ? 200 : 503);
+      res.end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('joins base URLs and health paths', () => {
+    expect(healthCheckUrl('https://app.example.com/', '/healthz')).toBe('https://app.example.com/healthz');
+    expect(healthCheckUrl('https://app.example.com', 'healthz')).toBe('https://app.example.com/healthz');
+  });
+
+  test('succeeds once the health path answers', async () => {
+    healthy = false;
+    setTimeout(() => {
+      healthy = true;
+    }, 20);
+    const result = await probeHealth([baseUrl], '/healthz', { timeout: 5, interval: 10 });
+    expect(result).toEqual({ url: `${baseUrl}/healthz`, ok: true, status: 200 });
+  });
+
+  test('fails when no URL becomes healthy in time', async () => {
+    healthy = true;
+    await expect(probeHealth([baseUrl], '/ready', { timeout: 0.05, interval: 10 })).rejects.toThrow(`${baseUrl}/ready: 503`);
+    await expect(probeHealth([], '/healthz', { timeout: 1 })).rejects.toThrow('no public URLs');
+  });
+});